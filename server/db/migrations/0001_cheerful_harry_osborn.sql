@@ -0,0 +1,3 @@
+ALTER TABLE "document_blocks" ADD COLUMN "directives" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_sections" ADD COLUMN "directives" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "title" varchar(255) DEFAULT 'New Chat' NOT NULL;
\ No newline at end of file
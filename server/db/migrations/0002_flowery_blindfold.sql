@@ -0,0 +1,39 @@
+CREATE TABLE "analysis_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"chat_message_id" uuid,
+	"query" text NOT NULL,
+	"pipelines" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"routing" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"consolidated_report" text,
+	"error" text,
+	"duration_ms" integer,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "pipeline_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"analysis_run_id" uuid NOT NULL,
+	"pipeline_name" varchar(50) NOT NULL,
+	"query" text NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"turns" integer DEFAULT 0 NOT NULL,
+	"max_turns" integer DEFAULT 0 NOT NULL,
+	"result" text,
+	"error" text,
+	"edit_intents" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"duration_ms" integer,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_runs" ADD CONSTRAINT "analysis_runs_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_runs" ADD CONSTRAINT "analysis_runs_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_runs" ADD CONSTRAINT "analysis_runs_chat_message_id_chat_messages_id_fk" FOREIGN KEY ("chat_message_id") REFERENCES "public"."chat_messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipeline_runs" ADD CONSTRAINT "pipeline_runs_analysis_run_id_analysis_runs_id_fk" FOREIGN KEY ("analysis_run_id") REFERENCES "public"."analysis_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analysis_runs_session_idx" ON "analysis_runs" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "analysis_runs_document_idx" ON "analysis_runs" USING btree ("document_id");--> statement-breakpoint
+CREATE INDEX "pipeline_runs_analysis_run_idx" ON "pipeline_runs" USING btree ("analysis_run_id");
\ No newline at end of file
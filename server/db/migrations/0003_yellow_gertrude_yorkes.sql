@@ -0,0 +1 @@
+ALTER TABLE "chat_messages" ADD COLUMN "tool_calls" jsonb;
\ No newline at end of file
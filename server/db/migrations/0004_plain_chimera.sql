@@ -0,0 +1 @@
+ALTER TABLE "chat_messages" ADD COLUMN "edit_proposals" jsonb;
\ No newline at end of file
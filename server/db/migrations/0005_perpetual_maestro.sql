@@ -0,0 +1,3 @@
+ALTER TABLE "edit_operations" DROP CONSTRAINT "edit_operations_block_id_document_blocks_id_fk";
+--> statement-breakpoint
+CREATE INDEX "edit_operations_document_idx" ON "edit_operations" USING btree ("document_id","created_at");
\ No newline at end of file
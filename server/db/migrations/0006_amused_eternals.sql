@@ -0,0 +1,15 @@
+CREATE TABLE "document_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"version" varchar(50) NOT NULL,
+	"bump" varchar(10) NOT NULL,
+	"notes" text,
+	"snapshot" jsonb NOT NULL,
+	"section_count" integer DEFAULT 0 NOT NULL,
+	"block_count" integer DEFAULT 0 NOT NULL,
+	"published_by" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_versions_document_version_idx" ON "document_versions" USING btree ("document_id","version");
\ No newline at end of file
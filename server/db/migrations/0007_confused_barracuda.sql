@@ -0,0 +1,25 @@
+CREATE TABLE "document_approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"review_transition_id" uuid NOT NULL,
+	"approver" varchar(100) NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "document_transitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"from_status" varchar(20) NOT NULL,
+	"to_status" varchar(20) NOT NULL,
+	"actor" varchar(100) NOT NULL,
+	"comment" text,
+	"approvers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_approvals" ADD CONSTRAINT "document_approvals_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_approvals" ADD CONSTRAINT "document_approvals_review_transition_id_document_transitions_id_fk" FOREIGN KEY ("review_transition_id") REFERENCES "public"."document_transitions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_transitions" ADD CONSTRAINT "document_transitions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "document_approvals_round_approver_idx" ON "document_approvals" USING btree ("review_transition_id","approver");--> statement-breakpoint
+CREATE INDEX "document_transitions_document_idx" ON "document_transitions" USING btree ("document_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "edit_operations" ADD COLUMN "superseded" boolean DEFAULT false NOT NULL;
\ No newline at end of file
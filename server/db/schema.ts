@@ -62,6 +62,76 @@ export const documents = pgTable('documents', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Document Versions table (immutable published snapshots)
+export const documentVersions = pgTable('document_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  documentId: uuid('document_id').references(() => documents.id, { onDelete: 'cascade' }).notNull(),
+  version: varchar('version', { length: 50 }).notNull(),
+  bump: varchar('bump', { length: 10 }).notNull(), // initial, major, minor, patch
+  notes: text('notes'),
+  snapshot: jsonb('snapshot').notNull(), // Full section/block tree at publish time
+  sectionCount: integer('section_count').default(0).notNull(),
+  blockCount: integer('block_count').default(0).notNull(),
+  publishedBy: varchar('published_by', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  documentVersionIdx: uniqueIndex('document_versions_document_version_idx').on(table.documentId, table.version),
+}));
+
+// Document status transitions (workflow history)
+export const documentTransitions = pgTable('document_transitions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  documentId: uuid('document_id').references(() => documents.id, { onDelete: 'cascade' }).notNull(),
+  fromStatus: varchar('from_status', { length: 20 }).notNull(),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  actor: varchar('actor', { length: 100 }).notNull(),
+  comment: text('comment'),
+  approvers: jsonb('approvers').default([]).notNull(), // Required approvers, set when entering review
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  documentIdx: index('document_transitions_document_idx').on(table.documentId, table.createdAt),
+}));
+
+// Approvals within one review round (the transition that entered review)
+export const documentApprovals = pgTable('document_approvals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  documentId: uuid('document_id').references(() => documents.id, { onDelete: 'cascade' }).notNull(),
+  reviewTransitionId: uuid('review_transition_id').references(() => documentTransitions.id, { onDelete: 'cascade' }).notNull(),
+  approver: varchar('approver', { length: 100 }).notNull(),
+  comment: text('comment'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  roundApproverIdx: uniqueIndex('document_approvals_round_approver_idx').on(table.reviewTransitionId, table.approver),
+}));
+
+// Templates (authored in the app; files in sandbox/templates seed this table)
+export const templates = pgTable('templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  slug: varchar('slug', { length: 100 }).unique().notNull(), // Template ID used by the API
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description').default('').notNull(),
+  content: text('content').notNull(), // Markdown of the latest version
+  version: integer('version').default(1).notNull(),
+  source: varchar('source', { length: 10 }).default('user').notNull(), // seed, user
+  createdBy: varchar('created_by', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  deletedAt: timestamp('deleted_at'), // Soft delete, so deleted seed templates are not seeded again
+});
+
+// Template versions (content of every saved revision)
+export const templateVersions = pgTable('template_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  templateId: uuid('template_id').references(() => templates.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  content: text('content').notNull(),
+  notes: text('notes'),
+  createdBy: varchar('created_by', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  templateVersionIdx: uniqueIndex('template_versions_template_version_idx').on(table.templateId, table.version),
+}));
+
 // Document Sections table
 export const documentSections = pgTable('document_sections', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -122,6 +192,8 @@ export const chatMessages = pgTable('chat_messages', {
   documentContext: jsonb('document_context'),
   documentReferences: jsonb('document_references').default([]).notNull(),
   pipelineResults: jsonb('pipeline_results'),
+  toolCalls: jsonb('tool_calls'),
+  editProposals: jsonb('edit_proposals'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   sessionIdx: index('chat_session_idx').on(table.sessionId),
@@ -132,7 +204,7 @@ export const chatMessages = pgTable('chat_messages', {
 export const editOperations = pgTable('edit_operations', {
   id: uuid('id').primaryKey().defaultRandom(),
   documentId: uuid('document_id').references(() => documents.id, { onDelete: 'cascade' }).notNull(),
-  blockId: uuid('block_id').references(() => documentBlocks.id, { onDelete: 'cascade' }),
+  blockId: uuid('block_id'), // No FK: history must outlive deleted blocks so they can be restored
   sessionId: uuid('session_id').references(() => sessions.id),
   operationType: varchar('operation_type', { length: 20 }).notNull(),
   previousContent: jsonb('previous_content'),
@@ -140,8 +212,50 @@ export const editOperations = pgTable('edit_operations', {
   authoredBy: varchar('authored_by', { length: 100 }).notNull(),
   chatMessageId: uuid('chat_message_id').references(() => chatMessages.id),
   undone: boolean('undone').default(false).notNull(),
+  superseded: boolean('superseded').default(false).notNull(), // Undone, then replaced by a new edit; no longer redoable
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  documentIdx: index('edit_operations_document_idx').on(table.documentId, table.createdAt),
+}));
+
+// Analysis Runs table
+export const analysisRuns = pgTable('analysis_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => sessions.id, { onDelete: 'cascade' }).notNull(),
+  documentId: uuid('document_id').references(() => documents.id, { onDelete: 'cascade' }).notNull(),
+  chatMessageId: uuid('chat_message_id').references(() => chatMessages.id, { onDelete: 'set null' }),
+  query: text('query').notNull(),
+  pipelines: jsonb('pipelines').default([]).notNull(), // Pipelines chosen by the router
+  routing: jsonb('routing').default([]).notNull(), // Full routing decisions with reasons
+  status: varchar('status', { length: 20 }).default('running').notNull(),
+  consolidatedReport: text('consolidated_report'),
+  error: text('error'),
+  durationMs: integer('duration_ms'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  sessionIdx: index('analysis_runs_session_idx').on(table.sessionId),
+  documentIdx: index('analysis_runs_document_idx').on(table.documentId),
+}));
+
+// Pipeline Runs table (one row per pipeline attempt, redirects start a new row)
+export const pipelineRuns = pgTable('pipeline_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisRunId: uuid('analysis_run_id').references(() => analysisRuns.id, { onDelete: 'cascade' }).notNull(),
+  pipelineName: varchar('pipeline_name', { length: 50 }).notNull(),
+  query: text('query').notNull(),
+  status: varchar('status', { length: 20 }).default('running').notNull(),
+  turns: integer('turns').default(0).notNull(),
+  maxTurns: integer('max_turns').default(0).notNull(),
+  result: text('result'),
+  error: text('error'),
+  editIntents: jsonb('edit_intents').default([]).notNull(),
+  durationMs: integer('duration_ms'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  analysisRunIdx: index('pipeline_runs_analysis_run_idx').on(table.analysisRunId),
+}));
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
@@ -157,6 +271,7 @@ export const sessionsRelations = relations(sessions, ({ one, many }) => ({
   }),
   messages: many(chatMessages),
   blockLocks: many(blockLocks),
+  analysisRuns: many(analysisRuns),
 }));
 
 export const documentsRelations = relations(documents, ({ one, many }) => ({
@@ -166,7 +281,43 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
   }),
   sections: many(documentSections),
   blocks: many(documentBlocks),
+  versions: many(documentVersions),
+  transitions: many(documentTransitions),
   messages: many(chatMessages),
+  analysisRuns: many(analysisRuns),
+}));
+
+export const documentVersionsRelations = relations(documentVersions, ({ one }) => ({
+  document: one(documents, {
+    fields: [documentVersions.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const documentTransitionsRelations = relations(documentTransitions, ({ one, many }) => ({
+  document: one(documents, {
+    fields: [documentTransitions.documentId],
+    references: [documents.id],
+  }),
+  approvals: many(documentApprovals),
+}));
+
+export const documentApprovalsRelations = relations(documentApprovals, ({ one }) => ({
+  reviewTransition: one(documentTransitions, {
+    fields: [documentApprovals.reviewTransitionId],
+    references: [documentTransitions.id],
+  }),
+}));
+
+export const templatesRelations = relations(templates, ({ many }) => ({
+  versions: many(templateVersions),
+}));
+
+export const templateVersionsRelations = relations(templateVersions, ({ one }) => ({
+  template: one(templates, {
+    fields: [templateVersions.templateId],
+    references: [templates.id],
+  }),
 }));
 
 export const documentSectionsRelations = relations(documentSections, ({ one, many }) => ({
@@ -188,6 +339,29 @@ export const documentBlocksRelations = relations(documentBlocks, ({ one }) => ({
   }),
 }));
 
+export const analysisRunsRelations = relations(analysisRuns, ({ one, many }) => ({
+  session: one(sessions, {
+    fields: [analysisRuns.sessionId],
+    references: [sessions.id],
+  }),
+  document: one(documents, {
+    fields: [analysisRuns.documentId],
+    references: [documents.id],
+  }),
+  chatMessage: one(chatMessages, {
+    fields: [analysisRuns.chatMessageId],
+    references: [chatMessages.id],
+  }),
+  pipelineRuns: many(pipelineRuns),
+}));
+
+export const pipelineRunsRelations = relations(pipelineRuns, ({ one }) => ({
+  analysisRun: one(analysisRuns, {
+    fields: [pipelineRuns.analysisRunId],
+    references: [analysisRuns.id],
+  }),
+}));
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -195,6 +369,16 @@ export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type NewDocumentVersion = typeof documentVersions.$inferInsert;
+export type DocumentTransition = typeof documentTransitions.$inferSelect;
+export type NewDocumentTransition = typeof documentTransitions.$inferInsert;
+export type DocumentApproval = typeof documentApprovals.$inferSelect;
+export type NewDocumentApproval = typeof documentApprovals.$inferInsert;
+export type Template = typeof templates.$inferSelect;
+export type NewTemplate = typeof templates.$inferInsert;
+export type TemplateVersion = typeof templateVersions.$inferSelect;
+export type NewTemplateVersion = typeof templateVersions.$inferInsert;
 export type DocumentSection = typeof documentSections.$inferSelect;
 export type NewDocumentSection = typeof documentSections.$inferInsert;
 export type DocumentBlock = typeof documentBlocks.$inferSelect;
@@ -203,3 +387,9 @@ export type BlockLock = typeof blockLocks.$inferSelect;
 export type NewBlockLock = typeof blockLocks.$inferInsert;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type NewChatMessage = typeof chatMessages.$inferInsert;
+export type EditOperation = typeof editOperations.$inferSelect;
+export type NewEditOperation = typeof editOperations.$inferInsert;
+export type AnalysisRun = typeof analysisRuns.$inferSelect;
+export type NewAnalysisRun = typeof analysisRuns.$inferInsert;
+export type PipelineRun = typeof pipelineRuns.$inferSelect;
+export type NewPipelineRun = typeof pipelineRuns.$inferInsert;
@@ -9,7 +9,9 @@ import { documentsRouter } from './routes/documents';
 import { chatRouter } from './routes/chat';
 import { sessionsRouter } from './routes/sessions';
 import { chartsRouter } from './routes/charts';
+import { analysisRouter } from './routes/analysis';
 import { WebSocketHandler } from './websocket/WebSocketHandler';
+import { mcpBridge } from './services/MCPBridge';
 
 // Load environment variables
 dotenv.config();
@@ -25,8 +27,14 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' })); // Increase limit for larger document payloads
 
 // Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+app.get('/health', async (req, res) => {
+  const mcp = await mcpBridge.health();
+  res.json({
+    // Pipelines are unavailable while the MCP server is restarting
+    status: mcp.status === 'restarting' ? 'degraded' : 'ok',
+    timestamp: new Date().toISOString(),
+    mcp,
+  });
 });
 
 // API Routes
@@ -35,6 +43,7 @@ app.use('/api/documents', documentsRouter);
 app.use('/api/chat', chatRouter);
 app.use('/api/sessions', sessionsRouter);
 app.use('/api/charts', chartsRouter);
+app.use('/api/analysis-runs', analysisRouter);
 
 // Create HTTP server
 const httpServer = createServer(app);
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { db } from '../config/database';
+import { analysisRuns, pipelineRuns } from '../db/schema';
+import { eq, and, desc, asc, SQL } from 'drizzle-orm';
+
+export const analysisRouter = Router();
+
+const MAX_LIST_LIMIT = 200;
+
+// List past analysis runs, newest first
+analysisRouter.get('/', async (req, res) => {
+  try {
+    const { documentId, sessionId, limit = '50' } = req.query;
+
+    const pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+
+    const conditions: SQL[] = [];
+    if (documentId) {
+      conditions.push(eq(analysisRuns.documentId, documentId as string));
+    }
+    if (sessionId) {
+      conditions.push(eq(analysisRuns.sessionId, sessionId as string));
+    }
+
+    const runs = await db()
+      .select()
+      .from(analysisRuns)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(analysisRuns.startedAt))
+      .limit(Math.min(pageSize, MAX_LIST_LIMIT));
+
+    res.json(runs);
+  } catch (error) {
+    console.error('List analysis runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a single run with its pipeline attempts
+analysisRouter.get('/:runId', async (req, res) => {
+  try {
+    const { runId } = req.params;
+
+    const [run] = await db()
+      .select()
+      .from(analysisRuns)
+      .where(eq(analysisRuns.id, runId))
+      .limit(1);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Analysis run not found' });
+    }
+
+    const pipelines = await db()
+      .select()
+      .from(pipelineRuns)
+      .where(eq(pipelineRuns.analysisRunId, runId))
+      .orderBy(asc(pipelineRuns.startedAt));
+
+    res.json({ ...run, pipelineRuns: pipelines });
+  } catch (error) {
+    console.error('Get analysis run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
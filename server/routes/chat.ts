@@ -2,13 +2,55 @@ import { Router } from 'express';
 import { db } from '../config/database';
 import { chatMessages, sessions } from '../db/schema';
 import { eq, desc } from 'drizzle-orm';
-import { openaiService, type ChatMessage } from '../services/OpenAIService';
+import { openaiService, type ChatMessage, type ChatTool } from '../services/OpenAIService';
+import { mcpBridge, type MCPToolResult } from '../services/MCPBridge';
+import { documentContextService, type GroundingContext } from '../services/DocumentContextService';
+import {
+  editProposalService,
+  PROPOSE_EDIT_TOOL,
+  type BlockEditProposal,
+  type EditProposalStatus,
+} from '../services/EditProposalService';
 
 export const chatRouter = Router();
 
 // In-memory message store for stateless operation (when DB is unavailable)
 const messageStore = new Map<string, Array<{ role: string; content: string }>>();
 
+// Tool call as streamed to the client and stored on the assistant message
+interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'running' | 'complete' | 'error';
+  result?: string;
+}
+
+// Expose the MCP server's tools to the model; chat still works without them
+async function loadChatTools(): Promise<ChatTool[]> {
+  try {
+    if (!mcpBridge.connected) {
+      await mcpBridge.connect();
+    }
+    const tools = await mcpBridge.listTools();
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    }));
+  } catch (error) {
+    console.warn('MCP tools unavailable for chat:', (error as Error).message);
+    return [];
+  }
+}
+
+// Flatten MCP content items into text for the model
+function formatToolResult(result: MCPToolResult): string {
+  return (result.content || [])
+    .map((item) => (item.type === 'text' ? item.text || '' : `[${item.type} content]`))
+    .join('\n');
+}
+
 // Helper to ensure session exists in database
 async function ensureSession(sessionId: string): Promise<boolean> {
   try {
@@ -38,7 +80,10 @@ async function ensureSession(sessionId: string): Promise<boolean> {
 chatRouter.post('/:sessionId/send', async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const { message } = req.body;
+    const { message, documentContext } = req.body as {
+      message?: string;
+      documentContext?: { activeDocumentId?: string; activeSection?: string };
+    };
 
     if (!message) {
       return res.status(400).json({ error: 'Message is required' });
@@ -52,6 +97,20 @@ chatRouter.post('/:sessionId/send', async (req, res) => {
     // Ensure session exists in database
     const sessionReady = await ensureSession(sessionId);
 
+    // Ground the answer in the open document, if any
+    let grounding: GroundingContext | null = null;
+    if (documentContext?.activeDocumentId) {
+      try {
+        grounding = await documentContextService.buildGroundingContext(
+          documentContext.activeDocumentId,
+          message,
+          documentContext.activeSection
+        );
+      } catch (error) {
+        console.error('Failed to load document context:', error);
+      }
+    }
+
     // Get or create in-memory message history (for OpenAI context)
     if (!messageStore.has(sessionId)) {
       messageStore.set(sessionId, []);
@@ -66,9 +125,11 @@ chatRouter.post('/:sessionId/send', async (req, res) => {
       try {
         await db().insert(chatMessages).values({
           sessionId,
+          documentId: grounding?.documentContext.activeDocumentId,
           role: 'user',
           content: message,
-          documentReferences: [],
+          documentContext: grounding?.documentContext,
+          documentReferences: grounding ? [documentContextService.documentReference(grounding)] : [],
         });
       } catch (dbError) {
         console.error('Failed to save user message:', dbError);
@@ -82,7 +143,10 @@ chatRouter.post('/:sessionId/send', async (req, res) => {
         content: `You are an intelligent document analysis assistant called Insight Engine.
 You help users understand, analyze, and work with documents.
 Provide clear, well-structured responses using markdown formatting.
-Use headers, bullet points, code blocks, and emphasis where appropriate.`,
+Use headers, bullet points, code blocks, and emphasis where appropriate.${grounding ? `
+To change the document, call ${PROPOSE_EDIT_TOOL.name} rather than asking the user to edit blocks by hand.
+
+${grounding.prompt}` : ''}`,
       },
       ...history.slice(-10).map((m) => ({
         role: m.role as 'user' | 'assistant',
@@ -90,27 +154,70 @@ Use headers, bullet points, code blocks, and emphasis where appropriate.`,
       })),
     ];
 
+    // Edit proposals only make sense against a grounded document
+    const tools = [...(await loadChatTools()), ...(grounding ? [PROPOSE_EDIT_TOOL] : [])];
+    const toolCalls: ToolCallRecord[] = [];
+    const editProposals: BlockEditProposal[] = [];
+
     // Send start event
     res.write(`data: ${JSON.stringify({ type: 'start' })}\n\n`);
 
     // Stream response
-    await openaiService.streamChat(chatHistory, {
+    await openaiService.streamChatWithTools(chatHistory, tools, {
       onToken: (token) => {
         res.write(`data: ${JSON.stringify({ type: 'token', content: token })}\n\n`);
       },
+      onToolCall: (call) => {
+        toolCalls.push({ ...call, status: 'running' });
+        res.write(`data: ${JSON.stringify({ type: 'tool_call', toolCall: call })}\n\n`);
+      },
+      executeTool: async (call) => {
+        if (call.name === PROPOSE_EDIT_TOOL.name && grounding) {
+          const proposal = editProposalService.createProposal(call.arguments, grounding);
+          editProposals.push(proposal);
+          res.write(`data: ${JSON.stringify({ type: 'edit_proposal', proposal })}\n\n`);
+          return { content: `Proposal ${proposal.id} shown to the user for review.`, isError: false };
+        }
+
+        const result = await mcpBridge.callTool(call.name, call.arguments);
+        return { content: formatToolResult(result), isError: result.isError === true };
+      },
+      onToolResult: (callId, result) => {
+        const record = toolCalls.find((c) => c.id === callId);
+        if (record) {
+          record.status = result.isError ? 'error' : 'complete';
+          record.result = result.content;
+        }
+        res.write(`data: ${JSON.stringify({
+          type: 'tool_result',
+          toolCallId: callId,
+          result: result.content,
+          isError: result.isError,
+        })}\n\n`);
+      },
       onComplete: async (fullContent) => {
         // Add assistant response to history
         history.push({ role: 'assistant', content: fullContent });
 
+        const documentReferences = grounding
+          ? documentContextService.extractReferences(fullContent, grounding)
+          : [];
+
         // Save assistant message to database
+        let messageId: string | undefined;
         if (sessionReady) {
           try {
-            await db().insert(chatMessages).values({
+            const [saved] = await db().insert(chatMessages).values({
               sessionId,
+              documentId: grounding?.documentContext.activeDocumentId,
               role: 'assistant',
               content: fullContent,
-              documentReferences: [],
-            });
+              documentContext: grounding?.documentContext,
+              documentReferences,
+              toolCalls: toolCalls.length > 0 ? toolCalls : null,
+              editProposals: editProposals.length > 0 ? editProposals : null,
+            }).returning({ id: chatMessages.id });
+            messageId = saved.id;
             // Update session activity
             await db()
               .update(sessions)
@@ -121,7 +228,7 @@ Use headers, bullet points, code blocks, and emphasis where appropriate.`,
           }
         }
 
-        res.write(`data: ${JSON.stringify({ type: 'complete', content: fullContent })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'complete', content: fullContent, documentReferences, messageId })}\n\n`);
         res.end();
       },
       onError: (error) => {
@@ -285,6 +392,41 @@ chatRouter.patch('/messages/:messageId', async (req, res) => {
   }
 });
 
+// Record the user's decision on an edit proposal
+chatRouter.patch('/messages/:messageId/proposals/:proposalId', async (req, res) => {
+  try {
+    const { messageId, proposalId } = req.params;
+    const { status } = req.body as { status?: EditProposalStatus };
+
+    if (status !== 'accepted' && status !== 'rejected') {
+      return res.status(400).json({ error: 'Status must be accepted or rejected' });
+    }
+
+    const [message] = await db()
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.id, messageId))
+      .limit(1);
+
+    const proposals = (message?.editProposals as BlockEditProposal[] | null) || [];
+    const proposal = proposals.find((p) => p.id === proposalId);
+    if (!proposal) {
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    proposal.status = status;
+    await db()
+      .update(chatMessages)
+      .set({ editProposals: proposals })
+      .where(eq(chatMessages.id, messageId));
+
+    res.json(proposal);
+  } catch (error) {
+    console.error('Update proposal error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get recent messages (for context)
 chatRouter.get('/:sessionId/recent', async (req, res) => {
   try {
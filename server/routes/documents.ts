@@ -1,13 +1,51 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { db } from '../config/database';
 import { documents, documentSections, documentBlocks } from '../db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and, gte, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { templateParser } from '../services/TemplateParser';
-import type { CreateDocumentFromTemplateRequest } from '../types/template';
+import { templateStore, type TemplateWriteResult } from '../services/TemplateStore';
+import { templateSyncService, type TemplateSyncResult } from '../services/TemplateSyncService';
+import { loadDocumentTree } from '../services/DocumentTree';
+import { directiveValidator } from '../services/DirectiveValidator';
+import { documentVersionService, VERSION_BUMPS } from '../services/DocumentVersionService';
+import { documentDiffService } from '../services/DocumentDiffService';
+import { documentWorkflowService, type DocumentStatus } from '../services/DocumentWorkflowService';
+import { markdownExporter } from '../services/MarkdownExporter';
+import { buildExportDocument } from '../services/DocumentExportModel';
+import { docxExporter } from '../services/DocxExporter';
+import { countUnsupportedPdfCharacters, pdfExporter } from '../services/PdfExporter';
+import { htmlExporter, isHtmlTheme, type HtmlTheme } from '../services/HtmlExporter';
+import { editOperationLog, snapshotBlock, type HistoryResult } from '../services/EditOperationLog';
+import type {
+  CreateDocumentFromTemplateRequest,
+  CreateDocumentFromTemplateResponse,
+  CreateTemplateRequest,
+  DuplicateTemplateRequest,
+  ImportMarkdownRequest,
+  ImportMarkdownResponse,
+  ParsedTemplate,
+  UpdateTemplateRequest,
+} from '../types/template';
 
 export const documentsRouter = Router();
 
+// Finalized and archived documents reject every edit
+async function rejectIfReadOnly(res: Response, documentId: string | undefined): Promise<boolean> {
+  if (!documentId || !(await documentWorkflowService.isReadOnly(documentId))) return false;
+  res.status(423).json({ error: 'Document is read-only in its current status' });
+  return true;
+}
+
+async function getBlockDocumentId(blockId: string): Promise<string | undefined> {
+  const [block] = await db()
+    .select({ documentId: documentBlocks.documentId })
+    .from(documentBlocks)
+    .where(eq(documentBlocks.id, blockId))
+    .limit(1);
+  return block?.documentId;
+}
+
 // Get all documents
 documentsRouter.get('/', async (req, res) => {
   try {
@@ -35,60 +73,16 @@ documentsRouter.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Get document
-    const [doc] = await db()
-      .select()
-      .from(documents)
-      .where(eq(documents.id, id))
-      .limit(1);
-
-    if (!doc) {
+    const tree = await loadDocumentTree(id);
+    if (!tree) {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    // Get sections
-    const sections = await db()
-      .select()
-      .from(documentSections)
-      .where(eq(documentSections.documentId, id))
-      .orderBy(documentSections.position);
-
-    // Get blocks for all sections
-    const blocks = await db()
-      .select()
-      .from(documentBlocks)
-      .where(eq(documentBlocks.documentId, id))
-      .orderBy(documentBlocks.position);
-
-    // Organize blocks by section and map field names to frontend types
-    const sectionsWithBlocks = sections.map((section) => ({
-      id: section.id,
-      type: section.sectionType,
-      title: section.title,
-      position: section.position,
-      directives: section.directives,
-      blocks: blocks
-        .filter((block) => block.sectionId === section.id)
-        .map((block) => ({
-          id: block.id,
-          type: block.blockType,
-          content: block.content,
-          position: block.position,
-          entities: block.entities,
-          relationships: block.relationships,
-          wordCount: block.wordCount,
-          createdBy: block.createdBy,
-          updatedBy: block.updatedBy,
-          createdAt: block.createdAt,
-          updatedAt: block.updatedAt,
-        })),
-    }));
-
     res.json({
-      ...doc,
+      ...tree.document,
       content: {
-        sections: sectionsWithBlocks,
-        order: sections.map((s) => s.id),
+        sections: tree.sections,
+        order: tree.sections.map((s) => s.id),
       },
     });
   } catch (error) {
@@ -129,12 +123,32 @@ documentsRouter.put('/:id', async (req, res) => {
     const { id } = req.params;
     const { fileName, version, status, content, metadata } = req.body;
 
+    const [existing] = await db()
+      .select({ status: documents.status, version: documents.version })
+      .from(documents)
+      .where(eq(documents.id, id))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    // Status only changes through the workflow, so transitions are validated and recorded
+    if (status && status !== existing.status) {
+      return res.status(409).json({ error: `Use POST /api/documents/${id}/transitions to change status` });
+    }
+
+    // Versions are only cut through snapshots, so the history always matches the label
+    if (version && version !== existing.version) {
+      return res.status(409).json({ error: `Use POST /api/documents/${id}/versions to change version` });
+    }
+
+    if (await rejectIfReadOnly(res, id)) return;
+
     const [updated] = await db()
       .update(documents)
       .set({
         ...(fileName && { fileName }),
-        ...(version && { version }),
-        ...(status && { status }),
         ...(content && { content }),
         ...(metadata && { metadata }),
         updatedAt: new Date(),
@@ -180,6 +194,8 @@ documentsRouter.post('/:documentId/sections', async (req, res) => {
     const { documentId } = req.params;
     const { sectionType, title, position } = req.body;
 
+    if (await rejectIfReadOnly(res, documentId)) return;
+
     const [section] = await db()
       .insert(documentSections)
       .values({
@@ -202,21 +218,33 @@ documentsRouter.delete('/:documentId/sections/:sectionId', async (req, res) => {
   try {
     const { documentId, sectionId } = req.params;
 
-    // Delete all blocks in this section first (cascade should handle this, but be explicit)
-    await db()
-      .delete(documentBlocks)
-      .where(eq(documentBlocks.sectionId, sectionId));
+    if (await rejectIfReadOnly(res, documentId)) return;
 
-    // Delete the section
-    const [deleted] = await db()
-      .delete(documentSections)
-      .where(eq(documentSections.id, sectionId))
-      .returning();
+    const [section] = await db()
+      .select({ id: documentSections.id })
+      .from(documentSections)
+      .where(and(eq(documentSections.id, sectionId), eq(documentSections.documentId, documentId)))
+      .limit(1);
 
-    if (!deleted) {
+    if (!section) {
       return res.status(404).json({ error: 'Section not found' });
     }
 
+    // Block deletes are undone into their section, so a section only goes once it is empty
+    const [block] = await db()
+      .select({ id: documentBlocks.id })
+      .from(documentBlocks)
+      .where(eq(documentBlocks.sectionId, sectionId))
+      .limit(1);
+
+    if (block) {
+      return res.status(409).json({ error: 'Delete the blocks in this section first' });
+    }
+
+    await db()
+      .delete(documentSections)
+      .where(and(eq(documentSections.id, sectionId), eq(documentSections.documentId, documentId)));
+
     res.json({ message: 'Section deleted' });
   } catch (error) {
     console.error('Delete section error:', error);
@@ -234,6 +262,8 @@ documentsRouter.patch('/:documentId/sections/:sectionId/position', async (req, r
       return res.status(400).json({ error: 'Valid newPosition is required' });
     }
 
+    if (await rejectIfReadOnly(res, documentId)) return;
+
     // Get all sections for this document ordered by position
     const sections = await db()
       .select()
@@ -273,12 +303,22 @@ documentsRouter.patch('/:documentId/sections/:sectionId/position', async (req, r
 documentsRouter.post('/:documentId/sections/:sectionId/blocks', async (req, res) => {
   try {
     const { documentId, sectionId } = req.params;
-    const { blockType, content, position, createdBy } = req.body;
+    const { blockType, content, position, createdBy, chatMessageId } = req.body;
+
+    if (await rejectIfReadOnly(res, documentId)) return;
 
     // Calculate word count
     const text = JSON.stringify(content);
     const wordCount = text.split(/\s+/).filter(Boolean).length;
 
+    // Make room when inserting between existing blocks
+    if (typeof position === 'number') {
+      await db()
+        .update(documentBlocks)
+        .set({ position: sql`${documentBlocks.position} + 1` })
+        .where(and(eq(documentBlocks.sectionId, sectionId), gte(documentBlocks.position, position)));
+    }
+
     const [block] = await db()
       .insert(documentBlocks)
       .values({
@@ -293,6 +333,15 @@ documentsRouter.post('/:documentId/sections/:sectionId/blocks', async (req, res)
       })
       .returning();
 
+    await editOperationLog.record({
+      documentId,
+      blockId: block.id,
+      operationType: 'create',
+      newContent: snapshotBlock(block),
+      authoredBy: createdBy || 'user',
+      chatMessageId,
+    });
+
     res.status(201).json(block);
   } catch (error) {
     console.error('Create block error:', error);
@@ -304,12 +353,20 @@ documentsRouter.post('/:documentId/sections/:sectionId/blocks', async (req, res)
 documentsRouter.put('/blocks/:blockId', async (req, res) => {
   try {
     const { blockId } = req.params;
-    const { content, updatedBy } = req.body;
+    const { content, updatedBy, chatMessageId } = req.body;
+
+    if (await rejectIfReadOnly(res, await getBlockDocumentId(blockId))) return;
 
     // Calculate word count
     const text = JSON.stringify(content);
     const wordCount = text.split(/\s+/).filter(Boolean).length;
 
+    const [previous] = await db()
+      .select({ content: documentBlocks.content })
+      .from(documentBlocks)
+      .where(eq(documentBlocks.id, blockId))
+      .limit(1);
+
     const [updated] = await db()
       .update(documentBlocks)
       .set({
@@ -325,6 +382,16 @@ documentsRouter.put('/blocks/:blockId', async (req, res) => {
       return res.status(404).json({ error: 'Block not found' });
     }
 
+    await editOperationLog.record({
+      documentId: updated.documentId,
+      blockId,
+      operationType: 'update',
+      previousContent: previous?.content,
+      newContent: content,
+      authoredBy: updatedBy || 'user',
+      chatMessageId,
+    });
+
     res.json(updated);
   } catch (error) {
     console.error('Update block error:', error);
@@ -337,6 +404,8 @@ documentsRouter.delete('/blocks/:blockId', async (req, res) => {
   try {
     const { blockId } = req.params;
 
+    if (await rejectIfReadOnly(res, await getBlockDocumentId(blockId))) return;
+
     const [deleted] = await db()
       .delete(documentBlocks)
       .where(eq(documentBlocks.id, blockId))
@@ -346,6 +415,14 @@ documentsRouter.delete('/blocks/:blockId', async (req, res) => {
       return res.status(404).json({ error: 'Block not found' });
     }
 
+    await editOperationLog.record({
+      documentId: deleted.documentId,
+      blockId,
+      operationType: 'delete',
+      previousContent: snapshotBlock(deleted),
+      authoredBy: (req.body?.deletedBy as string) || 'user',
+    });
+
     res.json({ message: 'Block deleted' });
   } catch (error) {
     console.error('Delete block error:', error);
@@ -353,11 +430,48 @@ documentsRouter.delete('/blocks/:blockId', async (req, res) => {
   }
 });
 
+// Get a block's content revisions, newest first
+documentsRouter.get('/blocks/:blockId/history', async (req, res) => {
+  try {
+    const revisions = await editOperationLog.blockHistory(req.params.blockId);
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Get block history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Restore a block to a prior revision
+documentsRouter.post('/blocks/:blockId/history/:operationId/restore', async (req, res) => {
+  try {
+    const { blockId, operationId } = req.params;
+
+    if (await rejectIfReadOnly(res, await getBlockDocumentId(blockId))) return;
+
+    const result = await editOperationLog.restoreRevision(blockId, operationId, req.body?.updatedBy || 'user');
+
+    if (result.status === 'missing') {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+    if (result.status === 'locked') {
+      return res.status(423).json({
+        error: `Block is being edited by ${result.lockedBy || 'another process'}`,
+        blockId: result.blockId,
+      });
+    }
+
+    res.json(result.block);
+  } catch (error) {
+    console.error('Restore block revision error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update block position (reorder within section)
 documentsRouter.patch('/blocks/:blockId/position', async (req, res) => {
   try {
     const { blockId } = req.params;
-    const { newPosition } = req.body;
+    const { newPosition, updatedBy, chatMessageId } = req.body;
 
     if (typeof newPosition !== 'number' || newPosition < 0) {
       return res.status(400).json({ error: 'Valid newPosition is required' });
@@ -374,6 +488,8 @@ documentsRouter.patch('/blocks/:blockId/position', async (req, res) => {
       return res.status(404).json({ error: 'Block not found' });
     }
 
+    if (await rejectIfReadOnly(res, block.documentId)) return;
+
     // Get all blocks in this section ordered by position
     const blocks = await db()
       .select()
@@ -402,6 +518,16 @@ documentsRouter.patch('/blocks/:blockId/position', async (req, res) => {
         .where(eq(documentBlocks.id, blocks[i].id));
     }
 
+    await editOperationLog.record({
+      documentId: block.documentId,
+      blockId,
+      operationType: 'reposition',
+      previousContent: { position: currentIndex },
+      newContent: { position: newPosition },
+      authoredBy: updatedBy || 'user',
+      chatMessageId,
+    });
+
     res.json({ message: 'Block moved successfully' });
   } catch (error) {
     console.error('Update block position error:', error);
@@ -413,10 +539,26 @@ documentsRouter.patch('/blocks/:blockId/position', async (req, res) => {
 // Template Endpoints
 // ============================================
 
+// Registered before the /:id/* document routes, which would otherwise take
+// template ids such as "versions" or "export"
+
+function sendTemplateResult(res: Response, result: TemplateWriteResult, successStatus = 200) {
+  switch (result.status) {
+    case 'ok':
+      return res.status(successStatus).json(result.template);
+    case 'not_found':
+      return res.status(404).json({ error: 'Template not found' });
+    case 'conflict':
+      return res.status(409).json({ error: result.error });
+    case 'invalid':
+      return res.status(400).json({ error: result.error, errors: result.errors });
+  }
+}
+
 // List available templates
 documentsRouter.get('/templates/list', async (req, res) => {
   try {
-    const templates = await templateParser.listTemplates();
+    const templates = await templateStore.listTemplates();
     res.json(templates);
   } catch (error) {
     console.error('List templates error:', error);
@@ -424,98 +566,630 @@ documentsRouter.get('/templates/list', async (req, res) => {
   }
 });
 
+// Check directive syntax without saving
+documentsRouter.post('/templates/validate', async (req, res) => {
+  try {
+    const { content } = req.body as { content?: string };
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({ error: 'content is required' });
+    }
+
+    const errors = templateParser.validateTemplate(content);
+    res.json({ valid: errors.length === 0, errors });
+  } catch (error) {
+    console.error('Validate template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a template
+documentsRouter.post('/templates', async (req, res) => {
+  try {
+    const result = await templateStore.createTemplate(req.body as CreateTemplateRequest);
+    sendTemplateResult(res, result, 201);
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get parsed template by ID (preview without creating document)
 documentsRouter.get('/templates/:templateId', async (req, res) => {
   try {
-    const { templateId } = req.params;
-    const template = await templateParser.loadTemplate(templateId);
-    res.json(template);
+    const loaded = await templateStore.loadTemplate(req.params.templateId);
+
+    if (loaded.status === 'not_found') {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    if (loaded.status === 'invalid') {
+      return res.status(422).json({ error: 'Template references could not be resolved', errors: loaded.errors });
+    }
+
+    res.json(loaded.parsed);
   } catch (error) {
     console.error('Get template error:', error);
-    if ((error as Error).message?.includes('not found')) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a template; content changes are saved as a new version
+documentsRouter.put('/templates/:templateId', async (req, res) => {
+  try {
+    const result = await templateStore.updateTemplate(req.params.templateId, req.body as UpdateTemplateRequest);
+    sendTemplateResult(res, result);
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a template
+documentsRouter.delete('/templates/:templateId', async (req, res) => {
+  try {
+    const deleted = await templateStore.deleteTemplate(req.params.templateId);
+
+    if (!deleted) {
       return res.status(404).json({ error: 'Template not found' });
     }
+
+    res.json({ message: 'Template deleted' });
+  } catch (error) {
+    console.error('Delete template error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Create document from template
-documentsRouter.post('/from-template', async (req, res) => {
+// Copy a template into a new user template
+documentsRouter.post('/templates/:templateId/duplicate', async (req, res) => {
   try {
-    const { templateId, documentName, initialMetadata } = req.body as CreateDocumentFromTemplateRequest;
+    const result = await templateStore.duplicateTemplate(
+      req.params.templateId,
+      (req.body || {}) as DuplicateTemplateRequest
+    );
+    sendTemplateResult(res, result, 201);
+  } catch (error) {
+    console.error('Duplicate template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    if (!templateId || !documentName) {
-      return res.status(400).json({ error: 'templateId and documentName are required' });
+// List saved versions of a template, newest first
+documentsRouter.get('/templates/:templateId/versions', async (req, res) => {
+  try {
+    const versions = await templateStore.listVersions(req.params.templateId);
+
+    if (!versions) {
+      return res.status(404).json({ error: 'Template not found' });
     }
 
-    // Load and parse template
-    const template = await templateParser.loadTemplate(templateId);
+    res.json(versions);
+  } catch (error) {
+    console.error('List template versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Create document
-    const [doc] = await db()
-      .insert(documents)
+// Get the content of one template version
+documentsRouter.get('/templates/:templateId/versions/:version', async (req, res) => {
+  try {
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: 'version must be a positive integer' });
+    }
+
+    const detail = await templateStore.getVersion(req.params.templateId, version);
+
+    if (!detail) {
+      return res.status(404).json({ error: 'Template version not found' });
+    }
+
+    res.json(detail);
+  } catch (error) {
+    console.error('Get template version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Workflow
+// ============================================
+
+// Current status, allowed transitions, open review and history
+documentsRouter.get('/:id/workflow', async (req, res) => {
+  try {
+    const workflow = await documentWorkflowService.getWorkflow(req.params.id);
+
+    if (!workflow) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json(workflow);
+  } catch (error) {
+    console.error('Get workflow error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Move a document to a new status
+documentsRouter.post('/:id/transitions', async (req, res) => {
+  try {
+    const { to, actor, comment, approvers } = req.body as {
+      to?: DocumentStatus;
+      actor?: string;
+      comment?: string;
+      approvers?: string[];
+    };
+
+    if (!to) {
+      return res.status(400).json({ error: 'to is required' });
+    }
+
+    const result = await documentWorkflowService.transition(req.params.id, to, {
+      actor: actor || 'user',
+      comment,
+      approvers: Array.isArray(approvers) ? approvers : undefined,
+    });
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (result.status === 'invalid') {
+      return res.status(409).json({ error: result.error });
+    }
+
+    res.json({ document: result.document, transition: result.transition });
+  } catch (error) {
+    console.error('Transition document error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approve the document in its current review round
+documentsRouter.post('/:id/approvals', async (req, res) => {
+  try {
+    const { approver, comment } = req.body;
+
+    if (!approver) {
+      return res.status(400).json({ error: 'approver is required' });
+    }
+
+    const result = await documentWorkflowService.approve(req.params.id, approver, comment);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (result.status === 'invalid') {
+      return res.status(409).json({ error: result.error });
+    }
+
+    res.status(201).json({ approval: result.approval, review: result.review });
+  } catch (error) {
+    console.error('Approve document error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Versions
+// ============================================
+
+// List published versions
+documentsRouter.get('/:id/versions', async (req, res) => {
+  try {
+    const versions = await documentVersionService.listVersions(req.params.id);
+    res.json(versions);
+  } catch (error) {
+    console.error('List versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Publish a new version (snapshot + semantic bump)
+documentsRouter.post('/:id/versions', async (req, res) => {
+  try {
+    const { bump = 'patch', notes, publishedBy } = req.body;
+
+    if (!VERSION_BUMPS.includes(bump)) {
+      return res.status(400).json({ error: `bump must be one of: ${VERSION_BUMPS.join(', ')}` });
+    }
+
+    const version = await documentVersionService.publish(req.params.id, {
+      bump,
+      notes,
+      publishedBy: publishedBy || 'user',
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.status(201).json(version);
+  } catch (error) {
+    console.error('Publish version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a published version with its snapshot
+documentsRouter.get('/:id/versions/:versionId', async (req, res) => {
+  try {
+    const version = await documentVersionService.getVersion(req.params.id, req.params.versionId);
+
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(version);
+  } catch (error) {
+    console.error('Get version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Branch a new draft document from a published version
+documentsRouter.post('/:id/versions/:versionId/branch', async (req, res) => {
+  try {
+    const result = await documentVersionService.branch(req.params.id, req.params.versionId, req.body?.fileName);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Branch version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Structural diff between two versions ('current' for the live draft)
+documentsRouter.get('/:id/diff', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const from = req.query.from as string | undefined;
+    const to = (req.query.to as string | undefined) || 'current';
+
+    if (!from) {
+      return res.status(400).json({ error: 'from is required' });
+    }
+
+    const [fromTree, toTree] = await Promise.all([
+      documentVersionService.resolveSections(id, from),
+      documentVersionService.resolveSections(id, to),
+    ]);
+
+    if (!fromTree || !toTree) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({
+      from: { id: from, version: fromTree.version, label: fromTree.label },
+      to: { id: to, version: toTree.version, label: toTree.label },
+      ...documentDiffService.diff(fromTree.sections, toTree.sections),
+    });
+  } catch (error) {
+    console.error('Diff versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Undo / Redo
+// ============================================
+
+function sendHistoryResult(res: Response, result: HistoryResult, action: 'undo' | 'redo') {
+  switch (result.status) {
+    case 'empty':
+      return res.status(409).json({ error: `Nothing to ${action}` });
+    case 'locked':
+      return res.status(423).json({
+        error: `Block is being edited by ${result.lockedBy || 'another process'}`,
+        blockId: result.blockId,
+      });
+    case 'missing':
+      // Skipped: the block or its section no longer exists
+      return res.json({ operation: result.operation, applied: false });
+    case 'applied':
+      return res.json({ operation: result.operation, applied: true });
+  }
+}
+
+// Undo the most recent block edit in a document
+documentsRouter.post('/:id/undo', async (req, res) => {
+  try {
+    if (await rejectIfReadOnly(res, req.params.id)) return;
+
+    const result = await editOperationLog.undo(req.params.id);
+    sendHistoryResult(res, result, 'undo');
+  } catch (error) {
+    console.error('Undo error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Redo the most recently undone block edit in a document
+documentsRouter.post('/:id/redo', async (req, res) => {
+  try {
+    if (await rejectIfReadOnly(res, req.params.id)) return;
+
+    const result = await editOperationLog.redo(req.params.id);
+    sendHistoryResult(res, result, 'redo');
+  } catch (error) {
+    console.error('Redo error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Validation
+// ============================================
+
+// Validate every block against its stored directives, plus section-level entity checks
+documentsRouter.get('/:id/validation', async (req, res) => {
+  try {
+    const tree = await loadDocumentTree(req.params.id);
+
+    if (!tree) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json(directiveValidator.validateDocument(tree));
+  } catch (error) {
+    console.error('Validate document error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Template Sync
+// ============================================
+
+function sendSyncResult(res: Response, result: TemplateSyncResult) {
+  switch (result.status) {
+    case 'ok':
+      return res.json(result.plan);
+    case 'not_found':
+      return res.status(404).json({ error: 'Document not found' });
+    case 'no_template':
+      return res.status(409).json({ error: 'Document was not created from a template' });
+    case 'template_not_found':
+      return res.status(404).json({ error: `Template not found: ${result.templateId}` });
+    case 'invalid':
+      return res.status(422).json({ error: 'Template references could not be resolved', errors: result.errors });
+  }
+}
+
+// Preview which sections and blocks a sync with the source template would change
+documentsRouter.get('/:id/template-sync', async (req, res) => {
+  try {
+    const result = await templateSyncService.preview(req.params.id);
+    sendSyncResult(res, result);
+  } catch (error) {
+    console.error('Template sync preview error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Apply the source template's directives and add missing sections and blocks
+documentsRouter.post('/:id/template-sync', async (req, res) => {
+  try {
+    if (await rejectIfReadOnly(res, req.params.id)) return;
+
+    const { actor } = (req.body || {}) as { actor?: string };
+    const result = await templateSyncService.apply(req.params.id, actor || 'template');
+    sendSyncResult(res, result);
+  } catch (error) {
+    console.error('Template sync error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// Export
+// ============================================
+
+const EXPORT_CONTENT_TYPES = {
+  md: 'text/markdown',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+  html: 'text/html; charset=utf-8',
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES;
+
+// Export a document as directive-annotated markdown (the format templates use),
+// or rendered as a DOCX, PDF or self-contained HTML file (?theme= picks the HTML colors)
+documentsRouter.get('/:id/export', async (req, res) => {
+  try {
+    const format = (req.query.format as string | undefined) || 'md';
+    if (!Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, format)) {
+      return res.status(400).json({ error: `Unsupported export format: ${format}` });
+    }
+
+    const theme = (req.query.theme as string | undefined) || 'dark';
+    if (format === 'html' && !isHtmlTheme(theme)) {
+      return res.status(400).json({ error: `Unknown theme: ${theme}` });
+    }
+
+    const tree = await loadDocumentTree(req.params.id);
+    if (!tree) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    let body: string | Buffer;
+    switch (format as ExportFormat) {
+      case 'md':
+        body = markdownExporter.serialize(tree);
+        break;
+      case 'docx':
+        body = await docxExporter.render(buildExportDocument(tree));
+        break;
+      case 'pdf': {
+        const exportDocument = buildExportDocument(tree);
+        const unsupported = countUnsupportedPdfCharacters(exportDocument);
+        if (unsupported > 0) {
+          res.setHeader('X-Export-Warning', `${unsupported} unsupported characters replaced with "?"`);
+        }
+        body = await pdfExporter.render(exportDocument);
+        break;
+      }
+      case 'html':
+        body = htmlExporter.render(buildExportDocument(tree), theme as HtmlTheme);
+        break;
+    }
+
+    const fileName = tree.document.fileName.replace(/\.md$/, '').replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+    res.send(body);
+  } catch (error) {
+    console.error('Export document error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Insert a parsed template or import as a new draft document with its sections and blocks
+async function createDocumentFromParsed(
+  template: ParsedTemplate,
+  fileName: string,
+  createdBy: string,
+  metadata: Record<string, unknown>
+): Promise<CreateDocumentFromTemplateResponse> {
+  // Create document
+  const [doc] = await db()
+    .insert(documents)
+    .values({
+      fileName,
+      version: template.metadata.version || '1.0.0',
+      status: 'draft',
+      content: {},
+      metadata,
+    })
+    .returning();
+
+  // Create sections and blocks
+  let totalBlocks = 0;
+
+  for (const section of template.sections) {
+    // Create section
+    const [dbSection] = await db()
+      .insert(documentSections)
       .values({
-        fileName: documentName,
-        version: template.metadata.version || '1.0.0',
-        status: 'draft',
-        content: {},
-        metadata: {
-          ...template.metadata,
-          ...initialMetadata,
-          sourceTemplate: templateId,
-        },
+        documentId: doc.id,
+        sectionType: section.type,
+        title: section.title,
+        position: section.position,
+        directives: section.directives,
       })
       .returning();
 
-    // Create sections and blocks
-    let totalBlocks = 0;
+    // Create blocks for this section
+    for (const block of section.blocks) {
+      const text = block.content.text || JSON.stringify(block.content);
+      const wordCount = text.split(/\s+/).filter(Boolean).length;
 
-    for (const section of template.sections) {
-      // Create section
-      const [dbSection] = await db()
-        .insert(documentSections)
+      await db()
+        .insert(documentBlocks)
         .values({
           documentId: doc.id,
-          sectionType: section.type,
-          title: section.title,
-          position: section.position,
-          directives: section.directives,
-        })
-        .returning();
-
-      // Create blocks for this section
-      for (const block of section.blocks) {
-        const text = block.content.text || JSON.stringify(block.content);
-        const wordCount = text.split(/\s+/).filter(Boolean).length;
-
-        await db()
-          .insert(documentBlocks)
-          .values({
-            documentId: doc.id,
-            sectionId: dbSection.id,
-            blockType: block.type,
-            position: block.position,
-            content: block.content,
-            directives: block.directives,
-            wordCount,
-            createdBy: 'template',
-            updatedBy: 'template',
-          });
-
-        totalBlocks++;
-      }
+          sectionId: dbSection.id,
+          blockType: block.type,
+          position: block.position,
+          content: block.content,
+          directives: block.directives,
+          wordCount,
+          createdBy,
+          updatedBy: createdBy,
+        });
+
+      totalBlocks++;
+    }
+  }
+
+  return {
+    documentId: doc.id,
+    sectionCount: template.sections.length,
+    blockCount: totalBlocks,
+  };
+}
+
+// Create document from template
+documentsRouter.post('/from-template', async (req, res) => {
+  try {
+    const { templateId, documentName, initialMetadata, excludedSections = [] } =
+      req.body as CreateDocumentFromTemplateRequest;
+
+    if (!templateId || !documentName) {
+      return res.status(400).json({ error: 'templateId and documentName are required' });
+    }
+
+    if (!Array.isArray(excludedSections)) {
+      return res.status(400).json({ error: 'excludedSections must be an array of section IDs' });
+    }
+
+    // Load and parse template
+    const loaded = await templateStore.loadTemplate(templateId);
+
+    if (loaded.status === 'not_found') {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    if (loaded.status === 'invalid') {
+      return res.status(422).json({ error: 'Template references could not be resolved', errors: loaded.errors });
     }
 
-    res.status(201).json({
-      documentId: doc.id,
-      sectionCount: template.sections.length,
-      blockCount: totalBlocks,
+    // Drop opted-out sections and close the gaps in their positions
+    const template: ParsedTemplate = {
+      ...loaded.parsed,
+      sections: loaded.parsed.sections
+        .filter((section) => !excludedSections.includes(section.id))
+        .map((section, position) => ({ ...section, position })),
+    };
+
+    const created = await createDocumentFromParsed(template, documentName, 'template', {
+      ...loaded.parsed.metadata,
+      ...initialMetadata,
+      sourceTemplate: templateId,
+      sourceTemplateVersion: loaded.template.version,
+      // Template sync leaves these out too
+      ...(excludedSections.length > 0 && { excludedSections }),
     });
+
+    res.status(201).json(created);
   } catch (error) {
     console.error('Create from template error:', error);
-    if ((error as Error).message?.includes('not found')) {
-      return res.status(404).json({ error: 'Template not found' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Import an existing markdown document, inferring structure where directives are missing
+documentsRouter.post('/import', async (req, res) => {
+  try {
+    const { markdown, documentName, initialMetadata } = req.body as ImportMarkdownRequest;
+
+    if (typeof markdown !== 'string' || !markdown.trim() || !documentName) {
+      return res.status(400).json({ error: 'markdown and documentName are required' });
     }
+
+    const parsed = templateParser.parseTemplate(markdown);
+    if (parsed.sections.every((section) => section.blocks.length === 0)) {
+      return res.status(400).json({ error: 'No content found to import' });
+    }
+
+    const created = await createDocumentFromParsed(parsed, documentName, 'import', {
+      ...parsed.metadata,
+      ...initialMetadata,
+      importedFrom: 'markdown',
+    });
+
+    const response: ImportMarkdownResponse = {
+      ...created,
+      report: templateParser.buildImportReport(parsed),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Import markdown error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
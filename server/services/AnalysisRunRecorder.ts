@@ -0,0 +1,219 @@
+/**
+ * Analysis Run Recorder
+ *
+ * Persists analysis runs and their pipeline attempts so results survive
+ * orchestrator cleanup. Recording is best-effort: a database failure is
+ * logged and never interrupts the analysis itself.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { analysisRuns, pipelineRuns, chatMessages, sessions } from '../db/schema';
+import type { PipelineRoutingDecision } from './PipelineRouter';
+import type { EditIntentDeclaration } from './MCPBridge';
+
+export type RunStatus = 'running' | 'complete' | 'error' | 'cancelled' | 'redirected';
+
+export interface StartRunInput {
+  sessionId: string;
+  documentId: string;
+  query: string;
+  routing: PipelineRoutingDecision[];
+  chatMessageId?: string;
+}
+
+export interface PipelineRunOutcome {
+  status: Exclude<RunStatus, 'running'>;
+  turns: number;
+  maxTurns: number;
+  result?: string;
+  error?: string;
+  editIntents?: EditIntentDeclaration[];
+  durationMs: number;
+}
+
+// Final outcome of one pipeline, used to build the run summary
+export interface PipelineRunSummary {
+  pipelineRunId: string | null;
+  pipelineName: string;
+  status: Exclude<RunStatus, 'running' | 'redirected'>;
+  result?: string;
+  error?: string;
+}
+
+// Shape stored in chat_messages.pipeline_results (matches the frontend PipelineResultSummary)
+export interface PipelineResultSummary {
+  pipelineId: string;
+  pipelineName: string;
+  status: string;
+  summary?: string;
+}
+
+export class AnalysisRunRecorder {
+  /**
+   * Create the analysis run row. Returns null if it could not be saved.
+   */
+  async startRun(input: StartRunInput): Promise<string | null> {
+    try {
+      // WebSocket session IDs are not always backed by a session row yet
+      await db().insert(sessions).values({ id: input.sessionId }).onConflictDoNothing();
+
+      const [run] = await db()
+        .insert(analysisRuns)
+        .values({
+          sessionId: input.sessionId,
+          documentId: input.documentId,
+          chatMessageId: input.chatMessageId,
+          query: input.query,
+          pipelines: input.routing.filter((d) => d.selected).map((d) => d.pipelineName),
+          routing: input.routing,
+        })
+        .returning({ id: analysisRuns.id });
+
+      return run.id;
+    } catch (error) {
+      console.error('[AnalysisRunRecorder] Failed to start run:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create a row for one pipeline attempt
+   */
+  async startPipeline(analysisRunId: string | null, pipelineName: string, query: string): Promise<string | null> {
+    if (!analysisRunId) return null;
+
+    try {
+      const [pipelineRun] = await db()
+        .insert(pipelineRuns)
+        .values({ analysisRunId, pipelineName, query })
+        .returning({ id: pipelineRuns.id });
+
+      return pipelineRun.id;
+    } catch (error) {
+      console.error('[AnalysisRunRecorder] Failed to start pipeline run:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record how a pipeline attempt ended
+   */
+  async finishPipeline(pipelineRunId: string | null, outcome: PipelineRunOutcome): Promise<void> {
+    if (!pipelineRunId) return;
+
+    try {
+      await db()
+        .update(pipelineRuns)
+        .set({
+          status: outcome.status,
+          turns: outcome.turns,
+          maxTurns: outcome.maxTurns,
+          result: outcome.result,
+          error: outcome.error,
+          editIntents: outcome.editIntents || [],
+          durationMs: Math.round(outcome.durationMs),
+          completedAt: new Date(),
+        })
+        .where(eq(pipelineRuns.id, pipelineRunId));
+    } catch (error) {
+      console.error('[AnalysisRunRecorder] Failed to finish pipeline run:', error);
+    }
+  }
+
+  /**
+   * Close the run and attach its results to a chat message.
+   * Creates an assistant message when the run was not started from one.
+   * Returns the linked chat message ID.
+   */
+  async finishRun(
+    analysisRunId: string | null,
+    summaries: PipelineRunSummary[],
+    durationMs: number
+  ): Promise<string | null> {
+    if (!analysisRunId) return null;
+
+    const status = this.resolveStatus(summaries);
+    const consolidatedReport = this.buildReport(summaries);
+    const errors = summaries.filter((s) => s.error).map((s) => `${s.pipelineName}: ${s.error}`);
+
+    const pipelineResults: PipelineResultSummary[] = summaries
+      .filter((s) => s.pipelineRunId)
+      .map((s) => ({
+        pipelineId: s.pipelineRunId!,
+        pipelineName: s.pipelineName,
+        status: s.status,
+        summary: s.result || s.error,
+      }));
+
+    try {
+      const [run] = await db()
+        .update(analysisRuns)
+        .set({
+          status,
+          consolidatedReport,
+          error: errors.length > 0 ? errors.join('\n') : null,
+          durationMs: Math.round(durationMs),
+          completedAt: new Date(),
+        })
+        .where(eq(analysisRuns.id, analysisRunId))
+        .returning();
+
+      if (!run) return null;
+
+      if (run.chatMessageId) {
+        await db()
+          .update(chatMessages)
+          .set({ pipelineResults })
+          .where(eq(chatMessages.id, run.chatMessageId));
+        return run.chatMessageId;
+      }
+
+      const [message] = await db()
+        .insert(chatMessages)
+        .values({
+          sessionId: run.sessionId,
+          documentId: run.documentId,
+          role: 'assistant',
+          content: consolidatedReport || `Analysis ${status}.`,
+          documentReferences: [],
+          pipelineResults,
+        })
+        .returning({ id: chatMessages.id });
+
+      await db()
+        .update(analysisRuns)
+        .set({ chatMessageId: message.id })
+        .where(eq(analysisRuns.id, analysisRunId));
+
+      return message.id;
+    } catch (error) {
+      console.error('[AnalysisRunRecorder] Failed to finish run:', error);
+      return null;
+    }
+  }
+
+  /**
+   * A run is complete if any pipeline completed, otherwise it takes the failure mode
+   */
+  private resolveStatus(summaries: PipelineRunSummary[]): Exclude<RunStatus, 'running' | 'redirected'> {
+    if (summaries.some((s) => s.status === 'complete')) return 'complete';
+    if (summaries.some((s) => s.status === 'error')) return 'error';
+    return 'cancelled';
+  }
+
+  /**
+   * Combine completed pipeline results into one markdown report
+   */
+  private buildReport(summaries: PipelineRunSummary[]): string | null {
+    const completed = summaries.filter((s) => s.status === 'complete' && s.result);
+    if (completed.length === 0) return null;
+
+    return completed
+      .map((s) => `### ${s.pipelineName}\n\n${s.result}`)
+      .join('\n\n');
+  }
+}
+
+// Singleton instance
+export const analysisRunRecorder = new AnalysisRunRecorder();
@@ -1,7 +1,8 @@
 import { EventEmitter } from 'events';
 import { db } from '../config/database';
-import { blockLocks } from '../db/schema';
+import { blockLocks, documents } from '../db/schema';
 import { eq, and, lt, inArray } from 'drizzle-orm';
+import { READ_ONLY_STATUSES, type DocumentStatus } from './DocumentWorkflowService';
 
 export interface BlockLock {
   blockId: string;
@@ -50,6 +51,17 @@ export class BlockLockManager extends EventEmitter {
     const granted: BlockLock[] = [];
     const denied: { blockId: string; heldBy: string }[] = [];
 
+    // Finalized and archived documents are read-only to everyone
+    const [doc] = await db()
+      .select({ status: documents.status })
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (doc && READ_ONLY_STATUSES.includes(doc.status as DocumentStatus)) {
+      return { granted, denied: blockIds.map((blockId) => ({ blockId, heldBy: `${doc.status} document` })) };
+    }
+
     // Clean up expired locks first
     await db().delete(blockLocks).where(lt(blockLocks.expiresAt, new Date()));
 
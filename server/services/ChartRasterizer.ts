@@ -0,0 +1,398 @@
+/**
+ * Chart Rasterizer
+ *
+ * Draws bar, line, pie and doughnut charts from export chart data into an RGB
+ * pixel buffer, without a browser or native canvas, so document exports work
+ * offline. Axis ticks use a small built-in bitmap font; series names are
+ * returned as a legend for the exporter to set as text next to the image.
+ */
+
+import * as zlib from 'zlib';
+import type { ExportChartData, ExportChartType } from './DocumentExportModel';
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  rgb: Buffer; // width * height * 3 bytes, top row first
+}
+
+export interface ChartLegendEntry {
+  label: string;
+  color: string; // #rrggbb
+}
+
+export interface RasterizedChart {
+  image: RasterImage;
+  legend: ChartLegendEntry[];
+}
+
+type RGB = [number, number, number];
+
+// Same palette as ChartRenderer on the frontend
+const DEFAULT_COLORS: RGB[] = [
+  [59, 130, 246],
+  [16, 185, 129],
+  [245, 158, 11],
+  [239, 68, 68],
+  [139, 92, 246],
+  [236, 72, 153],
+  [6, 182, 212],
+  [249, 115, 22],
+];
+
+const SUPERSAMPLE = 2;
+const AXIS: RGB = [107, 114, 128];
+const GRID: RGB = [229, 231, 235];
+const BACKGROUND: RGB = [255, 255, 255];
+
+// 5x7 bitmap glyphs for tick labels, one string of bits per row
+const GLYPHS: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  '.': ['00000', '00000', '00000', '00000', '00000', '01100', '01100'],
+  ',': ['00000', '00000', '00000', '00000', '01100', '00100', '01000'],
+  ':': ['00000', '01100', '01100', '00000', '01100', '01100', '00000'],
+  '-': ['00000', '00000', '00000', '11111', '00000', '00000', '00000'],
+  '+': ['00000', '00100', '00100', '11111', '00100', '00100', '00000'],
+  '%': ['11000', '11001', '00010', '00100', '01000', '10011', '00011'],
+  '<': ['00010', '00100', '01000', '10000', '01000', '00100', '00010'],
+  '>': ['01000', '00100', '00010', '00001', '00010', '00100', '01000'],
+  x: ['00000', '00000', '10001', '01010', '00100', '01010', '10001'],
+  k: ['10000', '10000', '10010', '10100', '11000', '10100', '10010'],
+  M: ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000'],
+};
+
+class Canvas {
+  readonly pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, BACKGROUND);
+  }
+
+  setPixel(x: number, y: number, color: RGB) {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const i = (y * this.width + x) * 3;
+    this.pixels[i] = color[0];
+    this.pixels[i + 1] = color[1];
+    this.pixels[i + 2] = color[2];
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: RGB) {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    const y1 = Math.min(this.height, Math.round(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) this.setPixel(px, py, color);
+    }
+  }
+
+  // Thick segment: every pixel within half the width of the segment
+  line(ax: number, ay: number, bx: number, by: number, thickness: number, color: RGB) {
+    const r = thickness / 2;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy || 1;
+    const minX = Math.floor(Math.min(ax, bx) - r);
+    const maxX = Math.ceil(Math.max(ax, bx) + r);
+    const minY = Math.floor(Math.min(ay, by) - r);
+    const maxY = Math.ceil(Math.max(ay, by) + r);
+
+    for (let py = minY; py <= maxY; py++) {
+      for (let px = minX; px <= maxX; px++) {
+        const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+        const ex = ax + t * dx - px;
+        const ey = ay + t * dy - py;
+        if (ex * ex + ey * ey <= r * r) this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  // Pie slice between two angles (radians, clockwise from 12 o'clock), optionally hollow
+  slice(cx: number, cy: number, radius: number, innerRadius: number, start: number, end: number, color: RGB) {
+    for (let py = Math.floor(cy - radius); py <= Math.ceil(cy + radius); py++) {
+      for (let px = Math.floor(cx - radius); px <= Math.ceil(cx + radius); px++) {
+        const dx = px - cx;
+        const dy = py - cy;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance > radius || distance < innerRadius) continue;
+        let angle = Math.atan2(dx, -dy);
+        if (angle < 0) angle += Math.PI * 2;
+        if (angle >= start && angle < end) this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  text(value: string, x: number, y: number, scale: number, color: RGB, align: 'left' | 'center' | 'right' = 'left') {
+    const width = textWidth(value, scale);
+    let cursor = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    for (const char of value) {
+      const glyph = GLYPHS[char] || [];
+      for (let gy = 0; gy < glyph.length; gy++) {
+        for (let gx = 0; gx < 5; gx++) {
+          if (glyph[gy][gx] === '1') this.fillRect(cursor + gx * scale, y + gy * scale, scale, scale, color);
+        }
+      }
+      cursor += 6 * scale;
+    }
+  }
+
+  // Average each SUPERSAMPLE x SUPERSAMPLE block into one output pixel
+  downsample(factor: number): RasterImage {
+    const width = Math.floor(this.width / factor);
+    const height = Math.floor(this.height / factor);
+    const rgb = Buffer.alloc(width * height * 3);
+    const area = factor * factor;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let sy = 0; sy < factor; sy++) {
+            for (let sx = 0; sx < factor; sx++) {
+              sum += this.pixels[((y * factor + sy) * this.width + x * factor + sx) * 3 + c];
+            }
+          }
+          rgb[(y * width + x) * 3 + c] = Math.round(sum / area);
+        }
+      }
+    }
+
+    return { width, height, rgb };
+  }
+}
+
+function textWidth(value: string, scale: number): number {
+  return value.length * 6 * scale - scale;
+}
+
+function canDraw(value: string): boolean {
+  return [...value].every((char) => char in GLYPHS);
+}
+
+/**
+ * Parse a CSS color (#rgb, #rrggbb, rgb(), rgba()) blended over white
+ */
+export function parseColor(value: string | undefined, fallback: RGB): RGB {
+  if (!value) return fallback;
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join('') : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as RGB;
+  }
+
+  const rgba = value.match(/rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)/i);
+  if (rgba) {
+    const alpha = rgba[4] !== undefined ? Math.min(1, Number(rgba[4])) : 1;
+    return [1, 2, 3].map((i) => Math.round(Number(rgba[i]) * alpha + 255 * (1 - alpha))) as RGB;
+  }
+
+  return fallback;
+}
+
+export function toHex(color: RGB): string {
+  return '#' + color.map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${+(value / 1e3).toFixed(1)}k`;
+  return String(+value.toFixed(2));
+}
+
+// Round the axis range out to 1/2/5 steps
+function niceScale(min: number, max: number, ticks: number): { min: number; max: number; step: number } {
+  if (min === max) {
+    max = min + 1;
+  }
+  const rough = (max - min) / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) || magnitude * 10;
+  return { min: Math.floor(min / step) * step, max: Math.ceil(max / step) * step, step };
+}
+
+/**
+ * Rasterize a chart to an RGB image plus legend entries for its series
+ */
+export function rasterizeChart(
+  chartType: ExportChartType,
+  data: ExportChartData,
+  stacked = false,
+  width = 800,
+  height = 400
+): RasterizedChart {
+  const s = SUPERSAMPLE;
+  const canvas = new Canvas(width * s, height * s);
+  const isRadial = chartType === 'pie' || chartType === 'doughnut';
+
+  if (isRadial) {
+    const dataset = data.datasets[0];
+    const values = (dataset?.data || []).map((v) => Math.max(0, v));
+    const total = values.reduce((a, b) => a + b, 0) || 1;
+    const colors = data.labels.map((_, i) => parseColor(dataset?.colors?.[i], DEFAULT_COLORS[i % DEFAULT_COLORS.length]));
+    const radius = (Math.min(width, height) / 2 - 16) * s;
+    const inner = chartType === 'doughnut' ? radius * 0.5 : 0;
+
+    let angle = 0;
+    values.forEach((value, i) => {
+      const sweep = (value / total) * Math.PI * 2;
+      canvas.slice((width / 2) * s, (height / 2) * s, radius, inner, angle, angle + sweep, colors[i]);
+      angle += sweep;
+    });
+
+    return {
+      image: canvas.downsample(s),
+      legend: data.labels.map((label, i) => ({ label, color: toHex(colors[i]) })),
+    };
+  }
+
+  const colors = data.datasets.map((d, i) => parseColor(d.color, DEFAULT_COLORS[i % DEFAULT_COLORS.length]));
+  const count = data.labels.length;
+
+  // Value range: stacked bars add up per label, split into positive and negative stacks
+  let min = 0;
+  let max = 0;
+  for (let i = 0; i < count; i++) {
+    const values = data.datasets.map((d) => d.data[i] || 0);
+    if (stacked) {
+      max = Math.max(max, values.filter((v) => v > 0).reduce((a, b) => a + b, 0));
+      min = Math.min(min, values.filter((v) => v < 0).reduce((a, b) => a + b, 0));
+    } else {
+      max = Math.max(max, ...values);
+      min = Math.min(min, ...values);
+    }
+  }
+  const scale = niceScale(min, max, 5);
+
+  const tickScale = 2 * s;
+  const tickLabels: string[] = [];
+  for (let v = scale.min; v <= scale.max + scale.step / 2; v += scale.step) tickLabels.push(formatTick(v));
+  const left = (Math.max(...tickLabels.map((t) => textWidth(t, 2))) + 16) * s;
+  const right = 16 * s;
+  const top = 16 * s;
+  const bottom = 32 * s;
+  const plotWidth = width * s - left - right;
+  const plotHeight = height * s - top - bottom;
+  const yOf = (value: number) => top + plotHeight - ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+  // Grid and y ticks
+  tickLabels.forEach((label, i) => {
+    const y = yOf(scale.min + i * scale.step);
+    canvas.fillRect(left, y, plotWidth, s, GRID);
+    canvas.text(label, left - 8 * s, y - 3.5 * tickScale, tickScale, AXIS, 'right');
+  });
+
+  const slot = plotWidth / Math.max(count, 1);
+
+  if (chartType === 'bar') {
+    const groups = stacked ? 1 : Math.max(data.datasets.length, 1);
+    const barWidth = (slot * 0.8) / groups;
+
+    for (let i = 0; i < count; i++) {
+      let positive = 0;
+      let negative = 0;
+      data.datasets.forEach((dataset, d) => {
+        const value = dataset.data[i] || 0;
+        const color = parseColor(dataset.colors?.[i], colors[d]);
+        const x = left + i * slot + slot * 0.1 + (stacked ? 0 : d * barWidth);
+        const base = stacked ? (value >= 0 ? positive : negative) : 0;
+        const y0 = yOf(base);
+        const y1 = yOf(base + value);
+        canvas.fillRect(x, Math.min(y0, y1), Math.max(barWidth - s, s), Math.abs(y1 - y0), color);
+        if (stacked) {
+          if (value >= 0) positive += value;
+          else negative += value;
+        }
+      });
+    }
+  } else {
+    data.datasets.forEach((dataset, d) => {
+      let previous: [number, number] | null = null;
+      for (let i = 0; i < count; i++) {
+        const point: [number, number] = [left + i * slot + slot / 2, yOf(dataset.data[i] || 0)];
+        if (previous) canvas.line(previous[0], previous[1], point[0], point[1], 2 * s, colors[d]);
+        previous = point;
+      }
+    });
+  }
+
+  // Axes
+  canvas.fillRect(left, top, s, plotHeight, AXIS);
+  canvas.fillRect(left, yOf(Math.max(scale.min, Math.min(0, scale.max))), plotWidth, s, AXIS);
+
+  // X labels when the bitmap font can draw them, thinned out so they don't overlap
+  if (count > 0 && data.labels.every(canDraw)) {
+    const widest = Math.max(...data.labels.map((l) => textWidth(l, tickScale))) + 24 * s;
+    const every = Math.max(1, Math.ceil(widest / slot));
+    for (let i = 0; i < count; i += every) {
+      canvas.text(data.labels[i], left + i * slot + slot / 2, top + plotHeight + 10 * s, tickScale, AXIS, 'center');
+    }
+  }
+
+  return {
+    image: canvas.downsample(s),
+    legend: data.datasets.map((d, i) => ({ label: d.label, color: toHex(colors[i]) })),
+  };
+}
+
+// ============================================
+// PNG encoding
+// ============================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode an RGB image as an 8-bit truecolor PNG
+ */
+export function encodePng({ width, height, rgb }: RasterImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+  // compression, filter and interlace are all 0
+
+  // Each scanline starts with filter type 0 (none)
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgb.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -1,11 +1,21 @@
-import type { BlockDirectives, ValidationResult, ValidationError, ValidationWarning } from '../types/template';
+import {
+  SECTION_EXPECTED_ENTITIES,
+  type BlockDirectives,
+  type DocumentValidationReport,
+  type ValidationResult,
+  type ValidationError,
+  type ValidationWarning,
+} from '../types/template';
+import type { DocumentTree, DocumentTreeBlock } from './DocumentTree';
 
 /**
  * Validates block content against directive constraints
  */
 export class DirectiveValidator {
   /**
-   * Validate block content against its directives
+   * Validate block content against its directives. Violations are warnings
+   * unless the block's CONSTRAINTS directive is STRICT, in which case count
+   * and entity type violations are errors and the block is invalid.
    */
   validate(
     blockId: string,
@@ -14,6 +24,15 @@ export class DirectiveValidator {
   ): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
+    const strict = directives.constraints?.strict === true;
+
+    const violation = (warning: ValidationWarning, errorType: ValidationError['type']) => {
+      if (strict) {
+        errors.push({ ...warning, type: errorType });
+      } else {
+        warnings.push(warning);
+      }
+    };
 
     // Extract text content for analysis
     const text = this.extractText(content);
@@ -31,30 +50,35 @@ export class DirectiveValidator {
       });
     }
 
-    // Validate entity count
-    if (directives.chunk?.entityRange) {
-      const { min, max } = directives.chunk.entityRange;
-      const entityCount = entities.length;
+    // Validate entity count against CHUNK ENTITIES and CONSTRAINTS, whichever are declared
+    const entityCount = entities.length;
+    const minEntities = this.strictest(Math.max, directives.chunk?.entityRange?.min, directives.constraints?.minEntities);
+    const maxEntities = this.strictest(Math.min, directives.chunk?.entityRange?.max, directives.constraints?.maxEntities);
 
-      if (entityCount < min) {
-        warnings.push({
+    if (minEntities !== undefined && entityCount < minEntities) {
+      violation(
+        {
           type: 'entity_count_low',
-          message: `Block has ${entityCount} entities, expected at least ${min}`,
+          message: `Block has ${entityCount} entities, expected at least ${minEntities}`,
           blockId,
-          expected: min,
+          expected: minEntities,
           actual: entityCount,
-        });
-      }
+        },
+        'constraint_violation'
+      );
+    }
 
-      if (entityCount > max) {
-        warnings.push({
+    if (maxEntities !== undefined && entityCount > maxEntities) {
+      violation(
+        {
           type: 'entity_count_high',
-          message: `Block has ${entityCount} entities, expected at most ${max}`,
+          message: `Block has ${entityCount} entities, expected at most ${maxEntities}`,
           blockId,
-          expected: max,
+          expected: maxEntities,
           actual: entityCount,
-        });
-      }
+        },
+        'constraint_violation'
+      );
     }
 
     // Validate entity types
@@ -63,17 +87,21 @@ export class DirectiveValidator {
       const invalidEntities = entities.filter((e) => !allowedTypes.has(e.type));
 
       if (invalidEntities.length > 0) {
-        warnings.push({
-          type: 'invalid_entity_type',
-          message: `Block contains ${invalidEntities.length} entities with unexpected types: ${invalidEntities.map((e) => e.type).join(', ')}`,
-          blockId,
-          expected: directives.entityTypes.types.join(', '),
-          actual: invalidEntities.map((e) => e.type).join(', '),
-        });
+        violation(
+          {
+            type: 'invalid_entity_type',
+            message: `Block contains ${invalidEntities.length} entities with unexpected types: ${invalidEntities.map((e) => e.type).join(', ')}`,
+            blockId,
+            expected: directives.entityTypes.types.join(', '),
+            actual: invalidEntities.map((e) => e.type).join(', '),
+          },
+          'invalid_entity_type'
+        );
       }
     }
 
-    // Validate relationships
+    // Validate relationships. Pipelines fill these in over time, so a missing
+    // one stays a warning even in strict mode
     if (directives.relationships?.patterns) {
       const relationships = (content.relationships as Array<{ type: string; targetType: string }>) || [];
 
@@ -97,24 +125,30 @@ export class DirectiveValidator {
     if (directives.constraints) {
       const { minWords, maxWords } = directives.constraints;
 
-      if (minWords && wordCount < minWords) {
-        warnings.push({
-          type: 'word_count',
-          message: `Block has ${wordCount} words, expected at least ${minWords}`,
-          blockId,
-          expected: minWords,
-          actual: wordCount,
-        });
+      if (minWords !== undefined && wordCount < minWords) {
+        violation(
+          {
+            type: 'word_count',
+            message: `Block has ${wordCount} words, expected at least ${minWords}`,
+            blockId,
+            expected: minWords,
+            actual: wordCount,
+          },
+          'constraint_violation'
+        );
       }
 
-      if (maxWords && wordCount > maxWords) {
-        warnings.push({
-          type: 'word_count',
-          message: `Block has ${wordCount} words, expected at most ${maxWords}`,
-          blockId,
-          expected: maxWords,
-          actual: wordCount,
-        });
+      if (maxWords !== undefined && wordCount > maxWords) {
+        violation(
+          {
+            type: 'word_count',
+            message: `Block has ${wordCount} words, expected at most ${maxWords}`,
+            blockId,
+            expected: maxWords,
+            actual: wordCount,
+          },
+          'constraint_violation'
+        );
       }
     }
 
@@ -125,6 +159,18 @@ export class DirectiveValidator {
     };
   }
 
+  /**
+   * Validate a stored block, reading entities from the row when its content has none
+   */
+  validateStoredBlock(block: {
+    id: string;
+    content: Record<string, unknown>;
+    directives: unknown;
+    entities: unknown;
+  }): ValidationResult {
+    return this.validate(block.id, this.withEntities(block), (block.directives || {}) as BlockDirectives);
+  }
+
   /**
    * Validate multiple blocks
    */
@@ -183,6 +229,97 @@ export class DirectiveValidator {
     return summary;
   }
 
+  /**
+   * Warn about entity types the section type is expected to cover
+   * (SECTION_EXPECTED_ENTITIES) that none of its blocks contain
+   */
+  validateSection(
+    sectionId: string,
+    sectionType: string,
+    blocks: Array<{ content: Record<string, unknown> }>
+  ): ValidationWarning[] {
+    const expected = SECTION_EXPECTED_ENTITIES[sectionType] || [];
+    const found = new Set(
+      blocks.flatMap((block) => ((block.content.entities as Array<{ type: string }>) || []).map((e) => e.type))
+    );
+
+    return expected
+      .filter((type) => !found.has(type))
+      .map((type) => ({
+        type: 'missing_expected_entity' as const,
+        message: `Section has no ${type} entities`,
+        sectionId,
+        expected: type,
+      }));
+  }
+
+  /**
+   * Validate every block of a document against its stored directives, plus
+   * the section-level entity checks
+   */
+  validateDocument(tree: DocumentTree): DocumentValidationReport {
+    const blockResults = new Map<string, ValidationResult>();
+
+    const sections = tree.sections.map((section) => {
+      const blocks = section.blocks.map((block) => ({ ...block, content: this.withEntities(block) }));
+      const results = this.validateBlocks(
+        blocks.map((block) => ({
+          id: block.id,
+          content: block.content,
+          directives: (block.directives || {}) as BlockDirectives,
+        }))
+      );
+      results.forEach((result, blockId) => blockResults.set(blockId, result));
+
+      return {
+        sectionId: section.id,
+        sectionType: section.type,
+        title: section.title,
+        warnings: this.validateSection(section.id, section.type, blocks),
+        blocks: blocks.map((block) => ({
+          blockId: block.id,
+          blockType: block.type,
+          position: block.position,
+          ...(results.get(block.id) as ValidationResult),
+        })),
+      };
+    });
+
+    const { totalBlocks, validBlocks, errorCount, warningCount } = this.getSummary(blockResults);
+
+    return {
+      documentId: tree.document.id,
+      summary: {
+        totalBlocks,
+        validBlocks,
+        errorCount,
+        warningCount: warningCount + sections.reduce((acc, s) => acc + s.warnings.length, 0),
+      },
+      sections,
+    };
+  }
+
+  /**
+   * Pipelines may record entities on the block row instead of in its content
+   */
+  private withEntities(block: Pick<DocumentTreeBlock, 'content' | 'entities'>): Record<string, unknown> {
+    if (Array.isArray(block.content.entities) || !Array.isArray(block.entities)) return block.content;
+
+    const entities = (block.entities as Array<{ entityType?: string; type?: string }>).map((e) => ({
+      ...e,
+      type: e.type ?? e.entityType,
+    }));
+    return { ...block.content, entities };
+  }
+
+  /**
+   * Combine the bounds that are set, e.g. the higher of two minimums
+   */
+  private strictest(pick: (a: number, b: number) => number, ...bounds: Array<number | undefined>): number | undefined {
+    const set = bounds.filter((b): b is number => b !== undefined);
+    return set.length > 0 ? set.reduce((a, b) => pick(a, b)) : undefined;
+  }
+
   /**
    * Extract text from block content
    */
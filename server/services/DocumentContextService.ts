@@ -0,0 +1,264 @@
+/**
+ * Document Context Service
+ *
+ * Grounds chat answers in the open document. Sections are ranked by relevance
+ * to the user's message (the focused section always comes first) and
+ * serialized compactly into the system prompt, with block IDs the model can
+ * cite as [block:<id>].
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { documents, documentSections, documentBlocks, type DocumentBlock, type DocumentSection } from '../db/schema';
+
+// Shape of chat_messages.document_context (matches the frontend DocumentContext)
+export interface ChatDocumentContext {
+  activeDocumentId: string;
+  activeSection?: string;
+  documentVersion: string;
+}
+
+// Shape of chat_messages.document_references (matches the frontend DocumentReference)
+export interface ChatDocumentReference {
+  documentId: string;
+  documentName: string;
+  version?: string;
+  sectionId?: string;
+  chunkId?: string; // Block ID when the reference points at a single block
+  timestamp: string;
+}
+
+export interface GroundingContext {
+  documentContext: ChatDocumentContext;
+  documentName: string;
+  prompt: string;
+  sections: Map<string, DocumentSection>;
+  blocks: Map<string, DocumentBlock>; // Blocks shown to the model, for citations and edit proposals
+}
+
+// Prompt budget for the serialized document
+const MAX_CONTEXT_CHARS = 12_000;
+const MAX_FOCUSED_BLOCK_CHARS = 1_500;
+const MAX_BLOCK_CHARS = 300;
+
+const CITATION_PATTERN = /\[block:([0-9a-f-]{36})\]/gi;
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'what', 'how', 'why', 'this', 'that', 'with', 'are', 'our',
+  'can', 'you', 'does', 'should', 'about', 'from', 'into', 'more', 'section', 'document',
+]);
+
+export class DocumentContextService {
+  /**
+   * Load the document and build the prompt context. Returns null if it does not exist.
+   */
+  async buildGroundingContext(
+    documentId: string,
+    query: string,
+    focusedSectionId?: string
+  ): Promise<GroundingContext | null> {
+    const [doc] = await db()
+      .select()
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+
+    if (!doc) return null;
+
+    const sections = await db()
+      .select()
+      .from(documentSections)
+      .where(eq(documentSections.documentId, documentId))
+      .orderBy(documentSections.position);
+
+    const blocks = await db()
+      .select()
+      .from(documentBlocks)
+      .where(eq(documentBlocks.documentId, documentId))
+      .orderBy(documentBlocks.position);
+
+    const blocksBySection = new Map<string, DocumentBlock[]>();
+    for (const block of blocks) {
+      const list = blocksBySection.get(block.sectionId) || [];
+      list.push(block);
+      blocksBySection.set(block.sectionId, list);
+    }
+
+    const focusedSection = sections.find((s) => s.id === focusedSectionId);
+    const ranked = this.rankSections(sections, blocksBySection, query)
+      .filter((s) => s.id !== focusedSection?.id);
+    const ordered = focusedSection ? [focusedSection, ...ranked] : ranked;
+
+    const shownBlocks = new Map<string, DocumentBlock>();
+    const parts: string[] = [];
+    let length = 0;
+
+    for (const section of ordered) {
+      const isFocused = section.id === focusedSection?.id;
+      const serialized = this.serializeSection(
+        section,
+        blocksBySection.get(section.id) || [],
+        isFocused ? MAX_FOCUSED_BLOCK_CHARS : MAX_BLOCK_CHARS,
+        isFocused
+      );
+
+      // Always keep the focused section, then fill the budget by relevance
+      if (!isFocused && length + serialized.length > MAX_CONTEXT_CHARS) {
+        parts.push(`## ${section.title || section.sectionType} (${section.sectionType}) [section:${section.id}] — omitted`);
+        continue;
+      }
+
+      (blocksBySection.get(section.id) || []).forEach((b) => shownBlocks.set(b.id, b));
+      parts.push(serialized);
+      length += serialized.length;
+    }
+
+    const prompt = `The user has the document "${doc.fileName}" (version ${doc.version}, ${doc.status}) open.
+${focusedSection ? `They are focused on the section "${focusedSection.title || focusedSection.sectionType}".\n` : ''}Ground your answer in the document content below. When you use a block, cite it inline as [block:<id>] using the exact ID shown. Do not invent block IDs.
+
+${parts.join('\n\n')}`;
+
+    return {
+      documentContext: {
+        activeDocumentId: doc.id,
+        activeSection: focusedSection?.id,
+        documentVersion: doc.version,
+      },
+      documentName: doc.fileName,
+      prompt,
+      sections: new Map(sections.map((s) => [s.id, s])),
+      blocks: shownBlocks,
+    };
+  }
+
+  /**
+   * Turn [block:<id>] citations in an answer into document references
+   */
+  extractReferences(content: string, context: GroundingContext): ChatDocumentReference[] {
+    const timestamp = new Date().toISOString();
+    const seen = new Set<string>();
+    const references: ChatDocumentReference[] = [];
+
+    for (const match of content.matchAll(CITATION_PATTERN)) {
+      const blockId = match[1].toLowerCase();
+      const sectionId = context.blocks.get(blockId)?.sectionId;
+      if (!sectionId || seen.has(blockId)) continue;
+
+      seen.add(blockId);
+      references.push({
+        documentId: context.documentContext.activeDocumentId,
+        documentName: context.documentName,
+        version: context.documentContext.documentVersion,
+        sectionId,
+        chunkId: blockId,
+        timestamp,
+      });
+    }
+
+    return references;
+  }
+
+  /**
+   * Reference to the document (and focused section) the user asked about
+   */
+  documentReference(context: GroundingContext): ChatDocumentReference {
+    return {
+      documentId: context.documentContext.activeDocumentId,
+      documentName: context.documentName,
+      version: context.documentContext.documentVersion,
+      sectionId: context.documentContext.activeSection,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Order sections by how many query terms appear in their title, type and text
+   */
+  private rankSections(
+    sections: DocumentSection[],
+    blocksBySection: Map<string, DocumentBlock[]>,
+    query: string
+  ): DocumentSection[] {
+    const terms = [...new Set(this.tokenize(query))];
+
+    const scored = sections.map((section) => {
+      const words = new Set(this.tokenize([
+        section.title || '',
+        section.sectionType.replace(/_/g, ' '),
+        ...(blocksBySection.get(section.id) || []).map((b) => this.blockToText(b)),
+      ].join(' ')));
+
+      return { section, score: terms.filter((t) => words.has(t)).length };
+    });
+
+    // Stable sort keeps document order among equally relevant sections
+    return scored.sort((a, b) => b.score - a.score).map((s) => s.section);
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 2 && !STOP_WORDS.has(t));
+  }
+
+  private serializeSection(
+    section: DocumentSection,
+    blocks: DocumentBlock[],
+    maxBlockChars: number,
+    isFocused: boolean
+  ): string {
+    const header = `## ${section.title || section.sectionType} (${section.sectionType}) [section:${section.id}]${isFocused ? ' — FOCUSED' : ''}`;
+    if (blocks.length === 0) {
+      return `${header}\n(empty)`;
+    }
+
+    const lines = blocks.map((block) => {
+      const text = this.blockToText(block);
+      const clipped = text.length > maxBlockChars ? `${text.slice(0, maxBlockChars)}…` : text;
+      return `- [block:${block.id}] ${block.blockType}: ${clipped || '(empty)'}`;
+    });
+
+    return `${header}\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Plain-text rendering of a block's content
+   */
+  private blockToText(block: DocumentBlock): string {
+    const content = block.content as Record<string, unknown>;
+    const str = (value: unknown) => (typeof value === 'string' ? value : '');
+    const list = (value: unknown) => (Array.isArray(value) ? value.map((v) => (typeof v === 'string' ? v : JSON.stringify(v))).join(', ') : '');
+
+    switch (block.blockType) {
+      case 'paragraph':
+      case 'heading':
+      case 'callout':
+        return str(content.text);
+      case 'feature':
+        return [str(content.name), str(content.description), list(content.mechanics)].filter(Boolean).join(' — ');
+      case 'math_model':
+        return [str(content.formula), str(content.description)].filter(Boolean).join(' — ');
+      case 'metric_table': {
+        const rows = Array.isArray(content.rows) ? (content.rows as unknown[]).map((r) => (Array.isArray(r) ? r.join(' | ') : JSON.stringify(r))) : [];
+        return [list(content.headers), ...rows].filter(Boolean).join('; ');
+      }
+      case 'archetype_profile':
+        return [str(content.name), list(content.traits), list(content.preferences)].filter(Boolean).join(' — ');
+      case 'chart':
+        return str(content.title) || `${str(content.chartType)} chart`;
+      case 'image':
+        return str(content.caption) || str(content.alt);
+      case 'competitor_analysis':
+        return [str(content.competitor), `strengths: ${list(content.strengths)}`, `weaknesses: ${list(content.weaknesses)}`].join(' — ');
+      case 'ab_test_result':
+        return [str(content.testName), JSON.stringify(content.results ?? {})].filter(Boolean).join(' — ');
+      default:
+        return str(content.text) || JSON.stringify(content);
+    }
+  }
+}
+
+// Singleton instance
+export const documentContextService = new DocumentContextService();
@@ -0,0 +1,290 @@
+/**
+ * Document Diff Service
+ *
+ * Structural diff between two section/block trees (published snapshots or
+ * the live draft). Sections and blocks are matched by ID; a block only
+ * counts as moved when it changed section or its order relative to the
+ * other surviving blocks changed, so an insertion above it is not a move.
+ * Structured blocks get field-level changes with numeric deltas.
+ */
+
+import type { DocumentTreeBlock, DocumentTreeSection } from './DocumentTree';
+
+export type DiffChange = 'added' | 'removed' | 'moved' | 'modified';
+
+export interface FieldChange {
+  path: string; // e.g. "rtp", "rows[2][1]"
+  label?: string; // Human-readable path, e.g. "Base game › RTP" for table cells
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+  delta?: number; // after - before, when both sides are numeric
+}
+
+export interface BlockDiff {
+  blockId: string;
+  blockType: string;
+  changes: DiffChange[]; // Empty when unchanged
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  fromSectionId?: string;
+  fromPosition?: number;
+  toPosition?: number;
+  fields: FieldChange[];
+}
+
+export interface SectionDiff {
+  sectionId: string;
+  sectionType: string;
+  title: string | null;
+  previousTitle?: string | null; // Set when the title changed
+  changes: DiffChange[];
+  blocks: BlockDiff[]; // Merged order: target order, removed blocks near their old neighbours
+}
+
+// Counts over sections and blocks together
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  moved: number;
+  modified: number;
+}
+
+export interface DocumentDiff {
+  summary: DiffSummary;
+  sections: SectionDiff[];
+}
+
+// Identical objects and arrays, ignoring key order
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    const bArr = b as unknown[];
+    return a.length === bArr.length && a.every((v, i) => isEqual(v, bArr[i]));
+  }
+
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aObj), ...Object.keys(bObj)]);
+  return [...keys].every((k) => isEqual(aObj[k], bObj[k]));
+}
+
+// Numbers and numeric strings such as "96.2%" or "1,250"
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().replace(/,/g, '').match(/^[-+]?\d*\.?\d+(?=\s*[%x×]?$)/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * IDs in `ids` that keep their relative order in `other` (longest common subsequence)
+ */
+function stableOrder(ids: string[], other: string[]): Set<string> {
+  const lcs: number[][] = Array.from({ length: ids.length + 1 }, () => new Array(other.length + 1).fill(0));
+  for (let i = ids.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lcs[i][j] = ids[i] === other[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < ids.length && j < other.length) {
+    if (ids[i] === other[j]) {
+      stable.add(ids[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+}
+
+/**
+ * Target order with removed items placed after their nearest surviving predecessor
+ */
+function mergeOrder<T>(from: T[], to: T[], key: (item: T) => string): T[] {
+  const merged = [...to];
+  const toKeys = new Set(to.map(key));
+
+  from.forEach((item, index) => {
+    if (toKeys.has(key(item))) return;
+
+    let insertAt = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const at = merged.findIndex((m) => key(m) === key(from[i]));
+      if (at !== -1) {
+        insertAt = at + 1;
+        break;
+      }
+    }
+    merged.splice(insertAt, 0, item);
+  });
+
+  return merged;
+}
+
+export class DocumentDiffService {
+  diff(from: DocumentTreeSection[], to: DocumentTreeSection[]): DocumentDiff {
+    const summary: DiffSummary = { added: 0, removed: 0, moved: 0, modified: 0 };
+    const count = (changes: DiffChange[]) => changes.forEach((c) => summary[c]++);
+
+    const fromSections = new Map(from.map((s) => [s.id, s]));
+    const toSections = new Map(to.map((s) => [s.id, s]));
+    const stableSections = stableOrder(
+      from.filter((s) => toSections.has(s.id)).map((s) => s.id),
+      to.filter((s) => fromSections.has(s.id)).map((s) => s.id)
+    );
+
+    // Where every block lived before, to detect moves across sections
+    const fromBlocks = new Map<string, { block: DocumentTreeBlock; sectionId: string }>();
+    from.forEach((s) => s.blocks.forEach((b) => fromBlocks.set(b.id, { block: b, sectionId: s.id })));
+    const toBlockIds = new Set(to.flatMap((s) => s.blocks.map((b) => b.id)));
+
+    const sections = mergeOrder(from, to, (s) => s.id).map((section): SectionDiff => {
+      const before = fromSections.get(section.id);
+      const after = toSections.get(section.id);
+
+      const changes: DiffChange[] = [];
+      if (!before) changes.push('added');
+      else if (!after) changes.push('removed');
+      else {
+        if (!stableSections.has(section.id)) changes.push('moved');
+        if (before.title !== after.title || before.type !== after.type) changes.push('modified');
+      }
+      count(changes);
+
+      return {
+        sectionId: section.id,
+        sectionType: section.type,
+        title: section.title,
+        ...(before && after && before.title !== after.title ? { previousTitle: before.title } : {}),
+        changes,
+        blocks: this.diffBlocks(section.id, before?.blocks || [], after?.blocks || [], fromBlocks, toBlockIds, count),
+      };
+    });
+
+    return { summary, sections };
+  }
+
+  private diffBlocks(
+    sectionId: string,
+    from: DocumentTreeBlock[],
+    to: DocumentTreeBlock[],
+    fromBlocks: Map<string, { block: DocumentTreeBlock; sectionId: string }>,
+    toBlockIds: Set<string>,
+    count: (changes: DiffChange[]) => void
+  ): BlockDiff[] {
+    // Blocks that left for another section are reported there, as moved
+    const remaining = from.filter((b) => !toBlockIds.has(b.id) || to.some((t) => t.id === b.id));
+    const stable = stableOrder(
+      from.filter((b) => to.some((t) => t.id === b.id)).map((b) => b.id),
+      to.filter((b) => from.some((f) => f.id === b.id)).map((b) => b.id)
+    );
+
+    return mergeOrder(remaining, to, (b) => b.id).map((block): BlockDiff => {
+      const previous = fromBlocks.get(block.id);
+      const isRemoved = !to.some((b) => b.id === block.id);
+      const changes: DiffChange[] = [];
+      let fields: FieldChange[] = [];
+
+      if (isRemoved) {
+        changes.push('removed');
+      } else if (!previous) {
+        changes.push('added');
+      } else {
+        if (previous.sectionId !== sectionId || !stable.has(block.id)) changes.push('moved');
+        if (!isEqual(previous.block.content, block.content)) {
+          changes.push('modified');
+          fields = this.diffFields(block.type, previous.block.content, block.content);
+        }
+      }
+      count(changes);
+
+      return {
+        blockId: block.id,
+        blockType: block.type,
+        changes,
+        before: isRemoved ? block.content : previous?.block.content,
+        after: isRemoved ? undefined : block.content,
+        ...(previous && previous.sectionId !== sectionId ? { fromSectionId: previous.sectionId } : {}),
+        fromPosition: previous?.block.position,
+        toPosition: isRemoved ? undefined : block.position,
+        fields,
+      };
+    });
+  }
+
+  /**
+   * Leaf-level changes between two block contents
+   */
+  private diffFields(blockType: string, before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    const walk = (a: unknown, b: unknown, path: string) => {
+      if (isEqual(a, b)) return;
+
+      const bothObjects =
+        a !== null && b !== null && typeof a === 'object' && typeof b === 'object' && Array.isArray(a) === Array.isArray(b);
+
+      if (bothObjects) {
+        const aObj = a as Record<string, unknown>;
+        const bObj = b as Record<string, unknown>;
+        const keys = Array.isArray(a)
+          ? Array.from({ length: Math.max((a as unknown[]).length, (b as unknown[]).length) }, (_, i) => String(i))
+          : [...new Set([...Object.keys(aObj), ...Object.keys(bObj)])];
+
+        for (const key of keys) {
+          walk(aObj[key], bObj[key], Array.isArray(a) ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+        }
+        return;
+      }
+
+      const change: FieldChange = {
+        path,
+        kind: a === undefined ? 'added' : b === undefined ? 'removed' : 'changed',
+        before: a,
+        after: b,
+      };
+
+      const [beforeNum, afterNum] = [asNumber(a), asNumber(b)];
+      if (beforeNum !== null && afterNum !== null) {
+        change.delta = Number((afterNum - beforeNum).toFixed(6));
+      }
+
+      changes.push(change);
+    };
+
+    walk(before, after, '');
+
+    if (blockType === 'metric_table') {
+      changes.forEach((change) => (change.label = this.tableCellLabel(change.path, after, before)));
+    }
+
+    return changes;
+  }
+
+  // "rows[2][1]" -> "<first cell of row 2> › <header 1>"
+  private tableCellLabel(path: string, after: Record<string, unknown>, before: Record<string, unknown>): string | undefined {
+    const match = path.match(/^rows\[(\d+)\]\[(\d+)\]$/);
+    if (!match) return undefined;
+
+    const [row, col] = [Number(match[1]), Number(match[2])];
+    const headers = (after.headers || before.headers) as string[] | undefined;
+    const rows = (after.rows || before.rows) as unknown[][] | undefined;
+    const rowName = col === 0 ? `Row ${row + 1}` : String(rows?.[row]?.[0] ?? `Row ${row + 1}`);
+
+    return `${rowName} › ${headers?.[col] ?? `Column ${col + 1}`}`;
+  }
+}
+
+// Singleton instance
+export const documentDiffService = new DocumentDiffService();
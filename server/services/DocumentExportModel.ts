@@ -0,0 +1,358 @@
+/**
+ * Document Export Model
+ *
+ * Flattens a document tree into renderer-neutral nodes for the file exports.
+ * Field fallbacks mirror BlockRenderer so an exported block shows what the
+ * editor shows; each exporter only decides how a node looks on its medium.
+ */
+
+import type { DocumentTree, DocumentTreeBlock } from './DocumentTree';
+
+export interface ExportChartDataset {
+  label: string;
+  data: number[];
+  colors?: string[]; // Per-point colors (pie/doughnut, manual bars)
+  color?: string;
+}
+
+export interface ExportChartData {
+  labels: string[];
+  datasets: ExportChartDataset[];
+}
+
+export type ExportChartType = 'bar' | 'line' | 'pie' | 'doughnut';
+
+export type CardField =
+  | { kind: 'text'; label?: string; value: string; style?: 'quote' | 'code' | 'muted' }
+  | { kind: 'list'; label: string; items: string[]; tone?: 'positive' | 'negative' | 'tag' }
+  | { kind: 'metrics'; items: { label: string; value: string; note?: string; highlight?: boolean }[] };
+
+export type ExportNode =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'table'; title?: string; headers: string[]; rows: string[][] }
+  | { kind: 'card'; blockType: string; title: string; badge?: string; fields: CardField[] }
+  | { kind: 'callout'; variant: 'info' | 'warning' | 'success' | 'error'; title?: string; text: string }
+  | {
+      kind: 'chart';
+      title?: string;
+      chartType: ExportChartType;
+      stacked: boolean;
+      data: ExportChartData | null;
+      // Cached Chart.js data as stored on the block, for exporters that draw charts live
+      chartJsData?: Record<string, unknown>;
+    }
+  | { kind: 'media'; mediaType: string; src: string; alt?: string; caption?: string }
+  | { kind: 'raw'; blockType: string; json: string };
+
+export interface ExportSection {
+  number: number;
+  title: string;
+  type: string;
+  nodes: ExportNode[];
+}
+
+export interface ExportDocument {
+  title: string;
+  titlePage: { label: string; value: string }[];
+  toc: { number: number; title: string }[];
+  sections: ExportSection[];
+}
+
+// Chart.js type and stacking for API-mode slot charts, mirroring SLOT_CHART_TYPES on the frontend
+const SLOT_CHART_RENDERING: Record<string, { chartType: ExportChartType; stacked: boolean }> = {
+  win: { chartType: 'bar', stacked: true },
+  balance: { chartType: 'line', stacked: false },
+  balance_spectrum: { chartType: 'line', stacked: false },
+  win_bucket_rtp: { chartType: 'line', stacked: false },
+  win_bucket_probability: { chartType: 'line', stacked: false },
+  rtp_comparison: { chartType: 'bar', stacked: false },
+  win_detail: { chartType: 'bar', stacked: true },
+};
+
+const CALLOUT_VARIANTS = ['info', 'warning', 'success', 'error'] as const;
+
+type Content = Record<string, unknown>;
+
+const str = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : typeof value === 'number' ? String(value) : undefined;
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+const record = (value: unknown): Content => (value && typeof value === 'object' ? (value as Content) : {});
+
+export function buildExportDocument({ document, sections }: DocumentTree): ExportDocument {
+  const metadata = record(document.metadata);
+  const titlePage: { label: string; value: string }[] = [
+    { label: 'Version', value: document.version },
+    { label: 'Status', value: document.status },
+  ];
+
+  const optional: [string, unknown][] = [
+    ['Author', metadata.author],
+    ['Game type', metadata.gameType],
+    ['Target platforms', strings(metadata.targetPlatforms).join(', ')],
+    ['Target markets', strings(metadata.targetMarkets).join(', ')],
+    ['Generation mode', metadata.generationMode],
+    ['Branched from', metadata.parentVersion ? `v${metadata.parentVersion}` : undefined],
+  ];
+  for (const [label, value] of optional) {
+    const text = str(value);
+    if (text) titlePage.push({ label, value: text });
+  }
+  titlePage.push({ label: 'Last updated', value: new Date(document.updatedAt).toISOString().slice(0, 10) });
+
+  const exportSections = sections.map((section, index) => ({
+    number: index + 1,
+    title: section.title || section.type.replace(/_/g, ' '),
+    type: section.type,
+    nodes: section.blocks.map(toExportNode).filter((node): node is ExportNode => node !== null),
+  }));
+
+  return {
+    title: document.fileName.replace(/\.md$/, ''),
+    titlePage,
+    toc: exportSections.map(({ number, title }) => ({ number, title })),
+    sections: exportSections,
+  };
+}
+
+/**
+ * One block as an export node, or null for blocks with nothing to show
+ */
+export function toExportNode(block: DocumentTreeBlock): ExportNode | null {
+  const content = record(block.content);
+
+  switch (block.type) {
+    case 'paragraph': {
+      const text = str(content.text);
+      return text ? { kind: 'paragraph', text } : null;
+    }
+
+    case 'heading': {
+      // Editor shape is { text, level }; templates produce { heading: { level, text } }
+      const heading = record(content.heading);
+      const text = str(content.text) ?? str(heading.text);
+      const level = Number(content.level ?? heading.level) || 2;
+      return text ? { kind: 'heading', level: Math.min(Math.max(level, 1), 4), text } : null;
+    }
+
+    case 'metric_table': {
+      const table = content.table ? record(content.table) : content;
+      const headers = Array.isArray(table.headers) ? table.headers.map((h) => String(h ?? '')) : [];
+      const rows = Array.isArray(table.rows)
+        ? table.rows.map((row) => (Array.isArray(row) ? row.map((cell) => String(cell ?? '')) : []))
+        : [];
+      if (headers.length === 0 && rows.length === 0) return null;
+      return { kind: 'table', title: str(content.title), headers, rows };
+    }
+
+    case 'feature': {
+      const feature = record(content.feature);
+      const fields: CardField[] = [];
+      const overview = str(content.mechanicalOverview) ?? str(content.description) ?? str(feature.mechanicalOverview);
+      const experience = str(content.playerExperience) ?? str(feature.playerExperience);
+      const mechanics = strings(content.mechanics);
+
+      if (overview) fields.push({ kind: 'text', label: 'Mechanical Overview', value: overview });
+      if (experience) fields.push({ kind: 'text', label: 'Player Experience', value: experience });
+      if (mechanics.length > 0) fields.push({ kind: 'list', label: 'Mechanics', items: mechanics });
+      pushTemplateText(fields, content);
+
+      return {
+        kind: 'card',
+        blockType: block.type,
+        title: str(content.featureName) ?? str(content.name) ?? str(feature.name) ?? 'Feature',
+        badge: str(content.category) ?? str(feature.category),
+        fields,
+      };
+    }
+
+    case 'math_model': {
+      const model = record(content.mathModel);
+      const parameters = record(model.parameters);
+      const rtp = str(content.rtp) ?? str(parameters.rtp);
+      const volatility = str(content.volatility) ?? str(parameters.volatility);
+      const hitFrequency = str(content.hitFrequency);
+      const maxWin = str(content.maxWinMultiplier);
+
+      const fields: CardField[] = [
+        {
+          kind: 'metrics',
+          items: [
+            { label: 'RTP', value: rtp ? `${rtp}%` : '-', highlight: true },
+            { label: 'Volatility', value: volatility ? capitalize(volatility) : '-' },
+            { label: 'Hit Frequency', value: hitFrequency ? `1:${hitFrequency}` : '-' },
+            { label: 'Max Win', value: maxWin ? `${maxWin}x` : '-' },
+          ],
+        },
+      ];
+      const formula = str(content.formula);
+      const description = str(content.description);
+      if (formula) fields.push({ kind: 'text', label: 'Formula', value: formula, style: 'code' });
+      if (description) fields.push({ kind: 'text', value: description, style: 'muted' });
+      pushTemplateText(fields, content);
+
+      return {
+        kind: 'card',
+        blockType: block.type,
+        title: str(content.modelName) ?? str(model.name) ?? 'Math Model',
+        fields,
+      };
+    }
+
+    case 'archetype_profile': {
+      const fields: CardField[] = [];
+      const description = str(content.description);
+      const traits = strings(content.traits);
+      const preferences = strings(content.preferences);
+
+      if (description) fields.push({ kind: 'text', value: description, style: 'muted' });
+      if (traits.length > 0) fields.push({ kind: 'list', label: 'Traits', items: traits, tone: 'tag' });
+      if (preferences.length > 0) fields.push({ kind: 'list', label: 'Preferences', items: preferences, tone: 'tag' });
+      pushTemplateText(fields, content);
+
+      return { kind: 'card', blockType: block.type, title: str(content.name) ?? 'Archetype', fields };
+    }
+
+    case 'competitor_analysis': {
+      const fields: CardField[] = [
+        { kind: 'list', label: 'Strengths', items: strings(content.strengths), tone: 'positive' },
+        { kind: 'list', label: 'Weaknesses', items: strings(content.weaknesses), tone: 'negative' },
+      ];
+      const notes = str(content.notes);
+      if (notes) fields.push({ kind: 'text', value: notes, style: 'muted' });
+
+      return { kind: 'card', blockType: block.type, title: str(content.competitor) ?? 'Competitor', fields };
+    }
+
+    case 'ab_test_result': {
+      const results = record(content.results);
+      const winner = str(results.winner);
+      const fields: CardField[] = [];
+      const hypothesis = str(content.hypothesis);
+      const variants = Array.isArray(content.variants) ? content.variants.map(record) : [];
+
+      if (hypothesis) fields.push({ kind: 'text', value: `"${hypothesis}"`, style: 'quote' });
+      if (variants.length > 0) {
+        fields.push({
+          kind: 'metrics',
+          items: variants.map((v) => ({
+            label: str(v.name) ?? 'Variant',
+            value: `${Number(v.conversion) || 0}%`,
+            note: `n=${(Number(v.sampleSize) || 0).toLocaleString('en-US')}`,
+            highlight: !!winner && v.name === winner,
+          })),
+        });
+      }
+      const confidence = str(results.confidence);
+      const summary = str(results.summary);
+      if (confidence) fields.push({ kind: 'text', value: `Statistical confidence: ${confidence}%` });
+      if (summary) fields.push({ kind: 'text', value: summary });
+
+      return {
+        kind: 'card',
+        blockType: block.type,
+        title: str(content.testName) ?? 'A/B Test',
+        badge: winner ? `Winner: ${winner}` : undefined,
+        fields,
+      };
+    }
+
+    case 'callout': {
+      const variant = CALLOUT_VARIANTS.find((v) => v === content.type) || 'info';
+      const text = str(content.text) ?? '';
+      const title = str(content.title);
+      return text || title ? { kind: 'callout', variant, title, text } : null;
+    }
+
+    case 'chart':
+      return toChartNode(content);
+
+    case 'image':
+    case 'media': {
+      const src = str(content.src);
+      if (!src) return null;
+      return {
+        kind: 'media',
+        mediaType: str(content.mediaType) ?? 'image',
+        src,
+        alt: str(content.alt),
+        caption: str(content.caption),
+      };
+    }
+
+    default:
+      return { kind: 'raw', blockType: block.type, json: JSON.stringify(content, null, 2) };
+  }
+}
+
+// Template-created blocks keep their markdown in `text` rather than structured fields
+function pushTemplateText(fields: CardField[], content: Content) {
+  const text = str(content.text);
+  if (text && !fields.some((f) => f.kind === 'text' && f.value === text)) {
+    fields.push({ kind: 'text', value: text });
+  }
+}
+
+function toChartNode(content: Content): ExportNode {
+  const title = str(content.title);
+
+  // Legacy chart blocks stored manual points at the top level
+  const manual = content.manual
+    ? record(content.manual)
+    : Array.isArray(content.data) && !content.dataMode
+      ? { chartType: content.chartType, data: content.data }
+      : null;
+
+  if (content.dataMode !== 'api' && manual) {
+    const points = Array.isArray(manual.data) ? manual.data.map(record) : [];
+    const chartType = (['bar', 'line', 'pie', 'doughnut'] as const).find((t) => t === manual.chartType) || 'bar';
+    const colors = points.map((p) => str(p.color)).filter((c): c is string => !!c);
+
+    return {
+      kind: 'chart',
+      title,
+      chartType,
+      stacked: false,
+      data: points.length
+        ? {
+            labels: points.map((p) => str(p.label) ?? ''),
+            datasets: [
+              {
+                label: title || 'Value',
+                data: points.map((p) => Number(p.value) || 0),
+                colors: colors.length === points.length ? colors : undefined,
+              },
+            ],
+          }
+        : null,
+    };
+  }
+
+  const slotGraph = record(content.slotGraph);
+  const rendering = SLOT_CHART_RENDERING[String(slotGraph.chartType)] || { chartType: 'bar', stacked: false };
+  const cached = record(record(content.cachedData).chartJsData);
+  const labels = Array.isArray(cached.labels) ? cached.labels.map((l) => String(l)) : [];
+  const datasets = (Array.isArray(cached.datasets) ? cached.datasets.map(record) : [])
+    .filter((d) => !d.hidden)
+    .map((d) => ({
+      label: str(d.label) ?? '',
+      data: Array.isArray(d.data) ? d.data.map((v) => Number(v) || 0) : [],
+      color: typeof d.borderColor === 'string' ? d.borderColor : typeof d.backgroundColor === 'string' ? d.backgroundColor : undefined,
+      colors: Array.isArray(d.backgroundColor) ? d.backgroundColor.map(String) : undefined,
+    }));
+
+  return {
+    kind: 'chart',
+    title: title ?? str(slotGraph.gameName),
+    ...rendering,
+    data: labels.length && datasets.length ? { labels, datasets } : null,
+    chartJsData: labels.length ? cached : undefined,
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
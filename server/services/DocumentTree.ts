@@ -0,0 +1,91 @@
+/**
+ * Document Tree
+ *
+ * Loads a document with its sections and blocks in the shape the frontend
+ * works with. Shared by the document routes, version snapshots and exports.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { documents, documentSections, documentBlocks, type Document } from '../db/schema';
+
+export interface DocumentTreeBlock {
+  id: string;
+  type: string;
+  content: Record<string, unknown>;
+  position: number;
+  directives: unknown;
+  entities: unknown;
+  relationships: unknown;
+  wordCount: number;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface DocumentTreeSection {
+  id: string;
+  type: string;
+  title: string | null;
+  position: number;
+  directives: unknown;
+  blocks: DocumentTreeBlock[];
+}
+
+export interface DocumentTree {
+  document: Document;
+  sections: DocumentTreeSection[];
+}
+
+/**
+ * Load a document's full tree, ordered by position. Returns null if it does not exist.
+ */
+export async function loadDocumentTree(documentId: string): Promise<DocumentTree | null> {
+  const [doc] = await db()
+    .select()
+    .from(documents)
+    .where(eq(documents.id, documentId))
+    .limit(1);
+
+  if (!doc) return null;
+
+  const sections = await db()
+    .select()
+    .from(documentSections)
+    .where(eq(documentSections.documentId, documentId))
+    .orderBy(documentSections.position);
+
+  const blocks = await db()
+    .select()
+    .from(documentBlocks)
+    .where(eq(documentBlocks.documentId, documentId))
+    .orderBy(documentBlocks.position);
+
+  return {
+    document: doc,
+    sections: sections.map((section) => ({
+      id: section.id,
+      type: section.sectionType,
+      title: section.title,
+      position: section.position,
+      directives: section.directives,
+      blocks: blocks
+        .filter((block) => block.sectionId === section.id)
+        .map((block) => ({
+          id: block.id,
+          type: block.blockType,
+          content: block.content as Record<string, unknown>,
+          position: block.position,
+          directives: block.directives,
+          entities: block.entities,
+          relationships: block.relationships,
+          wordCount: block.wordCount,
+          createdBy: block.createdBy,
+          updatedBy: block.updatedBy,
+          createdAt: block.createdAt,
+          updatedAt: block.updatedAt,
+        })),
+    })),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Document Version Service
+ *
+ * Publishes immutable snapshots of a document's section/block tree with a
+ * semantic version bump, and branches new drafts from past versions. The
+ * live document's `version` is the version of its latest publish; branches
+ * record their lineage in metadata.parentDocumentId.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { documents, documentSections, documentBlocks, documentVersions, type DocumentVersion } from '../db/schema';
+import { loadDocumentTree, type DocumentTreeSection } from './DocumentTree';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export const VERSION_BUMPS: VersionBump[] = ['major', 'minor', 'patch'];
+
+// Shape of document_versions.snapshot
+export interface DocumentSnapshot {
+  fileName: string;
+  status: string;
+  metadata: Record<string, unknown>;
+  sections: DocumentTreeSection[];
+}
+
+export type DocumentVersionSummary = Omit<DocumentVersion, 'snapshot'>;
+
+export interface PublishOptions {
+  bump: VersionBump;
+  notes?: string;
+  publishedBy: string;
+}
+
+/**
+ * Bump a semantic version. Missing parts count as 0 and anything unparseable starts from 1.0.0.
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const match = version.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  const [major, minor, patch] = match
+    ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)]
+    : [1, 0, 0];
+
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+export class DocumentVersionService {
+  /**
+   * Snapshot the document and bump its version. The very first publish of an
+   * original (unbranched) document keeps its current version.
+   */
+  async publish(documentId: string, options: PublishOptions): Promise<DocumentVersion | null> {
+    const tree = await loadDocumentTree(documentId);
+    if (!tree) return null;
+
+    const { document } = tree;
+    const metadata = (document.metadata || {}) as Record<string, unknown>;
+
+    const [latest] = await db()
+      .select({ id: documentVersions.id })
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .limit(1);
+
+    const isInitial = !latest && !metadata.parentDocumentId;
+    const version = isInitial ? document.version : bumpVersion(document.version, options.bump);
+
+    const snapshot: DocumentSnapshot = {
+      fileName: document.fileName,
+      status: document.status,
+      metadata,
+      sections: tree.sections,
+    };
+
+    const [published] = await db()
+      .insert(documentVersions)
+      .values({
+        documentId,
+        version,
+        bump: isInitial ? 'initial' : options.bump,
+        notes: options.notes,
+        snapshot,
+        sectionCount: tree.sections.length,
+        blockCount: tree.sections.reduce((sum, s) => sum + s.blocks.length, 0),
+        publishedBy: options.publishedBy,
+      })
+      .returning();
+
+    await db()
+      .update(documents)
+      .set({ version, updatedAt: new Date() })
+      .where(eq(documents.id, documentId));
+
+    console.log(`[DocumentVersionService] Published ${document.fileName} v${version}`);
+    return published;
+  }
+
+  /**
+   * Published versions of a document, newest first, without their snapshots
+   */
+  async listVersions(documentId: string): Promise<DocumentVersionSummary[]> {
+    return db()
+      .select({
+        id: documentVersions.id,
+        documentId: documentVersions.documentId,
+        version: documentVersions.version,
+        bump: documentVersions.bump,
+        notes: documentVersions.notes,
+        sectionCount: documentVersions.sectionCount,
+        blockCount: documentVersions.blockCount,
+        publishedBy: documentVersions.publishedBy,
+        createdAt: documentVersions.createdAt,
+      })
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.createdAt));
+  }
+
+  async getVersion(documentId: string, versionId: string): Promise<DocumentVersion | null> {
+    const [version] = await db()
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.id, versionId)))
+      .limit(1);
+
+    return version || null;
+  }
+
+  /**
+   * Sections of a version, or of the live draft for 'current'. Returns null if either does not exist.
+   */
+  async resolveSections(
+    documentId: string,
+    ref: string
+  ): Promise<{ version: string; label: string; sections: DocumentTreeSection[] } | null> {
+    if (ref === 'current') {
+      const tree = await loadDocumentTree(documentId);
+      return tree ? { version: tree.document.version, label: 'Current draft', sections: tree.sections } : null;
+    }
+
+    const version = await this.getVersion(documentId, ref);
+    if (!version) return null;
+
+    return {
+      version: version.version,
+      label: `v${version.version}`,
+      sections: (version.snapshot as DocumentSnapshot).sections,
+    };
+  }
+
+  /**
+   * Create a new draft document from a published version
+   */
+  async branch(documentId: string, versionId: string, fileName?: string): Promise<{ documentId: string } | null> {
+    const version = await this.getVersion(documentId, versionId);
+    if (!version) return null;
+
+    const snapshot = version.snapshot as DocumentSnapshot;
+
+    const [doc] = await db()
+      .insert(documents)
+      .values({
+        fileName: fileName || `${snapshot.fileName} (from v${version.version})`,
+        version: version.version,
+        status: 'draft',
+        content: {},
+        metadata: {
+          ...snapshot.metadata,
+          parentDocumentId: documentId,
+          parentVersion: version.version,
+          parentVersionId: version.id,
+        },
+      })
+      .returning();
+
+    for (const section of snapshot.sections) {
+      const [dbSection] = await db()
+        .insert(documentSections)
+        .values({
+          documentId: doc.id,
+          sectionType: section.type,
+          title: section.title,
+          position: section.position,
+          directives: section.directives ?? {},
+        })
+        .returning();
+
+      for (const block of section.blocks) {
+        await db()
+          .insert(documentBlocks)
+          .values({
+            documentId: doc.id,
+            sectionId: dbSection.id,
+            blockType: block.type,
+            position: block.position,
+            content: block.content,
+            directives: block.directives ?? {},
+            entities: block.entities ?? [],
+            relationships: block.relationships ?? [],
+            wordCount: block.wordCount,
+            createdBy: block.createdBy,
+            updatedBy: block.updatedBy,
+          });
+      }
+    }
+
+    console.log(`[DocumentVersionService] Branched ${doc.fileName} from v${version.version}`);
+    return { documentId: doc.id };
+  }
+}
+
+// Singleton instance
+export const documentVersionService = new DocumentVersionService();
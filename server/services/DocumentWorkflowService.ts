@@ -0,0 +1,225 @@
+/**
+ * Document Workflow Service
+ *
+ * Status state machine for documents: draft → review → finalized → archived.
+ * Entering review names the required approvers; finalizing needs an approval
+ * from each of them in the current review round. Finalized and archived
+ * documents are read-only to users and pipelines. Every transition is
+ * recorded in document_transitions.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import {
+  documents,
+  documentTransitions,
+  documentApprovals,
+  type Document,
+  type DocumentApproval,
+  type DocumentTransition,
+} from '../db/schema';
+
+export type DocumentStatus = 'draft' | 'review' | 'finalized' | 'archived';
+
+export const DOCUMENT_TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  draft: ['review', 'archived'],
+  review: ['draft', 'finalized'],
+  finalized: ['archived'],
+  archived: ['draft'],
+};
+
+export const READ_ONLY_STATUSES: DocumentStatus[] = ['finalized', 'archived'];
+
+export interface TransitionOptions {
+  actor: string;
+  comment?: string;
+  approvers?: string[]; // Required when entering review
+}
+
+export interface ReviewState {
+  transitionId: string;
+  submittedBy: string;
+  submittedAt: Date;
+  approvers: string[];
+  approvals: DocumentApproval[];
+  pendingApprovers: string[];
+}
+
+export interface WorkflowState {
+  status: DocumentStatus;
+  allowedTransitions: DocumentStatus[];
+  readOnly: boolean;
+  review: ReviewState | null;
+  history: DocumentTransition[];
+}
+
+export type TransitionResult =
+  | { status: 'ok'; document: Document; transition: DocumentTransition }
+  | { status: 'not_found' }
+  | { status: 'invalid'; error: string };
+
+export type ApprovalResult =
+  | { status: 'ok'; approval: DocumentApproval; review: ReviewState }
+  | { status: 'not_found' }
+  | { status: 'invalid'; error: string };
+
+export class DocumentWorkflowService {
+  async getWorkflow(documentId: string): Promise<WorkflowState | null> {
+    const doc = await this.getDocument(documentId);
+    if (!doc) return null;
+
+    const status = doc.status as DocumentStatus;
+    const history = await this.getHistory(documentId);
+
+    return {
+      status,
+      allowedTransitions: DOCUMENT_TRANSITIONS[status] || [],
+      readOnly: READ_ONLY_STATUSES.includes(status),
+      review: status === 'review' ? await this.getReviewState(history) : null,
+      history,
+    };
+  }
+
+  /**
+   * Move a document to a new status if the state machine and approvals allow it
+   */
+  async transition(documentId: string, to: DocumentStatus, options: TransitionOptions): Promise<TransitionResult> {
+    const doc = await this.getDocument(documentId);
+    if (!doc) return { status: 'not_found' };
+
+    const from = doc.status as DocumentStatus;
+    if (!(DOCUMENT_TRANSITIONS[from] || []).includes(to)) {
+      return { status: 'invalid', error: `Cannot move a ${from} document to ${to}` };
+    }
+
+    const approvers = [...new Set((options.approvers || []).map((a) => a.trim()).filter(Boolean))];
+    if (to === 'review' && approvers.length === 0) {
+      return { status: 'invalid', error: 'At least one approver is required to submit for review' };
+    }
+
+    if (to === 'finalized') {
+      const review = await this.getReviewState(await this.getHistory(documentId));
+      const pending = review ? review.pendingApprovers : [];
+      if (!review || pending.length > 0) {
+        return { status: 'invalid', error: `Waiting for approval from: ${pending.join(', ') || 'reviewers'}` };
+      }
+    }
+
+    const [transition] = await db()
+      .insert(documentTransitions)
+      .values({
+        documentId,
+        fromStatus: from,
+        toStatus: to,
+        actor: options.actor,
+        comment: options.comment,
+        approvers: to === 'review' ? approvers : [],
+      })
+      .returning();
+
+    const [updated] = await db()
+      .update(documents)
+      .set({ status: to, updatedAt: new Date() })
+      .where(eq(documents.id, documentId))
+      .returning();
+
+    console.log(`[DocumentWorkflowService] ${doc.fileName}: ${from} → ${to} by ${options.actor}`);
+    return { status: 'ok', document: updated, transition };
+  }
+
+  /**
+   * Record an approval from one of the current review round's approvers
+   */
+  async approve(documentId: string, approver: string, comment?: string): Promise<ApprovalResult> {
+    const doc = await this.getDocument(documentId);
+    if (!doc) return { status: 'not_found' };
+    if (doc.status !== 'review') {
+      return { status: 'invalid', error: 'Only documents in review can be approved' };
+    }
+
+    const review = await this.getReviewState(await this.getHistory(documentId));
+    if (!review) {
+      return { status: 'invalid', error: 'No open review round' };
+    }
+    if (!review.approvers.includes(approver)) {
+      return { status: 'invalid', error: `${approver} is not an approver for this review` };
+    }
+    if (!review.pendingApprovers.includes(approver)) {
+      return { status: 'invalid', error: `${approver} has already approved` };
+    }
+
+    const [approval] = await db()
+      .insert(documentApprovals)
+      .values({ documentId, reviewTransitionId: review.transitionId, approver, comment })
+      .returning();
+
+    return {
+      status: 'ok',
+      approval,
+      review: {
+        ...review,
+        approvals: [...review.approvals, approval],
+        pendingApprovers: review.pendingApprovers.filter((a) => a !== approver),
+      },
+    };
+  }
+
+  /**
+   * Whether a document rejects all edits. Missing documents are not read-only; callers 404 on their own.
+   */
+  async isReadOnly(documentId: string): Promise<boolean> {
+    const doc = await this.getDocument(documentId);
+    return !!doc && READ_ONLY_STATUSES.includes(doc.status as DocumentStatus);
+  }
+
+  private async getDocument(documentId: string): Promise<Document | undefined> {
+    const [doc] = await db()
+      .select()
+      .from(documents)
+      .where(eq(documents.id, documentId))
+      .limit(1);
+    return doc;
+  }
+
+  private getHistory(documentId: string): Promise<DocumentTransition[]> {
+    return db()
+      .select()
+      .from(documentTransitions)
+      .where(eq(documentTransitions.documentId, documentId))
+      .orderBy(desc(documentTransitions.createdAt));
+  }
+
+  /**
+   * The open review round: the latest transition into review, with its approvals
+   */
+  private async getReviewState(history: DocumentTransition[]): Promise<ReviewState | null> {
+    const submitted = history.find((t) => t.toStatus === 'review');
+    if (!submitted) return null;
+
+    const approvals = await db()
+      .select()
+      .from(documentApprovals)
+      .where(
+        and(
+          eq(documentApprovals.documentId, submitted.documentId),
+          eq(documentApprovals.reviewTransitionId, submitted.id)
+        )
+      )
+      .orderBy(documentApprovals.createdAt);
+
+    const approvers = submitted.approvers as string[];
+    const approved = new Set(approvals.map((a) => a.approver));
+
+    return {
+      transitionId: submitted.id,
+      submittedBy: submitted.actor,
+      submittedAt: submitted.createdAt,
+      approvers,
+      approvals,
+      pendingApprovers: approvers.filter((a) => !approved.has(a)),
+    };
+  }
+}
+
+// Singleton instance
+export const documentWorkflowService = new DocumentWorkflowService();
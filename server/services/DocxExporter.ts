@@ -0,0 +1,480 @@
+/**
+ * DOCX Exporter
+ *
+ * Writes an export document as a Word file: title page, linked table of
+ * contents, then each section with its blocks. Structured blocks become
+ * bordered single-cell tables ("cards"), charts are embedded as PNGs from
+ * ChartRasterizer. The OOXML package is assembled directly with JSZip, so no
+ * Office installation or network access is needed.
+ */
+
+import JSZip from 'jszip';
+import type { CardField, ExportDocument, ExportNode } from './DocumentExportModel';
+import { rasterizeChart, encodePng, type ChartLegendEntry } from './ChartRasterizer';
+import { decodeDataUrlImage } from './ExportImages';
+
+// US Letter with 0.75" margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 1080;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const EMU_PER_TWIP = 635;
+
+const COLORS = {
+  text: '111827',
+  muted: '6B7280',
+  border: 'D1D5DB',
+  cardFill: 'F9FAFB',
+  headerFill: 'F3F4F6',
+  primary: '2563EB',
+  positive: '16A34A',
+  negative: 'DC2626',
+  tag: '7C3AED',
+  highlightFill: 'ECFDF5',
+};
+
+const CALLOUT_COLORS: Record<string, { border: string; fill: string }> = {
+  info: { border: '2563EB', fill: 'EFF6FF' },
+  warning: { border: 'CA8A04', fill: 'FEFCE8' },
+  success: { border: '16A34A', fill: 'F0FDF4' },
+  error: { border: 'DC2626', fill: 'FEF2F2' },
+};
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  size?: number; // points
+  mono?: boolean;
+}
+
+interface ParagraphStyle {
+  style?: string;
+  align?: 'left' | 'center' | 'right';
+  spacingAfter?: number; // points
+  indent?: number; // twips
+  pageBreakBefore?: boolean;
+  keepNext?: boolean;
+}
+
+interface Media {
+  name: string;
+  data: Buffer;
+}
+
+// Control characters other than tab, newline and carriage return are invalid in XML
+function isValidXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isValidXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.mono ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${Math.round(style.size * 2)}"/>` : '',
+  ].join('');
+
+  const parts = text.split('\n').map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${parts.join('<w:br/>')}</w:r>`;
+}
+
+function paragraph(runs: string, style: ParagraphStyle = {}): string {
+  const props = [
+    style.style ? `<w:pStyle w:val="${style.style}"/>` : '',
+    style.keepNext ? '<w:keepNext/>' : '',
+    style.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    style.spacingAfter !== undefined ? `<w:spacing w:after="${style.spacingAfter * 20}"/>` : '',
+    style.indent ? `<w:ind w:left="${style.indent}"/>` : '',
+    style.align && style.align !== 'left' ? `<w:jc w:val="${style.align}"/>` : '',
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function borders(color: string, size = 4, left?: { color: string; size: number }): string {
+  const side = (name: string, c = color, s = size) => `<w:${name} w:val="single" w:sz="${s}" w:space="0" w:color="${c}"/>`;
+  return [
+    side('top'),
+    left ? side('left', left.color, left.size) : side('left'),
+    side('bottom'),
+    side('right'),
+  ].join('');
+}
+
+/**
+ * Single-cell table used as a bordered box around block content
+ */
+function box(inner: string, options: { fill: string; border: string; left?: { color: string; size: number } }): string {
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/>` +
+    `<w:tblBorders>${borders(options.border, 4, options.left)}</w:tblBorders>` +
+    '<w:tblCellMar><w:top w:w="140" w:type="dxa"/><w:left w:w="200" w:type="dxa"/>' +
+    '<w:bottom w:w="140" w:type="dxa"/><w:right w:w="200" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid><w:gridCol w:w="${CONTENT_WIDTH}"/></w:tblGrid>` +
+    `<w:tr><w:trPr><w:cantSplit/></w:trPr><w:tc><w:tcPr><w:tcW w:w="${CONTENT_WIDTH}" w:type="dxa"/>` +
+    `<w:shd w:val="clear" w:color="auto" w:fill="${options.fill}"/></w:tcPr>${inner}</w:tc></w:tr></w:tbl>` +
+    paragraph('', { spacingAfter: 4 })
+  );
+}
+
+function grid(
+  headers: string[] | null,
+  rows: string[][],
+  width: number,
+  cell: (value: string, rowIndex: number, columnIndex: number) => string
+): string {
+  const columns = Math.max(headers?.length || 0, ...rows.map((r) => r.length), 1);
+  const columnWidth = Math.floor(width / columns);
+  const tc = (content: string, fill?: string) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>` +
+    (fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : '') +
+    `</w:tcPr>${content}</w:tc>`;
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+
+  const header = headers
+    ? `<w:tr><w:trPr><w:tblHeader/></w:trPr>${pad(headers)
+        .map((h) => tc(paragraph(run(h, { bold: true, color: COLORS.muted, size: 10 }), { spacingAfter: 0 }), COLORS.headerFill))
+        .join('')}</w:tr>`
+    : '';
+  const body = rows
+    .map((row, r) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${pad(row).map((value, c) => tc(cell(value, r, c))).join('')}</w:tr>`)
+    .join('');
+
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="${width}" w:type="dxa"/><w:tblBorders>${borders(COLORS.border)}` +
+    `<w:insideH w:val="single" w:sz="4" w:space="0" w:color="${COLORS.border}"/>` +
+    `<w:insideV w:val="single" w:sz="4" w:space="0" w:color="${COLORS.border}"/></w:tblBorders>` +
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/>' +
+    '<w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${Array(columns).fill(`<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>` +
+    header +
+    body +
+    '</w:tbl>'
+  );
+}
+
+export class DocxExporter {
+  async render(doc: ExportDocument): Promise<Buffer> {
+    const media: Media[] = [];
+    const body = [this.titlePage(doc), this.tableOfContents(doc)];
+
+    doc.sections.forEach((section, index) => {
+      const anchor = `section_${section.number}`;
+      body.push(
+        paragraph(
+          `<w:bookmarkStart w:id="${index}" w:name="${anchor}"/>${run(`${section.number}. ${section.title}`)}<w:bookmarkEnd w:id="${index}"/>`,
+          { style: 'Heading1', pageBreakBefore: index === 0 }
+        )
+      );
+      for (const node of section.nodes) {
+        body.push(this.node(node, media));
+      }
+    });
+
+    const sectionProperties =
+      '<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/>' +
+      `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+      `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="720" w:footer="540" w:gutter="0"/>` +
+      '<w:titlePg/></w:sectPr>';
+
+    const zip = new JSZip();
+    // Package parts only; Word does not expect directory entries
+    const add = (name: string, data: string | Buffer) => zip.file(name, data, { createFolders: false });
+    add('[Content_Types].xml', this.contentTypes());
+    add('_rels/.rels', this.packageRelationships());
+    add('docProps/core.xml', this.coreProperties(doc));
+    add(
+      'word/document.xml',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document ${NAMESPACES}><w:body>${body.join('')}${sectionProperties}</w:body></w:document>`
+    );
+    add('word/styles.xml', STYLES);
+    add('word/footer1.xml', FOOTER);
+    add('word/_rels/document.xml.rels', this.documentRelationships(media));
+    for (const item of media) {
+      add(`word/media/${item.name}`, item.data);
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  private titlePage(doc: ExportDocument): string {
+    const details = doc.titlePage
+      .map(({ label, value }) =>
+        paragraph(run(`${label}: `, { color: COLORS.muted }) + run(value), { align: 'center', spacingAfter: 4 })
+      )
+      .join('');
+    return paragraph('', { spacingAfter: 160 }) + paragraph(run(doc.title), { style: 'Title', align: 'center' }) + details;
+  }
+
+  private tableOfContents(doc: ExportDocument): string {
+    const entries = doc.toc
+      .map((entry) =>
+        paragraph(
+          `<w:hyperlink w:anchor="section_${entry.number}" w:history="1">${run(`${entry.number}. ${entry.title}`, { color: COLORS.primary })}</w:hyperlink>`,
+          { spacingAfter: 4 }
+        )
+      )
+      .join('');
+    return paragraph(run('Contents'), { style: 'TOCHeading', pageBreakBefore: true }) + entries;
+  }
+
+  private node(node: ExportNode, media: Media[]): string {
+    switch (node.kind) {
+      case 'heading':
+        return paragraph(run(node.text), { style: `Heading${Math.min(node.level + 1, 4)}` });
+
+      case 'paragraph':
+        return node.text
+          .split(/\n{2,}/)
+          .map((text) => paragraph(run(text)))
+          .join('');
+
+      case 'table':
+        return (
+          (node.title ? paragraph(run(node.title, { bold: true, size: 12 }), { keepNext: true }) : '') +
+          grid(node.headers.length ? node.headers : null, node.rows, CONTENT_WIDTH, (value) =>
+            paragraph(run(value, { size: 10 }), { spacingAfter: 0 })
+          ) +
+          paragraph('', { spacingAfter: 4 })
+        );
+
+      case 'card': {
+        const title =
+          run(node.title, { bold: true, size: 13 }) + (node.badge ? run(`   ${node.badge}`, { color: COLORS.positive, size: 9 }) : '');
+        const inner = [paragraph(title, { spacingAfter: 6 }), ...node.fields.map((field) => this.cardField(field))];
+        return box(inner.join(''), { fill: COLORS.cardFill, border: COLORS.border });
+      }
+
+      case 'callout': {
+        const colors = CALLOUT_COLORS[node.variant];
+        const inner =
+          (node.title ? paragraph(run(node.title, { bold: true, color: colors.border }), { spacingAfter: 2 }) : '') +
+          paragraph(run(node.text), { spacingAfter: 0 });
+        return box(inner, { fill: colors.fill, border: colors.fill, left: { color: colors.border, size: 24 } });
+      }
+
+      case 'chart': {
+        const title = node.title ? paragraph(run(node.title, { bold: true }), { keepNext: true, align: 'center' }) : '';
+        if (!node.data) {
+          return title + paragraph(run('Chart data not available', { italic: true, color: COLORS.muted }), { align: 'center' });
+        }
+        const chart = rasterizeChart(node.chartType, node.data, node.stacked);
+        const image = this.image(media, 'png', encodePng(chart.image), chart.image.width, chart.image.height);
+        return title + paragraph(image, { align: 'center', spacingAfter: 2 }) + this.legend(chart.legend);
+      }
+
+      case 'media': {
+        const embedded = node.mediaType === 'image' ? decodeDataUrlImage(node.src) : null;
+        const content = embedded
+          ? paragraph(this.image(media, embedded.format, embedded.data, embedded.width, embedded.height), { align: 'center', spacingAfter: 2 })
+          : paragraph(
+              run(`${node.mediaType === 'image' ? 'Image' : 'Video'}: `, { bold: true, color: COLORS.muted }) +
+                run(node.alt || (node.src.startsWith('data:') ? 'embedded file' : node.src), { color: COLORS.primary })
+            );
+        const caption = node.caption
+          ? paragraph(run(node.caption, { italic: true, color: COLORS.muted, size: 9 }), { align: 'center' })
+          : '';
+        return content + caption;
+      }
+
+      case 'raw':
+        return box(
+          paragraph(run(node.blockType.replace(/_/g, ' '), { color: COLORS.muted, size: 9 }), { spacingAfter: 4 }) +
+            paragraph(run(node.json, { mono: true, size: 8 }), { spacingAfter: 0 }),
+          { fill: COLORS.cardFill, border: COLORS.border }
+        );
+    }
+  }
+
+  private cardField(field: CardField): string {
+    const label = (text: string, color: string = COLORS.muted) =>
+      paragraph(run(text, { bold: true, color, size: 9 }), { spacingAfter: 2, keepNext: true });
+
+    switch (field.kind) {
+      case 'text': {
+        const style: RunStyle =
+          field.style === 'quote'
+            ? { italic: true, color: COLORS.muted }
+            : field.style === 'code'
+              ? { mono: true, color: COLORS.primary }
+              : field.style === 'muted'
+                ? { color: COLORS.muted }
+                : {};
+        return (field.label ? label(field.label) : '') + paragraph(run(field.value, style), { spacingAfter: 6 });
+      }
+
+      case 'list': {
+        if (field.tone === 'tag') {
+          const tags = field.items.map((item) => run(item, { color: COLORS.tag })).join(run('  ·  ', { color: COLORS.muted }));
+          return label(field.label) + paragraph(tags, { spacingAfter: 6 });
+        }
+        const [marker, color] =
+          field.tone === 'positive' ? ['✓', COLORS.positive] : field.tone === 'negative' ? ['✗', COLORS.negative] : ['•', COLORS.text];
+        const items = field.items.length
+          ? field.items.map((item) => paragraph(run(`${marker} `, { color }) + run(item), { indent: 200, spacingAfter: 2 })).join('')
+          : paragraph(run(`No ${field.label.toLowerCase()} added`, { italic: true, color: COLORS.muted }));
+        return label(field.label, field.tone ? color : COLORS.muted) + items + paragraph('', { spacingAfter: 2 });
+      }
+
+      case 'metrics': {
+        const width = CONTENT_WIDTH - 400;
+        const values = field.items.map((item) => item.label);
+        return (
+          grid(null, [values], width, (_, __, c) => {
+            const item = field.items[c];
+            if (!item) return paragraph('');
+            return (
+              paragraph(run(item.label, { color: COLORS.muted, size: 9 }), { spacingAfter: 0 }) +
+              paragraph(run(item.value, { bold: true, size: 14, color: item.highlight ? COLORS.primary : COLORS.text }), {
+                spacingAfter: 0,
+              }) +
+              (item.note ? paragraph(run(item.note, { color: COLORS.muted, size: 9 }), { spacingAfter: 0 }) : '')
+            );
+          }) + paragraph('', { spacingAfter: 4 })
+        );
+      }
+    }
+  }
+
+  private legend(entries: ChartLegendEntry[]): string {
+    if (entries.length < 2) return '';
+    const runs = entries
+      .map((entry) => run('■ ', { color: entry.color.slice(1).toUpperCase() }) + run(entry.label, { size: 9, color: COLORS.muted }))
+      .join(run('    '));
+    return paragraph(runs, { align: 'center' });
+  }
+
+  /**
+   * Inline picture scaled to fit the content width
+   */
+  private image(media: Media[], format: 'png' | 'jpeg', data: Buffer, width: number, height: number): string {
+    const index = media.length + 1;
+    const name = `image${index}.${format === 'png' ? 'png' : 'jpeg'}`;
+    media.push({ name, data });
+
+    // 96 dpi pixels to twips, capped at the content width
+    const widthTwips = Math.min(width * 15, CONTENT_WIDTH);
+    const cx = widthTwips * EMU_PER_TWIP;
+    const cy = Math.round((cx * height) / Math.max(width, 1));
+
+    return (
+      '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Picture ${index}"/>` +
+      '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+      '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      `<pic:nvPicPr><pic:cNvPr id="${index}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="rIdImage${index}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+      '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic>' +
+      '</wp:inline></w:drawing></w:r>'
+    );
+  }
+
+  private contentTypes(): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Default Extension="png" ContentType="image/png"/>' +
+      '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+      '</Types>'
+    );
+  }
+
+  private packageRelationships(): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  private documentRelationships(media: Media[]): string {
+    const images = media
+      .map(
+        (item, i) =>
+          `<Relationship Id="rIdImage${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${item.name}"/>`
+      )
+      .join('');
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+      images +
+      '</Relationships>'
+    );
+  }
+
+  private coreProperties(doc: ExportDocument): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+      `<dc:title>${escapeXml(doc.title)}</dc:title>` +
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>` +
+      '</cp:coreProperties>'
+    );
+  }
+}
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"';
+
+function headingStyle(id: string, name: string, size: number, level: number, spaceBefore: number): string {
+  return (
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${spaceBefore * 20}" w:after="120"/>` +
+    `<w:outlineLvl w:val="${level}"/></w:pPr><w:rPr><w:b/><w:color w:val="${COLORS.text}"/><w:sz w:val="${size * 2}"/></w:rPr></w:style>`
+  );
+}
+
+const STYLES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+  `<w:color w:val="${COLORS.text}"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>` +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:spacing w:after="480"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/></w:rPr></w:style>' +
+  headingStyle('TOCHeading', 'TOC Heading', 18, 9, 0) +
+  headingStyle('Heading1', 'heading 1', 18, 0, 24) +
+  headingStyle('Heading2', 'heading 2', 15, 1, 18) +
+  headingStyle('Heading3', 'heading 3', 13, 2, 12) +
+  headingStyle('Heading4', 'heading 4', 12, 3, 12) +
+  '</w:styles>';
+
+const FOOTER =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:rPr><w:color w:val="${COLORS.muted}"/><w:sz w:val="18"/></w:rPr>` +
+  '<w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+  '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>' +
+  '</w:ftr>';
+
+// Singleton instance
+export const docxExporter = new DocxExporter();
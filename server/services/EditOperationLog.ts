@@ -0,0 +1,384 @@
+/**
+ * Edit Operation Log
+ *
+ * Appends every block edit to edit_operations and replays the log for
+ * document-scoped undo/redo. Recording is best-effort: a failed insert is
+ * logged and never fails the edit itself.
+ *
+ * The log behaves like an editor history: undo walks back through operations
+ * that are not undone, redo re-applies the oldest undone one, and recording a
+ * new operation takes everything that was undone off the redo stack. Those
+ * operations are kept, marked superseded, so block histories still show them.
+ */
+
+import { and, asc, desc, eq, gt, gte, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { documentBlocks, editOperations, type DocumentBlock, type EditOperation } from '../db/schema';
+import { blockLockManager, type BlockLockManager } from './BlockLockManager';
+
+export type EditOperationType = 'create' | 'update' | 'delete' | 'reposition';
+
+export interface EditOperationInput {
+  documentId: string;
+  blockId?: string;
+  sessionId?: string;
+  operationType: EditOperationType;
+  previousContent?: unknown;
+  newContent?: unknown;
+  authoredBy: string;
+  chatMessageId?: string;
+}
+
+// Everything needed to re-create a deleted block with its original ID
+export interface BlockSnapshot {
+  sectionId: string;
+  blockType: string;
+  content: unknown;
+  position: number;
+  directives: unknown;
+  entities: unknown;
+  relationships: unknown;
+  createdBy: string | null;
+}
+
+export type HistoryResult =
+  | { status: 'applied'; operation: EditOperation }
+  | { status: 'empty' }
+  | { status: 'locked'; blockId: string; lockedBy?: string }
+  | { status: 'missing'; operation: EditOperation };
+
+// One content state of a block, as shown in its history panel
+export interface BlockRevision {
+  id: string; // Operation ID
+  operationType: EditOperationType;
+  authoredBy: string;
+  sessionId: string | null;
+  chatMessageId: string | null;
+  content: unknown; // Block content after the operation
+  previousContent: unknown; // Block content before it (null for create)
+  undone: boolean;
+  createdAt: Date;
+}
+
+export type RestoreResult =
+  | { status: 'applied'; block: DocumentBlock }
+  | { status: 'locked'; blockId: string; lockedBy?: string }
+  | { status: 'missing' };
+
+export function snapshotBlock(block: DocumentBlock): BlockSnapshot {
+  return {
+    sectionId: block.sectionId,
+    blockType: block.blockType,
+    content: block.content,
+    position: block.position,
+    directives: block.directives,
+    entities: block.entities,
+    relationships: block.relationships,
+    createdBy: block.createdBy,
+  };
+}
+
+function countWords(content: unknown): number {
+  return JSON.stringify(content).split(/\s+/).filter(Boolean).length;
+}
+
+export class EditOperationLog {
+  constructor(private locks: BlockLockManager = blockLockManager) {}
+
+  /**
+   * Record one operation. Returns the operation ID, or null if it could not be saved.
+   */
+  async record(input: EditOperationInput): Promise<string | null> {
+    try {
+      // A new edit invalidates the redo stack
+      await db()
+        .update(editOperations)
+        .set({ superseded: true })
+        .where(
+          and(
+            eq(editOperations.documentId, input.documentId),
+            eq(editOperations.undone, true),
+            eq(editOperations.superseded, false)
+          )
+        );
+
+      const [operation] = await db()
+        .insert(editOperations)
+        .values({
+          documentId: input.documentId,
+          blockId: input.blockId,
+          sessionId: input.sessionId,
+          operationType: input.operationType,
+          previousContent: input.previousContent,
+          newContent: input.newContent,
+          authoredBy: input.authoredBy,
+          chatMessageId: input.chatMessageId,
+        })
+        .returning({ id: editOperations.id });
+
+      return operation.id;
+    } catch (error) {
+      console.error('[EditOperationLog] Failed to record operation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Revert the most recent operation on a document
+   */
+  async undo(documentId: string): Promise<HistoryResult> {
+    const [operation] = await db()
+      .select()
+      .from(editOperations)
+      .where(and(eq(editOperations.documentId, documentId), eq(editOperations.undone, false)))
+      .orderBy(desc(editOperations.createdAt))
+      .limit(1);
+
+    return this.replay(operation, 'undo');
+  }
+
+  /**
+   * Re-apply the most recently undone operation on a document
+   */
+  async redo(documentId: string): Promise<HistoryResult> {
+    // Undo always takes the newest operation, so undone ones form a suffix of the
+    // history and the oldest of them is the one undone last
+    const [operation] = await db()
+      .select()
+      .from(editOperations)
+      .where(
+        and(
+          eq(editOperations.documentId, documentId),
+          eq(editOperations.undone, true),
+          eq(editOperations.superseded, false)
+        )
+      )
+      .orderBy(asc(editOperations.createdAt))
+      .limit(1);
+
+    return this.replay(operation, 'redo');
+  }
+
+  /**
+   * Content revisions of a block, newest first. Repositions are left out since they do not change content.
+   */
+  async blockHistory(blockId: string): Promise<BlockRevision[]> {
+    const operations = await db()
+      .select()
+      .from(editOperations)
+      .where(eq(editOperations.blockId, blockId))
+      .orderBy(desc(editOperations.createdAt));
+
+    return operations
+      .filter((op) => op.operationType === 'create' || op.operationType === 'update')
+      .map((op) => ({
+        id: op.id,
+        operationType: op.operationType as EditOperationType,
+        authoredBy: op.authoredBy,
+        sessionId: op.sessionId,
+        chatMessageId: op.chatMessageId,
+        content: op.operationType === 'create' ? (op.newContent as BlockSnapshot).content : op.newContent,
+        previousContent: op.operationType === 'create' ? null : op.previousContent,
+        undone: op.undone,
+        createdAt: op.createdAt,
+      }));
+  }
+
+  /**
+   * Set a block's content back to a revision. The restore is itself recorded as an update.
+   */
+  async restoreRevision(blockId: string, operationId: string, authoredBy: string): Promise<RestoreResult> {
+    const revision = (await this.blockHistory(blockId)).find((r) => r.id === operationId);
+    if (!revision) {
+      return { status: 'missing' };
+    }
+
+    const lock = await this.locks.isBlockLocked(blockId);
+    if (lock.locked && lock.lockedBy !== 'user') {
+      return { status: 'locked', blockId, lockedBy: lock.lockedBy };
+    }
+
+    const [previous] = await db()
+      .select({ content: documentBlocks.content })
+      .from(documentBlocks)
+      .where(eq(documentBlocks.id, blockId))
+      .limit(1);
+
+    if (!previous) {
+      return { status: 'missing' };
+    }
+
+    const [block] = await db()
+      .update(documentBlocks)
+      .set({
+        content: revision.content,
+        wordCount: countWords(revision.content),
+        updatedBy: authoredBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(documentBlocks.id, blockId))
+      .returning();
+
+    await this.record({
+      documentId: block.documentId,
+      blockId,
+      operationType: 'update',
+      previousContent: previous.content,
+      newContent: revision.content,
+      authoredBy,
+    });
+
+    return { status: 'applied', block };
+  }
+
+  private async replay(operation: EditOperation | undefined, direction: 'undo' | 'redo'): Promise<HistoryResult> {
+    if (!operation) {
+      return { status: 'empty' };
+    }
+
+    // Never touch a block a pipeline is writing
+    if (operation.blockId) {
+      const lock = await this.locks.isBlockLocked(operation.blockId);
+      if (lock.locked && lock.lockedBy !== 'user') {
+        return { status: 'locked', blockId: operation.blockId, lockedBy: lock.lockedBy };
+      }
+    }
+
+    const applied = direction === 'undo' ? await this.revert(operation) : await this.apply(operation);
+
+    // The operation moves to the other stack even if its block is gone, so history never gets stuck
+    await db()
+      .update(editOperations)
+      .set({ undone: direction === 'undo' })
+      .where(eq(editOperations.id, operation.id));
+
+    return applied ? { status: 'applied', operation } : { status: 'missing', operation };
+  }
+
+  private async revert(operation: EditOperation): Promise<boolean> {
+    const blockId = operation.blockId;
+    if (!blockId) return false;
+
+    switch (operation.operationType) {
+      case 'create':
+        return this.removeBlock(blockId);
+      case 'delete':
+        return this.restoreBlock(blockId, operation.documentId, operation.previousContent as BlockSnapshot);
+      case 'update':
+        return this.setContent(blockId, operation.previousContent, operation.authoredBy);
+      case 'reposition':
+        return this.moveBlock(blockId, (operation.previousContent as { position: number }).position);
+      default:
+        return false;
+    }
+  }
+
+  private async apply(operation: EditOperation): Promise<boolean> {
+    const blockId = operation.blockId;
+    if (!blockId) return false;
+
+    switch (operation.operationType) {
+      case 'create':
+        return this.restoreBlock(blockId, operation.documentId, operation.newContent as BlockSnapshot);
+      case 'delete':
+        return this.removeBlock(blockId);
+      case 'update':
+        return this.setContent(blockId, operation.newContent, operation.authoredBy);
+      case 'reposition':
+        return this.moveBlock(blockId, (operation.newContent as { position: number }).position);
+      default:
+        return false;
+    }
+  }
+
+  private async setContent(blockId: string, content: unknown, updatedBy: string): Promise<boolean> {
+    const [updated] = await db()
+      .update(documentBlocks)
+      .set({ content, wordCount: countWords(content), updatedBy, updatedAt: new Date() })
+      .where(eq(documentBlocks.id, blockId))
+      .returning({ id: documentBlocks.id });
+
+    return !!updated;
+  }
+
+  private async removeBlock(blockId: string): Promise<boolean> {
+    const [deleted] = await db()
+      .delete(documentBlocks)
+      .where(eq(documentBlocks.id, blockId))
+      .returning();
+
+    if (!deleted) return false;
+
+    // Close the gap so a later restore lands in the same place
+    await db()
+      .update(documentBlocks)
+      .set({ position: sql`${documentBlocks.position} - 1` })
+      .where(and(eq(documentBlocks.sectionId, deleted.sectionId), gt(documentBlocks.position, deleted.position)));
+
+    return true;
+  }
+
+  private async restoreBlock(blockId: string, documentId: string, snapshot: BlockSnapshot): Promise<boolean> {
+    try {
+      await db()
+        .update(documentBlocks)
+        .set({ position: sql`${documentBlocks.position} + 1` })
+        .where(and(eq(documentBlocks.sectionId, snapshot.sectionId), gte(documentBlocks.position, snapshot.position)));
+
+      await db()
+        .insert(documentBlocks)
+        .values({
+          id: blockId,
+          documentId,
+          sectionId: snapshot.sectionId,
+          blockType: snapshot.blockType,
+          content: snapshot.content,
+          position: snapshot.position,
+          directives: snapshot.directives ?? {},
+          entities: snapshot.entities ?? [],
+          relationships: snapshot.relationships ?? [],
+          wordCount: countWords(snapshot.content),
+          createdBy: snapshot.createdBy,
+          updatedBy: snapshot.createdBy,
+        });
+
+      return true;
+    } catch (error) {
+      // Section deleted since, or the block already exists
+      console.warn('[EditOperationLog] Could not restore block:', (error as Error).message);
+      return false;
+    }
+  }
+
+  private async moveBlock(blockId: string, position: number): Promise<boolean> {
+    const [block] = await db()
+      .select()
+      .from(documentBlocks)
+      .where(eq(documentBlocks.id, blockId))
+      .limit(1);
+
+    if (!block) return false;
+
+    const blocks = await db()
+      .select({ id: documentBlocks.id })
+      .from(documentBlocks)
+      .where(eq(documentBlocks.sectionId, block.sectionId))
+      .orderBy(documentBlocks.position);
+
+    const currentIndex = blocks.findIndex((b) => b.id === blockId);
+    const [moved] = blocks.splice(currentIndex, 1);
+    blocks.splice(Math.min(position, blocks.length), 0, moved);
+
+    for (let i = 0; i < blocks.length; i++) {
+      await db()
+        .update(documentBlocks)
+        .set({ position: i })
+        .where(eq(documentBlocks.id, blocks[i].id));
+    }
+
+    return true;
+  }
+}
+
+// Singleton instance
+export const editOperationLog = new EditOperationLog();
@@ -0,0 +1,146 @@
+/**
+ * Edit Proposal Service
+ *
+ * Lets the chat model propose structured edits to the grounded document.
+ * Proposals are validated against the blocks the model was shown and sent to
+ * the client for review; nothing is written until the user accepts.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ChatTool } from './OpenAIService';
+import type { GroundingContext } from './DocumentContextService';
+
+export type EditProposalOperation = 'replace' | 'insert' | 'reorder';
+export type EditProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+// Shape of chat_messages.edit_proposals entries (matches the frontend BlockEditProposal)
+export interface BlockEditProposal {
+  id: string;
+  operation: EditProposalOperation;
+  documentId: string;
+  sectionId: string;
+  blockId?: string;
+  blockType?: string;
+  content?: Record<string, unknown>;
+  previousContent?: Record<string, unknown>;
+  position?: number;
+  previousPosition?: number;
+  reason?: string;
+  status: EditProposalStatus;
+}
+
+export const PROPOSE_EDIT_TOOL: ChatTool = {
+  name: 'propose_block_edit',
+  description: `Propose a change to the open document for the user to review. Nothing is applied until the user accepts.
+- replace: new content for an existing block (blockId, content)
+- insert: a new block in a section (sectionId, blockType, content, optional position)
+- reorder: move an existing block within its section (blockId, position)
+Content must follow the block type's shape, e.g. paragraph {"text"}, heading {"text","level"}, callout {"type","text"}, feature {"name","description","mechanics"}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      operation: { type: 'string', enum: ['replace', 'insert', 'reorder'] },
+      blockId: { type: 'string', description: 'Target block ID (replace, reorder)' },
+      sectionId: { type: 'string', description: 'Target section ID (insert)' },
+      blockType: { type: 'string', description: 'Type of the new block (insert)' },
+      content: { type: 'object', description: 'Full block content (replace, insert)' },
+      position: { type: 'integer', minimum: 0, description: 'Zero-based index within the section (insert, reorder)' },
+      reason: { type: 'string', description: 'One sentence explaining the change' },
+    },
+    required: ['operation', 'reason'],
+  },
+};
+
+export class EditProposalService {
+  /**
+   * Validate tool arguments into a pending proposal. Throws with a message the model can act on.
+   */
+  createProposal(args: Record<string, unknown>, grounding: GroundingContext): BlockEditProposal {
+    const operation = args.operation as EditProposalOperation;
+    const reason = typeof args.reason === 'string' ? args.reason : undefined;
+    const documentId = grounding.documentContext.activeDocumentId;
+    const position = typeof args.position === 'number' ? Math.max(0, Math.floor(args.position)) : undefined;
+    const content = this.asContent(args.content);
+
+    switch (operation) {
+      case 'replace': {
+        const block = this.requireBlock(args.blockId, grounding);
+        if (!content) {
+          throw new Error('replace requires content');
+        }
+        return {
+          id: randomUUID(),
+          operation,
+          documentId,
+          sectionId: block.sectionId,
+          blockId: block.id,
+          blockType: block.blockType,
+          content,
+          previousContent: block.content as Record<string, unknown>,
+          reason,
+          status: 'pending',
+        };
+      }
+
+      case 'insert': {
+        const sectionId = typeof args.sectionId === 'string' ? args.sectionId : '';
+        if (!grounding.sections.has(sectionId)) {
+          throw new Error(`Unknown section ID: ${sectionId || '(missing)'}`);
+        }
+        if (typeof args.blockType !== 'string' || !content) {
+          throw new Error('insert requires blockType and content');
+        }
+        return {
+          id: randomUUID(),
+          operation,
+          documentId,
+          sectionId,
+          blockType: args.blockType,
+          content,
+          position,
+          reason,
+          status: 'pending',
+        };
+      }
+
+      case 'reorder': {
+        const block = this.requireBlock(args.blockId, grounding);
+        if (position === undefined) {
+          throw new Error('reorder requires position');
+        }
+        return {
+          id: randomUUID(),
+          operation,
+          documentId,
+          sectionId: block.sectionId,
+          blockId: block.id,
+          blockType: block.blockType,
+          position,
+          previousPosition: block.position,
+          reason,
+          status: 'pending',
+        };
+      }
+
+      default:
+        throw new Error(`Unknown operation: ${String(args.operation)}`);
+    }
+  }
+
+  private requireBlock(blockId: unknown, grounding: GroundingContext) {
+    const block = typeof blockId === 'string' ? grounding.blocks.get(blockId.toLowerCase()) : undefined;
+    if (!block) {
+      throw new Error(`Unknown block ID: ${String(blockId ?? '(missing)')}. Use an ID shown in the document context.`);
+    }
+    return block;
+  }
+
+  private asContent(value: unknown): Record<string, unknown> | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  }
+}
+
+// Singleton instance
+export const editProposalService = new EditProposalService();
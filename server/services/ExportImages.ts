@@ -0,0 +1,118 @@
+/**
+ * Export Images
+ *
+ * Decodes images embedded in media blocks as data URLs so exports can include
+ * them without fetching anything. Remote URLs are left to the exporters to
+ * reference as links.
+ */
+
+import * as zlib from 'zlib';
+import type { RasterImage } from './ChartRasterizer';
+
+export interface EmbeddedImage {
+  format: 'png' | 'jpeg';
+  data: Buffer;
+  width: number;
+  height: number;
+  // Colour channels in the encoded data (1 grey, 3 RGB, 4 CMYK or RGBA)
+  components: number;
+}
+
+/**
+ * Decode a PNG or JPEG data URL, or null for anything else
+ */
+export function decodeDataUrlImage(src: string): EmbeddedImage | null {
+  const match = src.match(/^data:image\/(png|jpe?g);base64,(.+)$/i);
+  if (!match) return null;
+
+  const data = Buffer.from(match[2], 'base64');
+  const format = match[1].toLowerCase() === 'png' ? 'png' : 'jpeg';
+  const size = format === 'png' ? pngSize(data) : jpegSize(data);
+  return size ? { format, data, ...size } : null;
+}
+
+// Channels per PNG colour type: grey, -, RGB, palette, grey+alpha, -, RGBA
+const PNG_COMPONENTS = [1, 0, 3, 1, 2, 0, 4];
+
+type ImageSize = Pick<EmbeddedImage, 'width' | 'height' | 'components'>;
+
+function pngSize(data: Buffer): ImageSize | null {
+  if (data.length < 26 || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20), components: PNG_COMPONENTS[data[25]] || 3 };
+}
+
+function jpegSize(data: Buffer): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7), components: data[offset + 9] };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced RGB or RGBA PNG to RGB pixels, with alpha
+ * blended over white. Returns null for other PNG variants.
+ */
+export function decodePngPixels(image: EmbeddedImage): RasterImage | null {
+  const { data, width, height } = image;
+  const bitDepth = data[24];
+  const colorType = data[25];
+  const interlace = data[28];
+  if (bitDepth !== 8 || (colorType !== 2 && colorType !== 6) || interlace !== 0) return null;
+
+  // Concatenate IDAT chunks
+  const idat: Buffer[] = [];
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    if (type === 'IDAT') idat.push(data.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+
+  const channels = colorType === 6 ? 4 : 3;
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const pixels = Buffer.alloc(stride * height);
+
+  // Undo the per-scanline filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = Math.floor((left + up) / 2);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      pixels[y * stride + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  if (channels === 3) return { width, height, rgb: pixels };
+
+  const rgb = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      rgb[i * 3 + c] = Math.round(pixels[i * 4 + c] * alpha + 255 * (1 - alpha));
+    }
+  }
+  return { width, height, rgb };
+}
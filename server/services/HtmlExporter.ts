@@ -0,0 +1,396 @@
+/**
+ * HTML Exporter
+ *
+ * Writes an export document as a single self-contained HTML page for sharing
+ * by email or on a wiki. Styles, the Chart.js bundle and the chart data are
+ * inlined, so charts stay interactive without network access. Media embedded
+ * as data URLs is shown inline and remote media is only linked. Colors follow
+ * the editor themes defined in src/index.css.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CardField, ExportDocument, ExportNode } from './DocumentExportModel';
+
+export type HtmlTheme = 'dark' | 'light' | 'claude';
+
+// HSL values of the editor's theme variables (src/index.css)
+const THEMES: Record<HtmlTheme, Record<string, string>> = {
+  dark: {
+    background: '222 47% 6%',
+    foreground: '210 40% 98%',
+    card: '222 47% 8%',
+    primary: '48 100% 50%',
+    'primary-foreground': '222 47% 6%',
+    muted: '217 33% 17%',
+    'muted-foreground': '215 20% 65%',
+    border: '217 33% 20%',
+    destructive: '0 62% 50%',
+  },
+  light: {
+    background: '0 0% 100%',
+    foreground: '222 47% 11%',
+    card: '0 0% 98%',
+    primary: '48 100% 45%',
+    'primary-foreground': '222 47% 6%',
+    muted: '220 14% 96%',
+    'muted-foreground': '220 9% 46%',
+    border: '220 13% 91%',
+    destructive: '0 84% 60%',
+  },
+  claude: {
+    background: '20 14% 10%',
+    foreground: '30 20% 85%',
+    card: '20 14% 12%',
+    primary: '24 100% 60%',
+    'primary-foreground': '20 14% 10%',
+    muted: '20 10% 18%',
+    'muted-foreground': '20 10% 55%',
+    border: '20 10% 22%',
+    destructive: '0 62% 50%',
+  },
+};
+
+export function isHtmlTheme(value: string): value is HtmlTheme {
+  return Object.prototype.hasOwnProperty.call(THEMES, value);
+}
+
+interface ChartPayload {
+  id: string;
+  type: string;
+  title?: string;
+  stacked: boolean;
+  data: { labels: unknown; datasets: unknown };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Text with line breaks kept
+function text(value: string): string {
+  return escapeHtml(value).replace(/\n/g, '<br>');
+}
+
+// JSON and scripts must not close the surrounding script element early
+function inlineScript(source: string): string {
+  return source.replace(/<\/(script)/gi, '<\\/$1');
+}
+
+export class HtmlExporter {
+  private chartJsSource: string | null = null;
+
+  render(doc: ExportDocument, theme: HtmlTheme): string {
+    const charts: ChartPayload[] = [];
+
+    const sections = doc.sections
+      .map(
+        (section) =>
+          `<section id="section-${section.number}" class="section-${escapeHtml(section.type)}">` +
+          `<h2>${escapeHtml(`${section.number}. ${section.title}`)}</h2>` +
+          section.nodes.map((node) => this.node(node, charts)).join('\n') +
+          '</section>'
+      )
+      .join('\n');
+
+    const titlePage = doc.titlePage
+      .map(({ label, value }) => `<div><dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd></div>`)
+      .join('');
+
+    const toc = doc.toc
+      .map((entry) => `<li><a href="#section-${entry.number}">${escapeHtml(`${entry.number}. ${entry.title}`)}</a></li>`)
+      .join('');
+
+    const variables = Object.entries(THEMES[theme])
+      .map(([name, value]) => `--${name}: ${value};`)
+      .join(' ');
+
+    const scripts = charts.length
+      ? `<script type="application/json" id="report-charts">${inlineScript(JSON.stringify(charts))}</script>\n` +
+        `<script>${inlineScript(this.chartJs())}</script>\n` +
+        `<script>${CHART_SCRIPT}</script>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en" data-theme="${theme}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>:root { ${variables} }
+${STYLES}</style>
+</head>
+<body>
+<main>
+<header class="title-page"><h1>${escapeHtml(doc.title)}</h1><dl>${titlePage}</dl></header>
+<nav class="toc"><h2>Contents</h2><ol>${toc}</ol></nav>
+${sections}
+</main>
+${scripts}
+</body>
+</html>
+`;
+  }
+
+  private node(node: ExportNode, charts: ChartPayload[]): string {
+    switch (node.kind) {
+      case 'heading': {
+        const tag = `h${Math.min(node.level + 2, 6)}`;
+        return `<${tag}>${escapeHtml(node.text)}</${tag}>`;
+      }
+
+      case 'paragraph':
+        return node.text
+          .split(/\n{2,}/)
+          .map((paragraph) => `<p>${text(paragraph)}</p>`)
+          .join('\n');
+
+      case 'table': {
+        const head = node.headers.length
+          ? `<thead><tr>${node.headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+          : '';
+        const rows = node.rows.map((row) => `<tr>${row.map((cell) => `<td>${text(cell)}</td>`).join('')}</tr>`).join('');
+        const caption = node.title ? `<figcaption>${escapeHtml(node.title)}</figcaption>` : '';
+        return `<figure class="table">${caption}<table>${head}<tbody>${rows}</tbody></table></figure>`;
+      }
+
+      case 'card': {
+        const badge = node.badge ? ` <span class="badge">${escapeHtml(node.badge)}</span>` : '';
+        return (
+          `<article class="card card-${escapeHtml(node.blockType)}"><h4>${escapeHtml(node.title)}${badge}</h4>` +
+          node.fields.map((field) => this.cardField(field)).join('') +
+          '</article>'
+        );
+      }
+
+      case 'callout': {
+        const title = node.title ? `<strong>${escapeHtml(node.title)}</strong>` : '';
+        return `<aside class="callout callout-${node.variant}">${title}<p>${text(node.text)}</p></aside>`;
+      }
+
+      case 'chart': {
+        if (!node.data) {
+          const title = node.title ? `<figcaption>${escapeHtml(node.title)}</figcaption>` : '';
+          return `<figure class="chart">${title}<p class="empty">Chart data not available</p></figure>`;
+        }
+
+        const id = `chart-${charts.length + 1}`;
+        charts.push({
+          id,
+          type: node.chartType,
+          title: node.title,
+          stacked: node.stacked,
+          // Prefer the block's own Chart.js data so colors and hidden series match the editor
+          data: node.chartJsData
+            ? { labels: node.chartJsData.labels, datasets: node.chartJsData.datasets }
+            : {
+                labels: node.data.labels,
+                datasets: node.data.datasets.map((dataset) => ({
+                  label: dataset.label,
+                  data: dataset.data,
+                  backgroundColor: dataset.colors ?? dataset.color,
+                  borderColor: dataset.color,
+                })),
+              },
+        });
+        return `<figure class="chart"><div class="chart-canvas"><canvas id="${id}"></canvas></div></figure>`;
+      }
+
+      case 'media': {
+        const caption = node.caption ? `<figcaption>${escapeHtml(node.caption)}</figcaption>` : '';
+
+        // Remote files would be fetched when the report is opened, so they are linked instead
+        if (/^data:(image|video)\//.test(node.src)) {
+          const src = escapeHtml(node.src);
+          const media =
+            node.mediaType === 'video'
+              ? `<video controls src="${src}"></video>`
+              : `<img src="${src}" alt="${escapeHtml(node.alt || '')}">`;
+          return `<figure class="media">${media}${caption}</figure>`;
+        }
+
+        const label = escapeHtml(node.alt || (node.src.startsWith('data:') ? 'embedded file' : node.src));
+        const target = /^https?:\/\//.test(node.src)
+          ? `<a href="${escapeHtml(node.src)}" target="_blank" rel="noopener noreferrer">${label}</a>`
+          : label;
+        return (
+          `<figure class="media-link"><strong>${node.mediaType === 'video' ? 'Video' : 'Image'}:</strong> ` +
+          `${target}${caption}</figure>`
+        );
+      }
+
+      case 'raw':
+        return (
+          `<figure class="raw"><figcaption>${escapeHtml(node.blockType.replace(/_/g, ' '))}</figcaption>` +
+          `<pre><code>${escapeHtml(node.json)}</code></pre></figure>`
+        );
+    }
+  }
+
+  private cardField(field: CardField): string {
+    switch (field.kind) {
+      case 'text': {
+        const label = field.label ? `<div class="label">${escapeHtml(field.label)}</div>` : '';
+        const value =
+          field.style === 'code'
+            ? `<pre><code>${escapeHtml(field.value)}</code></pre>`
+            : `<p class="${field.style || ''}">${text(field.value)}</p>`;
+        return `<div class="field">${label}${value}</div>`;
+      }
+
+      case 'list': {
+        const tone = field.tone ? ` ${field.tone}` : '';
+        const items = field.items.length
+          ? `<ul class="list${tone}">${field.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+          : `<p class="empty">No ${escapeHtml(field.label.toLowerCase())} added</p>`;
+        return `<div class="field"><div class="label${tone}">${escapeHtml(field.label)}</div>${items}</div>`;
+      }
+
+      case 'metrics':
+        return (
+          '<div class="metrics">' +
+          field.items
+            .map(
+              (item) =>
+                `<div class="metric${item.highlight ? ' highlight' : ''}"><span class="label">${escapeHtml(item.label)}</span>` +
+                `<strong>${escapeHtml(item.value)}</strong>` +
+                (item.note ? `<span class="note">${escapeHtml(item.note)}</span>` : '') +
+                '</div>'
+            )
+            .join('') +
+          '</div>'
+        );
+    }
+  }
+
+  /**
+   * The Chart.js UMD bundle from the frontend's dependency, read once
+   */
+  private chartJs(): string {
+    if (this.chartJsSource === null) {
+      const bundle = path.join(process.cwd(), 'node_modules', 'chart.js', 'dist', 'chart.umd.min.js');
+      this.chartJsSource = fs.readFileSync(bundle, 'utf-8');
+    }
+    return this.chartJsSource;
+  }
+}
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; background: hsl(var(--background)); color: hsl(var(--foreground));
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica Neue', sans-serif; line-height: 1.6; }
+main { max-width: 56rem; margin: 0 auto; padding: 3rem 1.5rem; }
+a { color: hsl(var(--primary)); text-decoration: none; }
+a:hover { text-decoration: underline; }
+h1 { font-size: 2.25rem; margin: 0 0 1.5rem; }
+h2 { font-size: 1.5rem; margin: 2.5rem 0 1rem; padding-bottom: 0.5rem; border-bottom: 1px solid hsl(var(--border)); }
+h3 { font-size: 1.25rem; margin: 1.75rem 0 0.75rem; }
+h4, h5, h6 { font-size: 1.05rem; margin: 1.25rem 0 0.5rem; }
+p { margin: 0 0 0.75rem; }
+pre { margin: 0; padding: 0.75rem; overflow-x: auto; border-radius: 0.375rem; background: hsl(var(--muted)); font-size: 0.8rem; }
+code { font-family: source-code-pro, Menlo, Monaco, Consolas, 'Courier New', monospace; }
+figure { margin: 0 0 1.25rem; }
+figcaption { font-weight: 600; margin-bottom: 0.5rem; }
+.title-page { padding: 4rem 0 2rem; text-align: center; border-bottom: 1px solid hsl(var(--border)); }
+.title-page dl { display: inline-grid; grid-template-columns: auto auto; gap: 0.25rem 1rem; margin: 0; text-align: left; }
+.title-page dl div { display: contents; }
+.title-page dt { color: hsl(var(--muted-foreground)); }
+.title-page dd { margin: 0; }
+.toc ol { list-style: none; padding: 0; margin: 0; columns: 2; }
+.toc li { padding: 0.125rem 0; break-inside: avoid; }
+table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+th, td { padding: 0.5rem 0.75rem; border: 1px solid hsl(var(--border)); text-align: left; vertical-align: top; }
+th { background: hsl(var(--muted)); color: hsl(var(--muted-foreground)); font-weight: 600; }
+.card { margin: 0 0 1.25rem; padding: 1rem 1.25rem; border: 1px solid hsl(var(--border)); border-radius: var(--radius, 0.5rem); background: hsl(var(--card)); }
+.card h4 { margin: 0 0 0.75rem; font-size: 1.1rem; }
+.badge { display: inline-block; margin-left: 0.5rem; padding: 0.1rem 0.5rem; border-radius: 999px; font-size: 0.7rem; font-weight: 600;
+  background: hsl(var(--primary) / 0.15); color: hsl(var(--primary)); vertical-align: middle; }
+.field { margin-bottom: 0.75rem; }
+.label { font-size: 0.7rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.04em; color: hsl(var(--muted-foreground)); }
+.label.positive, .list.positive li::before { color: #22c55e; }
+.label.negative, .list.negative li::before { color: #ef4444; }
+.quote { font-style: italic; color: hsl(var(--muted-foreground)); }
+.muted, .empty { color: hsl(var(--muted-foreground)); }
+.empty { font-style: italic; }
+.list { margin: 0.25rem 0 0; padding-left: 1.25rem; }
+.list.positive, .list.negative { list-style: none; padding-left: 0.25rem; }
+.list.positive li::before { content: '\\2713'; margin-right: 0.5rem; }
+.list.negative li::before { content: '\\2717'; margin-right: 0.5rem; }
+.list.tag { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 0.375rem; }
+.list.tag li { padding: 0.1rem 0.6rem; border-radius: 999px; font-size: 0.8rem; background: hsl(var(--muted)); }
+.metrics { display: grid; grid-template-columns: repeat(auto-fit, minmax(8rem, 1fr)); gap: 0.5rem; margin-bottom: 0.75rem; }
+.metric { display: flex; flex-direction: column; padding: 0.5rem 0.75rem; border: 1px solid hsl(var(--border)); border-radius: 0.375rem; background: hsl(var(--background)); }
+.metric strong { font-size: 1.25rem; }
+.metric.highlight { border-color: hsl(var(--primary)); }
+.metric.highlight strong { color: hsl(var(--primary)); }
+.metric .note { font-size: 0.75rem; color: hsl(var(--muted-foreground)); }
+.callout { margin: 0 0 1.25rem; padding: 0.75rem 1rem; border-left: 4px solid; border-radius: 0.375rem; }
+.callout p { margin: 0; }
+.callout-info { border-color: #3b82f6; background: rgba(59, 130, 246, 0.1); }
+.callout-warning { border-color: #eab308; background: rgba(234, 179, 8, 0.1); }
+.callout-success { border-color: #22c55e; background: rgba(34, 197, 94, 0.1); }
+.callout-error { border-color: #ef4444; background: rgba(239, 68, 68, 0.1); }
+.chart-canvas { position: relative; height: 300px; }
+.media { text-align: center; }
+.media img, .media video { max-width: 100%; border-radius: 0.375rem; }
+.media-link strong { color: hsl(var(--muted-foreground)); }
+.media figcaption, .media-link figcaption { font-weight: normal; font-style: italic; font-size: 0.875rem; color: hsl(var(--muted-foreground)); margin: 0.5rem 0 0; }
+.raw figcaption { font-size: 0.75rem; text-transform: uppercase; color: hsl(var(--muted-foreground)); }
+@media print {
+  body { background: #fff; color: #000; }
+  main { max-width: none; padding: 0; }
+  .toc { page-break-after: always; }
+  .card, .callout, figure { break-inside: avoid; }
+}
+`;
+
+// Mirrors the dataset defaults and options of ChartRenderer in the editor
+const CHART_SCRIPT = `(function () {
+  var styles = getComputedStyle(document.documentElement);
+  var themeColor = function (name, alpha) {
+    return 'hsl(' + styles.getPropertyValue(name).trim() + (alpha ? ' / ' + alpha : '') + ')';
+  };
+  var fills = ['rgba(59, 130, 246, 0.8)', 'rgba(16, 185, 129, 0.8)', 'rgba(245, 158, 11, 0.8)', 'rgba(239, 68, 68, 0.8)',
+    'rgba(139, 92, 246, 0.8)', 'rgba(236, 72, 153, 0.8)', 'rgba(6, 182, 212, 0.8)', 'rgba(249, 115, 22, 0.8)'];
+  var borders = fills.map(function (color) { return color.replace('0.8)', '1)'); });
+  var text = themeColor('--muted-foreground');
+  var grid = themeColor('--border', 0.6);
+
+  JSON.parse(document.getElementById('report-charts').textContent).forEach(function (chart) {
+    var round = chart.type === 'pie' || chart.type === 'doughnut';
+    var labels = chart.data.labels || [];
+    var datasets = (chart.data.datasets || []).map(function (dataset, i) {
+      var defaults = round
+        ? { backgroundColor: labels.map(function (_, j) { return fills[j % fills.length]; }),
+            borderColor: labels.map(function (_, j) { return borders[j % borders.length]; }), borderWidth: 1 }
+        : { backgroundColor: fills[i % fills.length], borderColor: borders[i % borders.length], borderWidth: 2,
+            tension: 0.1, pointRadius: labels.length > 100 ? 0 : 3, fill: false };
+      return Object.assign(defaults, dataset);
+    });
+
+    new Chart(document.getElementById(chart.id), {
+      type: chart.type,
+      data: { labels: labels, datasets: datasets },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: datasets.length > 1 || round, position: 'top', labels: { color: text, usePointStyle: true } },
+          title: { display: !!chart.title, text: chart.title || '', color: themeColor('--foreground'), font: { size: 14, weight: 'bold' } },
+          tooltip: { mode: 'index', intersect: false },
+        },
+        scales: round ? {} : {
+          x: { grid: { color: grid }, ticks: { color: text, maxTicksLimit: 20 }, stacked: chart.stacked },
+          y: { grid: { color: grid }, ticks: { color: text }, stacked: chart.stacked, beginAtZero: true },
+        },
+      },
+    });
+  });
+})();`;
+
+// Singleton instance
+export const htmlExporter = new HtmlExporter();
@@ -6,8 +6,8 @@
  */
 
 import { EventEmitter } from 'events';
-import { spawn, ChildProcess } from 'child_process';
-import * as path from 'path';
+import { MCPTransport, createMCPTransport } from './MCPTransport';
+import { localPipelineRouter, PIPELINE_NAMES } from './PipelineRouter';
 
 // MCP request/response types
 export interface MCPRequest {
@@ -28,6 +28,36 @@ export interface MCPResponse {
   };
 }
 
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type MCPMessage = MCPRequest | MCPResponse | MCPNotification;
+
+// Result of the initialize handshake
+export interface MCPServerInfo {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo?: { name: string; version: string };
+  instructions?: string;
+}
+
+// Tool definition from tools/list
+export interface MCPTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+// Result of tools/call
+export interface MCPToolResult {
+  content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  structuredContent?: Record<string, unknown>; // Machine-readable result (protocol 2025-06-18)
+  isError?: boolean;
+}
+
 // Document context for analyze_query
 export interface DocumentContext {
   documentId: string;
@@ -67,116 +97,242 @@ export interface AnalysisResult {
   editIntents?: EditIntentDeclaration[];
 }
 
+// Options for analyze_query
+export interface AnalyzeOptions {
+  runId?: string; // Echoed on pipeline:* events so callers can filter their own run
+  pipelines?: string[]; // Restrict the run to these pipelines (skips MCP-side routing)
+  checkpoint?: () => Promise<void>; // Awaited between turns; rejects to abort the run
+  signal?: AbortSignal; // Aborts the in-flight request via notifications/cancelled
+}
+
+// Bridge health reported on /health
+export interface MCPBridgeHealth {
+  status: 'connected' | 'disconnected' | 'restarting';
+  mock: boolean;
+  server: { name: string; version: string } | null;
+  restarts: number;
+  lastError: { message: string; at: string } | null;
+  pendingRequests: number;
+  tools: string[];
+}
+
 // Events emitted by MCPBridge
 export interface MCPBridgeEvents {
   'connected': () => void;
   'disconnected': () => void;
+  'restarting': (attempt: number, delayMs: number) => void;
   'error': (error: Error) => void;
-  'pipeline:started': (pipelineName: string) => void;
-  'pipeline:progress': (pipelineName: string, turn: number, maxTurns: number) => void;
-  'pipeline:content': (pipelineName: string, content: string) => void;
-  'pipeline:complete': (pipelineName: string, result: PipelineResult) => void;
+  'pipeline:started': (pipelineName: string, runId?: string) => void;
+  'pipeline:progress': (pipelineName: string, turn: number, maxTurns: number, runId?: string) => void;
+  'pipeline:content': (pipelineName: string, content: string, runId?: string) => void;
+  'pipeline:complete': (pipelineName: string, result: PipelineResult, runId?: string) => void;
+}
+
+// MCP protocol versions this client understands, preferred first
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const CLIENT_INFO = { name: 'insight-engine-web-ui', version: '1.0.0' };
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+const INITIALIZE_TIMEOUT_MS = 30 * 1000;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 60 * 1000;
+
+// JSON-RPC error code for unsupported server -> client requests
+const METHOD_NOT_FOUND = -32601;
+
+interface RequestOptions {
+  signal?: AbortSignal; // Sends notifications/cancelled when aborted
+  progressToken?: string | number;
+  timeoutMs?: number;
+}
+
+// Routes progress and log notifications for one analyze_query call
+interface ProgressContext {
+  runId?: string;
+  pipelines: string[];
+  started: Set<string>;
 }
 
 export class MCPBridge extends EventEmitter {
-  private mcpProcess: ChildProcess | null = null;
-  private mcpPath: string;
+  private transport: MCPTransport;
   private requestId: number = 0;
   private pendingRequests: Map<number, {
     resolve: (value: unknown) => void;
     reject: (error: Error) => void;
+    cleanup: () => void;
   }> = new Map();
+  private isStarted: boolean = false;
   private isConnected: boolean = false;
-  private responseBuffer: string = '';
-
-  constructor(mcpPath?: string) {
+  private serverInfo: MCPServerInfo | null = null;
+  private toolsCache: MCPTool[] | null = null;
+  private progressContexts: Map<string | number, ProgressContext> = new Map();
+  private stopping: boolean = false;
+  private restartAttempt: number = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restartCount: number = 0;
+  private lastError: { message: string; at: Date } | null = null;
+  private connecting: Promise<void> | null = null;
+
+  // analyze_query runs as a single tool call on the server, which has no way
+  // to suspend it, so AnalyzeOptions.checkpoint is never awaited here
+  readonly supportsPause = false;
+
+  constructor(transport: MCPTransport = createMCPTransport()) {
     super();
-    this.mcpPath = mcpPath || path.join(
-      process.cwd(),
-      'sandbox',
-      'insight-engine-mcp',
-      'mcp',
-      'insights_engine'
-    );
+    this.transport = transport;
   }
 
   /**
-   * Start the MCP server process
+   * Open the transport and run the initialize handshake
    */
   async connect(): Promise<void> {
     if (this.isConnected) {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      try {
-        // Start MCP server via node
-        this.mcpProcess = spawn('node', ['index.js'], {
-          cwd: this.mcpPath,
-          stdio: ['pipe', 'pipe', 'pipe'],
-          env: {
-            ...process.env,
-            // Pass through relevant env vars
-            OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-            ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-            MONGODB_MCP_URL: process.env.MONGODB_MCP_URL,
-            NEO4J_URI: process.env.NEO4J_URI,
-            NEO4J_USER: process.env.NEO4J_USER,
-            NEO4J_PASSWORD: process.env.NEO4J_PASSWORD,
-          },
-        });
+    // Pipelines and the restart loop may race to connect
+    if (!this.connecting) {
+      this.connecting = this.start().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
 
-        this.mcpProcess.stdout?.on('data', (data: Buffer) => {
-          this.handleStdout(data.toString());
-        });
+  private async start(): Promise<void> {
+    this.stopping = false;
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onerror = (error) => {
+      this.recordError(error.message);
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      } else {
+        console.error('[MCPBridge] Transport error:', error.message);
+      }
+    };
+    this.transport.onclose = (reason) => this.handleClose(reason);
+    this.transport.onsessionexpired = () => this.initialize();
 
-        this.mcpProcess.stderr?.on('data', (data: Buffer) => {
-          console.error('[MCP stderr]:', data.toString());
-        });
+    await this.transport.start();
+    this.isStarted = true;
 
-        this.mcpProcess.on('error', (error) => {
-          this.emit('error', error);
-          reject(error);
-        });
+    try {
+      await this.initialize();
+    } catch (error) {
+      await this.transport.close();
+      throw error;
+    }
 
-        this.mcpProcess.on('close', (code) => {
-          this.isConnected = false;
-          this.emit('disconnected');
-          console.log(`[MCPBridge] Process exited with code ${code}`);
-        });
+    this.isConnected = true;
+    this.emit('connected');
 
-        // Wait a bit for process to start
-        setTimeout(() => {
-          this.isConnected = true;
-          this.emit('connected');
-          resolve();
-        }, 1000);
-      } catch (error) {
-        reject(error);
+    if (this.restartAttempt > 0) {
+      this.restartCount++;
+      this.restartAttempt = 0;
+      if (this.restartTimer) {
+        clearTimeout(this.restartTimer);
+        this.restartTimer = null;
       }
-    });
+    }
+
+    // Ask for log messages so they can be surfaced as pipeline content
+    if (this.serverInfo?.capabilities?.logging) {
+      this.sendRequest('logging/setLevel', { level: 'info' }).catch((error) => {
+        console.warn('[MCPBridge] Could not set log level:', error.message);
+      });
+    }
+  }
+
+  /**
+   * Transport closed: fail everything in flight and restart unless we asked for it
+   */
+  private handleClose(reason: string): void {
+    const wasConnected = this.isConnected;
+    this.isStarted = false;
+    this.isConnected = false;
+    this.serverInfo = null;
+    this.toolsCache = null;
+    this.progressContexts.clear();
+
+    for (const id of [...this.pendingRequests.keys()]) {
+      this.failRequest(id, `MCP server disconnected: ${reason}`);
+    }
+
+    this.emit('disconnected');
+    console.log(`[MCPBridge] Transport closed: ${reason}`);
+
+    if (wasConnected && !this.stopping) {
+      this.recordError(`MCP server exited unexpectedly: ${reason}`);
+      this.scheduleRestart();
+    }
   }
 
   /**
-   * Handle stdout from MCP process
+   * Reconnect with exponential backoff until the server comes back
    */
-  private handleStdout(data: string): void {
-    this.responseBuffer += data;
+  private scheduleRestart(): void {
+    if (this.restartTimer) return;
 
-    // Try to parse complete JSON-RPC messages
-    const lines = this.responseBuffer.split('\n');
-    this.responseBuffer = lines.pop() || '';
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** this.restartAttempt, RESTART_MAX_DELAY_MS);
+    this.restartAttempt++;
+    this.emit('restarting', this.restartAttempt, delay);
+    console.log(`[MCPBridge] Restarting in ${delay}ms (attempt ${this.restartAttempt})`);
 
-    for (const line of lines) {
-      if (!line.trim()) continue;
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = null;
+      if (this.stopping) return;
 
       try {
-        const response = JSON.parse(line) as MCPResponse;
-        this.handleResponse(response);
-      } catch {
-        // Not valid JSON, might be log output
-        console.log('[MCP output]:', line);
+        await this.connect();
+      } catch (error) {
+        this.recordError(`Restart failed: ${(error as Error).message}`);
+        if (!this.stopping) {
+          this.scheduleRestart();
+        }
       }
+    }, delay);
+  }
+
+  private recordError(message: string): void {
+    this.lastError = { message, at: new Date() };
+  }
+
+  /**
+   * MCP initialize handshake: negotiate protocol version and capabilities
+   */
+  private async initialize(): Promise<void> {
+    const result = await this.sendRequest(
+      'initialize',
+      {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      },
+      { timeoutMs: INITIALIZE_TIMEOUT_MS }
+    ) as MCPServerInfo;
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(`Unsupported MCP protocol version: ${result.protocolVersion}`);
+    }
+
+    this.serverInfo = result;
+    this.transport.setProtocolVersion?.(result.protocolVersion);
+    this.sendNotification('notifications/initialized');
+
+    console.log(
+      `[MCPBridge] Connected to ${result.serverInfo?.name || 'MCP server'} (protocol ${result.protocolVersion})`
+    );
+  }
+
+  /**
+   * Dispatch an incoming JSON-RPC message
+   */
+  private handleMessage(message: MCPMessage): void {
+    if (!('method' in message)) {
+      this.handleResponse(message);
+    } else if ('id' in message) {
+      this.handleServerRequest(message);
+    } else {
+      this.handleNotification(message);
     }
   }
 
@@ -191,6 +347,7 @@ export class MCPBridge extends EventEmitter {
     }
 
     this.pendingRequests.delete(response.id);
+    pending.cleanup();
 
     if (response.error) {
       pending.reject(new Error(response.error.message));
@@ -199,51 +356,228 @@ export class MCPBridge extends EventEmitter {
     }
   }
 
+  /**
+   * Answer requests initiated by the server
+   */
+  private handleServerRequest(request: MCPRequest): void {
+    if (request.method === 'ping') {
+      this.respond({ jsonrpc: '2.0', id: request.id, result: {} });
+      return;
+    }
+
+    this.respond({
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: METHOD_NOT_FOUND, message: `Method not supported: ${request.method}` },
+    });
+  }
+
+  private respond(response: MCPResponse): void {
+    this.write(response).catch((error) => {
+      console.warn('[MCPBridge] Failed to answer server request:', error.message);
+    });
+  }
+
+  /**
+   * Handle server notifications (progress, logs, list changes)
+   */
+  private handleNotification(notification: MCPNotification): void {
+    const params = notification.params || {};
+
+    switch (notification.method) {
+      case 'notifications/progress':
+        this.handleProgress(params);
+        break;
+      case 'notifications/message':
+        this.handleLogMessage(params);
+        break;
+      case 'notifications/tools/list_changed':
+        this.toolsCache = null;
+        break;
+      case 'notifications/cancelled':
+        // The id names a request the server sent us. Those are answered with
+        // a ping result or METHOD_NOT_FOUND straight away, so there is nothing to stop.
+        console.log(`[MCPBridge] Server cancelled its request ${params.requestId}: ${params.reason || 'no reason'}`);
+        break;
+      default:
+        console.log('[MCPBridge] Unhandled notification:', notification.method);
+    }
+  }
+
+  /**
+   * Translate notifications/progress into pipeline:progress
+   */
+  private handleProgress(params: Record<string, unknown>): void {
+    const { progressToken, progress, total, message } = params as {
+      progressToken: string | number;
+      progress: number;
+      total?: number;
+      message?: string;
+    };
+
+    const context = this.progressContexts.get(progressToken);
+    if (!context) return;
+
+    const pipelineName = this.resolvePipeline(context, message);
+    if (!pipelineName) return;
+
+    this.markStarted(context, pipelineName);
+
+    // Without a total the run length is unknown, so stay one turn ahead
+    const turn = Math.round(progress);
+    const maxTurns = total ? Math.round(total) : turn + 1;
+    this.emit('pipeline:progress', pipelineName, turn, maxTurns, context.runId);
+
+    if (message) {
+      this.emit('pipeline:content', pipelineName, message, context.runId);
+    }
+  }
+
+  /**
+   * Translate notifications/message (server logs) into pipeline:content
+   */
+  private handleLogMessage(params: Record<string, unknown>): void {
+    const { level, logger, data } = params as { level: string; logger?: string; data: unknown };
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+
+    // Logs have no progress token, so only attribute them when a pipeline is named
+    for (const context of this.progressContexts.values()) {
+      const pipelineName = this.resolvePipeline(context, `${logger || ''} ${text}`, false);
+      if (pipelineName) {
+        this.markStarted(context, pipelineName);
+        this.emit('pipeline:content', pipelineName, text, context.runId);
+        return;
+      }
+    }
+
+    console.log(`[MCP log:${level}]${logger ? ` ${logger}:` : ''}`, text);
+  }
+
+  /**
+   * Work out which pipeline a notification belongs to
+   */
+  private resolvePipeline(
+    context: ProgressContext,
+    text?: string,
+    allowFallback: boolean = true
+  ): string | undefined {
+    const candidates = context.pipelines.length > 0 ? context.pipelines : PIPELINE_NAMES;
+    const mentioned = text ? candidates.find((name) => text.includes(name)) : undefined;
+    if (mentioned || !allowFallback) return mentioned;
+
+    // A single-pipeline run owns all of its progress
+    return context.pipelines.length === 1 ? context.pipelines[0] : undefined;
+  }
+
+  /**
+   * Emit pipeline:started the first time a pipeline shows up in a run
+   */
+  private markStarted(context: ProgressContext, pipelineName: string): void {
+    if (context.started.has(pipelineName)) return;
+    context.started.add(pipelineName);
+    this.emit('pipeline:started', pipelineName, context.runId);
+  }
+
+  /**
+   * Reject a pending request without waiting for a response
+   */
+  private failRequest(id: number, reason: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(id);
+    pending.cleanup();
+    pending.reject(new Error(reason));
+  }
+
+  /**
+   * Write a JSON-RPC message to the server
+   */
+  private write(message: MCPMessage): Promise<void> {
+    if (!this.isStarted) {
+      return Promise.reject(new Error('MCP not connected'));
+    }
+    return this.transport.send(message);
+  }
+
+  /**
+   * Send a notification (no response expected)
+   */
+  private sendNotification(method: string, params?: Record<string, unknown>): void {
+    this.write({ jsonrpc: '2.0', method, params }).catch((error) => {
+      console.warn(`[MCPBridge] Failed to send ${method}:`, error.message);
+    });
+  }
+
   /**
    * Send request to MCP server
    */
-  private async sendRequest(method: string, params?: Record<string, unknown>): Promise<unknown> {
-    if (!this.isConnected || !this.mcpProcess?.stdin) {
+  private async sendRequest(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    // Only the handshake may run before initialization completes
+    if (!this.isStarted || (!this.isConnected && method !== 'initialize')) {
       throw new Error('MCP not connected');
     }
 
+    const { signal, progressToken, timeoutMs = REQUEST_TIMEOUT_MS } = options;
+    if (signal?.aborted) {
+      throw new Error('MCP request cancelled');
+    }
+
     const id = ++this.requestId;
     const request: MCPRequest = {
       jsonrpc: '2.0',
       id,
       method,
-      params,
+      params: progressToken !== undefined ? { ...params, _meta: { progressToken } } : params,
     };
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
-
-      const requestStr = JSON.stringify(request) + '\n';
-      this.mcpProcess!.stdin!.write(requestStr, (error) => {
-        if (error) {
-          this.pendingRequests.delete(id);
-          reject(error);
+      const timeout = setTimeout(() => {
+        if (this.pendingRequests.has(id)) {
+          this.sendNotification('notifications/cancelled', { requestId: id, reason: 'Request timed out' });
+          this.failRequest(id, 'MCP request timeout');
         }
-      });
+      }, timeoutMs);
 
-      // Timeout after 5 minutes
-      setTimeout(() => {
+      const onAbort = () => {
         if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error('MCP request timeout'));
+          this.sendNotification('notifications/cancelled', { requestId: id, reason: 'Cancelled by client' });
+          this.failRequest(id, 'MCP request cancelled');
         }
-      }, 5 * 60 * 1000);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(id, {
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      });
+
+      this.write(request).catch((error) => {
+        this.failRequest(id, error.message);
+      });
     });
   }
 
   /**
    * Call MCP tool
    */
-  async callTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
+  async callTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<MCPToolResult> {
     return this.sendRequest('tools/call', {
       name: toolName,
       arguments: args,
-    });
+    }, options) as Promise<MCPToolResult>;
   }
 
   /**
@@ -252,38 +586,65 @@ export class MCPBridge extends EventEmitter {
   async analyzeQuery(
     query: string,
     documentContext?: DocumentContext,
-    debug: boolean = false
+    debug: boolean = false,
+    options: AnalyzeOptions = {}
   ): Promise<AnalysisResult> {
-    const result = await this.callTool('analyze_query', {
-      query,
-      documentContext,
-      debug,
-    });
+    const { runId, pipelines = [], signal } = options;
+
+    // Progress notifications for this call carry our token back
+    const progressToken = runId || `analyze-${this.requestId + 1}`;
+    const context: ProgressContext = { runId, pipelines, started: new Set() };
+    this.progressContexts.set(progressToken, context);
+    pipelines.forEach((name) => this.markStarted(context, name));
+
+    let result: MCPToolResult;
+    try {
+      result = await this.callTool('analyze_query', {
+        query,
+        documentContext,
+        debug,
+        pipelines: options.pipelines,
+      }, { signal, progressToken });
+    } finally {
+      this.progressContexts.delete(progressToken);
+    }
 
     // Parse the result
     if (typeof result === 'object' && result !== null) {
-      const content = (result as { content?: Array<{ text?: string }> }).content;
+      const { content, isError, structuredContent } = result as Partial<MCPToolResult>;
       if (Array.isArray(content) && content[0]?.text) {
         const text = content[0].text;
 
+        if (isError) {
+          throw new Error(text);
+        }
+
         // Check if debug mode returned JSON
         if (debug && text.startsWith('# DEBUG MODE')) {
           try {
             const jsonStart = text.indexOf('{');
             const jsonStr = text.substring(jsonStart);
-            return JSON.parse(jsonStr) as AnalysisResult;
+            const analysis = JSON.parse(jsonStr) as AnalysisResult;
+            analysis.pipelineResults.forEach((r) => {
+              r.editIntents = this.parseEditIntents(r.editIntents, documentContext);
+              this.emit('pipeline:complete', r.pipelineName, r, runId);
+            });
+            analysis.editIntents = this.parseEditIntents(analysis.editIntents, documentContext);
+            return analysis;
           } catch {
             // Fall through to text result
           }
         }
 
-        // Non-debug mode returns consolidated report
+        // Non-debug mode returns consolidated report, with edit intents in
+        // structuredContent when the server sends them
         return {
           query,
           sessionId: 'unknown',
-          pipelinesUsed: [],
+          pipelinesUsed: pipelines,
           pipelineResults: [],
           consolidatedReport: text,
+          editIntents: this.parseEditIntents(structuredContent?.editIntents, documentContext),
         };
       }
     }
@@ -292,22 +653,79 @@ export class MCPBridge extends EventEmitter {
   }
 
   /**
-   * List available tools
+   * Keep well-formed edit intents whose blocks are in the document the
+   * analysis was given. The server's output is not trusted to name real blocks.
    */
-  async listTools(): Promise<unknown> {
-    return this.sendRequest('tools/list', {});
+  private parseEditIntents(
+    value: unknown,
+    documentContext: DocumentContext | undefined
+  ): EditIntentDeclaration[] | undefined {
+    if (!Array.isArray(value) || !documentContext) return undefined;
+
+    const intents: EditIntentDeclaration[] = [];
+    for (const item of value as Array<Partial<EditIntentDeclaration>>) {
+      const section = documentContext.sections.find((s) => s.id === item?.sectionId);
+      if (!section || !Array.isArray(item.blockIds)) continue;
+
+      const blockIds = item.blockIds.filter((id) => section.blockIds.includes(id));
+      if (blockIds.length === 0) continue;
+
+      intents.push({
+        sectionId: section.id,
+        sectionType: section.type,
+        blockIds,
+        reason: typeof item.reason === 'string' ? item.reason : '',
+      });
+    }
+    return intents;
+  }
+
+  /**
+   * List available tools. The list is cached until the server reports a change.
+   */
+  async listTools(forceRefresh: boolean = false): Promise<MCPTool[]> {
+    if (this.toolsCache && !forceRefresh) {
+      return this.toolsCache;
+    }
+
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.sendRequest('tools/list', cursor ? { cursor } : {}) as {
+        tools: MCPTool[];
+        nextCursor?: string;
+      };
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    this.toolsCache = tools;
+    return tools;
+  }
+
+  /**
+   * Server info and capabilities from the initialize handshake
+   */
+  get server(): MCPServerInfo | null {
+    return this.serverInfo;
   }
 
   /**
    * Disconnect from MCP server
    */
   async disconnect(): Promise<void> {
-    if (this.mcpProcess) {
-      this.mcpProcess.kill();
-      this.mcpProcess = null;
+    this.stopping = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
     }
-    this.isConnected = false;
-    this.emit('disconnected');
+    this.restartAttempt = 0;
+
+    if (!this.isStarted) {
+      return;
+    }
+    // The transport's onclose resets state and emits 'disconnected'
+    await this.transport.close();
   }
 
   /**
@@ -316,6 +734,28 @@ export class MCPBridge extends EventEmitter {
   get connected(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Snapshot of bridge health. Fetches the tool list if it is not cached yet.
+   */
+  async health(): Promise<MCPBridgeHealth> {
+    let tools: MCPTool[] = this.toolsCache || [];
+    if (this.isConnected && !this.toolsCache) {
+      tools = await this.listTools().catch(() => []);
+    }
+
+    return {
+      status: this.isConnected ? 'connected' : this.restartTimer ? 'restarting' : 'disconnected',
+      mock: false,
+      server: this.serverInfo?.serverInfo || null,
+      restarts: this.restartCount,
+      lastError: this.lastError
+        ? { message: this.lastError.message, at: this.lastError.at.toISOString() }
+        : null,
+      pendingRequests: this.pendingRequests.size,
+      tools: tools.map((t) => t.name),
+    };
+  }
 }
 
 /**
@@ -325,6 +765,9 @@ export class MCPBridge extends EventEmitter {
 export class MockMCPBridge extends EventEmitter {
   private isConnected: boolean = false;
 
+  // Turns are simulated here, so the checkpoint is awaited between them
+  readonly supportsPause = true;
+
   async connect(): Promise<void> {
     this.isConnected = true;
     this.emit('connected');
@@ -339,25 +782,74 @@ export class MockMCPBridge extends EventEmitter {
     return this.isConnected;
   }
 
+  async health(): Promise<MCPBridgeHealth> {
+    return {
+      status: this.isConnected ? 'connected' : 'disconnected',
+      mock: true,
+      server: null,
+      restarts: 0,
+      lastError: null,
+      pendingRequests: 0,
+      tools: (await this.listTools()).map((t) => t.name),
+    };
+  }
+
+  async listTools(): Promise<MCPTool[]> {
+    return [
+      {
+        name: 'analyze_query',
+        description: 'Run the Insights Engine pipelines for a game design query and return a consolidated report',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Question to analyze' },
+            pipelines: {
+              type: 'array',
+              items: { type: 'string', enum: PIPELINE_NAMES },
+              description: 'Restrict the analysis to these pipelines',
+            },
+          },
+          required: ['query'],
+        },
+      },
+    ];
+  }
+
+  async callTool(toolName: string, args: Record<string, unknown>): Promise<MCPToolResult> {
+    if (toolName !== 'analyze_query') {
+      return { content: [{ type: 'text', text: `Unknown tool: ${toolName}` }], isError: true };
+    }
+
+    const analysis = await this.analyzeQuery(String(args.query || ''), undefined, false, {
+      pipelines: Array.isArray(args.pipelines) ? (args.pipelines as string[]) : undefined,
+    });
+    return { content: [{ type: 'text', text: analysis.consolidatedReport }] };
+  }
+
   async analyzeQuery(
     query: string,
     documentContext?: DocumentContext,
-    debug: boolean = false
+    debug: boolean = false,
+    options: AnalyzeOptions = {}
   ): Promise<AnalysisResult> {
+    const { runId, checkpoint } = options;
+
     // Simulate pipeline execution
     await this.simulateDelay(500);
 
-    const pipelinesUsed = this.selectPipelines(query);
+    const pipelinesUsed = options.pipelines || this.selectPipelines(query, documentContext);
     const pipelineResults: PipelineResult[] = [];
 
     for (const pipelineName of pipelinesUsed) {
-      this.emit('pipeline:started', pipelineName);
+      await checkpoint?.();
+      this.emit('pipeline:started', pipelineName, runId);
 
       // Simulate turns
       const maxTurns = 3 + Math.floor(Math.random() * 3);
       for (let turn = 1; turn <= maxTurns; turn++) {
         await this.simulateDelay(200);
-        this.emit('pipeline:progress', pipelineName, turn, maxTurns);
+        await checkpoint?.();
+        this.emit('pipeline:progress', pipelineName, turn, maxTurns, runId);
       }
 
       const result: PipelineResult = {
@@ -370,7 +862,8 @@ export class MockMCPBridge extends EventEmitter {
       };
 
       pipelineResults.push(result);
-      this.emit('pipeline:complete', pipelineName, result);
+      this.emit('pipeline:content', pipelineName, `[${pipelineName}] Finished after ${maxTurns} turns`, runId);
+      this.emit('pipeline:complete', pipelineName, result, runId);
     }
 
     return {
@@ -383,35 +876,12 @@ export class MockMCPBridge extends EventEmitter {
     };
   }
 
-  private selectPipelines(query: string): string[] {
-    const lowerQuery = query.toLowerCase();
-    const pipelines: string[] = [];
-
-    if (lowerQuery.includes('design') || lowerQuery.includes('concept')) {
-      pipelines.push('knowledge_base');
-    }
-    if (lowerQuery.includes('metric') || lowerQuery.includes('performance')) {
-      pipelines.push('tableau');
-    }
-    if (lowerQuery.includes('competitor') || lowerQuery.includes('market')) {
-      pipelines.push('bigwinboard');
-    }
-    if (lowerQuery.includes('math') || lowerQuery.includes('rtp')) {
-      pipelines.push('aboutslots');
-    }
-    if (lowerQuery.includes('mechanic') || lowerQuery.includes('feature')) {
-      pipelines.push('slot_graph');
-    }
-    if (lowerQuery.includes('document') || lowerQuery.includes('confluence')) {
-      pipelines.push('confluence');
-    }
-
-    // Default to knowledge_base if no matches
-    if (pipelines.length === 0) {
-      pipelines.push('knowledge_base');
-    }
-
-    return pipelines;
+  private selectPipelines(query: string, documentContext?: DocumentContext): string[] {
+    // Same scorer as PipelineOrchestrator so both agree on routing
+    return localPipelineRouter
+      .score(query, { sectionTypes: documentContext?.sections.map((s) => s.type) })
+      .filter((d) => d.selected)
+      .map((d) => d.pipelineName);
   }
 
   private generateEditIntents(
@@ -0,0 +1,440 @@
+/**
+ * MCP Transports
+ *
+ * Message transports used by MCPBridge. The stdio transport spawns a local
+ * MCP server; the streamable HTTP transport talks to a shared, long-running
+ * server over POST + server-sent events. Select with MCP_TRANSPORT=stdio|http.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import * as path from 'path';
+import type { MCPMessage } from './MCPBridge';
+
+export interface MCPTransport {
+  onmessage?: (message: MCPMessage) => void;
+  onclose?: (reason: string) => void;
+  onerror?: (error: Error) => void;
+  // Called when the server dropped our session; the bridge re-runs the handshake
+  onsessionexpired?: () => Promise<void>;
+
+  start(): Promise<void>;
+  send(message: MCPMessage): Promise<void>;
+  close(): Promise<void>;
+  setProtocolVersion?(version: string): void;
+}
+
+/**
+ * Spawned child process speaking newline-delimited JSON-RPC on stdio
+ */
+export class StdioTransport implements MCPTransport {
+  onmessage?: (message: MCPMessage) => void;
+  onclose?: (reason: string) => void;
+  onerror?: (error: Error) => void;
+
+  private process: ChildProcess | null = null;
+  private buffer: string = '';
+
+  constructor(
+    private cwd: string,
+    private command: string = 'node',
+    private args: string[] = ['index.js']
+  ) {}
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        cwd: this.cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: {
+          ...process.env,
+          // Pass through relevant env vars
+          OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+          ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+          MONGODB_MCP_URL: process.env.MONGODB_MCP_URL,
+          NEO4J_URI: process.env.NEO4J_URI,
+          NEO4J_USER: process.env.NEO4J_USER,
+          NEO4J_PASSWORD: process.env.NEO4J_PASSWORD,
+        },
+      });
+
+      child.stdout?.on('data', (data: Buffer) => {
+        this.handleStdout(data.toString());
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        console.error('[MCP stderr]:', data.toString());
+      });
+
+      child.on('spawn', () => resolve());
+
+      child.on('error', (error) => {
+        this.onerror?.(error);
+        reject(error);
+      });
+
+      child.on('close', (code) => {
+        this.process = null;
+        this.buffer = '';
+        this.onclose?.(`process exited with code ${code}`);
+      });
+
+      this.process = child;
+    });
+  }
+
+  /**
+   * Split stdout into JSON-RPC messages
+   */
+  private handleStdout(data: string): void {
+    this.buffer += data;
+
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: MCPMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Not valid JSON, might be log output
+        console.log('[MCP output]:', line);
+        continue;
+      }
+
+      this.onmessage?.(message);
+    }
+  }
+
+  async send(message: MCPMessage): Promise<void> {
+    const stdin = this.process?.stdin;
+    if (!stdin) {
+      throw new Error('MCP not connected');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(JSON.stringify(message) + '\n', (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    const child = this.process;
+    if (!child) return;
+
+    // Wait for the exit so onclose has fired before a reconnect
+    await new Promise<void>((resolve) => {
+      child.once('close', () => resolve());
+      child.kill();
+    });
+  }
+}
+
+export interface HttpTransportOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  headers?: Record<string, string>;
+}
+
+// Statuses worth retrying: the server or a proxy in front of it is restarting
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * MCP streamable HTTP transport.
+ * Requests are POSTed; replies come back as JSON or an SSE stream. A standalone
+ * GET stream carries server-initiated messages and is resumed with Last-Event-ID.
+ */
+export class StreamableHttpTransport implements MCPTransport {
+  onmessage?: (message: MCPMessage) => void;
+  onclose?: (reason: string) => void;
+  onerror?: (error: Error) => void;
+  onsessionexpired?: () => Promise<void>;
+
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private lastEventId: string | null = null;
+  private abortController = new AbortController();
+  private closed = false;
+  private streaming = false;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private extraHeaders: Record<string, string>;
+
+  constructor(private url: string, options: HttpTransportOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.extraHeaders = options.headers || {};
+  }
+
+  async start(): Promise<void> {
+    this.closed = false;
+    this.abortController = new AbortController();
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: MCPMessage): Promise<void> {
+    const isInitialize = 'method' in message && message.method === 'initialize';
+    if (isInitialize) {
+      // A new handshake always starts a new session
+      this.sessionId = null;
+    }
+
+    let response = await this.post(message);
+
+    if (response.status === 404 && this.sessionId && !isInitialize) {
+      // Session expired on the server: re-initialize, then replay once
+      this.sessionId = null;
+      await this.onsessionexpired?.();
+      response = await this.post(message);
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`MCP HTTP ${response.status}: ${body || response.statusText}`);
+    }
+
+    // Notifications and responses are just acknowledged
+    if (response.status === 202) {
+      if ('method' in message && message.method === 'notifications/initialized') {
+        this.openEventStream();
+      }
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // Replies stream in the background; send() resolves once the POST is accepted
+      this.readEventStream(response).catch((error) => this.handleStreamError(error));
+    } else if (contentType.includes('application/json')) {
+      const body = await response.json();
+      const messages: MCPMessage[] = Array.isArray(body) ? body : [body];
+      messages.forEach((m) => this.onmessage?.(m));
+    }
+  }
+
+  /**
+   * POST one message, retrying network failures and gateway errors with backoff.
+   * Once the retries run out the server counts as gone and the transport closes,
+   * so the bridge's restart loop takes over.
+   */
+  private async post(message: MCPMessage): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(this.url, {
+          method: 'POST',
+          headers: this.buildHeaders({
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          }),
+          body: JSON.stringify(message),
+          signal: this.abortController.signal,
+        });
+
+        if (!RETRYABLE_STATUSES.includes(response.status)) {
+          return response;
+        }
+        if (attempt >= this.maxRetries) {
+          this.fail(`server unavailable (HTTP ${response.status})`);
+          return response;
+        }
+      } catch (error) {
+        if (this.closed) {
+          throw error;
+        }
+        if (attempt >= this.maxRetries) {
+          this.fail(`server unreachable: ${(error as Error).message}`);
+          throw error;
+        }
+      }
+
+      await this.backoff(attempt);
+    }
+  }
+
+  /**
+   * Open (or resume) the standalone GET stream for server-initiated messages
+   */
+  private async openEventStream(): Promise<void> {
+    if (this.streaming) return;
+    this.streaming = true;
+
+    let attempt = 0;
+    try {
+      while (!this.closed) {
+        try {
+          const response = await fetch(this.url, {
+            method: 'GET',
+            headers: this.buildHeaders({
+              Accept: 'text/event-stream',
+              ...(this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {}),
+            }),
+            signal: this.abortController.signal,
+          });
+
+          // Servers may not offer a standalone stream at all
+          if (response.status === 405) return;
+          if (!response.ok) {
+            throw new Error(`MCP event stream HTTP ${response.status}`);
+          }
+
+          attempt = 0;
+          await this.readEventStream(response);
+        } catch (error) {
+          if (this.closed) return;
+          if (attempt >= this.maxRetries) {
+            console.warn('[MCPTransport] Giving up on event stream:', (error as Error).message);
+            return;
+          }
+        }
+
+        await this.backoff(attempt++);
+      }
+    } finally {
+      this.streaming = false;
+    }
+  }
+
+  /**
+   * Parse an SSE body into JSON-RPC messages
+   */
+  private async readEventStream(response: Response): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        this.handleEvent(event);
+      }
+    }
+  }
+
+  /**
+   * Handle one SSE event block
+   */
+  private handleEvent(event: string): void {
+    let eventType = 'message';
+    const data: string[] = [];
+
+    for (const line of event.split(/\r?\n/)) {
+      if (line.startsWith('id:')) {
+        this.lastEventId = line.slice(3).trim();
+      } else if (line.startsWith('event:')) {
+        eventType = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (eventType !== 'message' || data.length === 0) return;
+
+    try {
+      this.onmessage?.(JSON.parse(data.join('\n')));
+    } catch {
+      console.warn('[MCPTransport] Ignoring malformed SSE data:', data.join('\n'));
+    }
+  }
+
+  /**
+   * A reply stream dropped mid-request; resume it on the GET stream
+   */
+  private handleStreamError(error: Error): void {
+    if (this.closed) return;
+    this.onerror?.(error);
+    if (this.lastEventId) {
+      this.openEventStream();
+    }
+  }
+
+  private buildHeaders(headers: Record<string, string>): Record<string, string> {
+    return {
+      ...this.extraHeaders,
+      ...headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    };
+  }
+
+  private backoff(attempt: number): Promise<void> {
+    const delay = Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+    // Jitter keeps many clients from reconnecting in lockstep
+    return new Promise((resolve) => setTimeout(resolve, delay * (0.5 + Math.random() / 2)));
+  }
+
+  /**
+   * Close without telling the server, which is not answering anyway
+   */
+  private fail(reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.abortController.abort();
+    this.sessionId = null;
+    this.lastEventId = null;
+    this.onclose?.(reason);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    // Tell the server it can drop the session
+    if (this.sessionId) {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: this.buildHeaders({}),
+      }).catch(() => undefined);
+    }
+
+    this.abortController.abort();
+    this.sessionId = null;
+    this.lastEventId = null;
+    this.onclose?.('transport closed');
+  }
+}
+
+/**
+ * Build the transport selected by environment config
+ */
+export function createMCPTransport(): MCPTransport {
+  if (process.env.MCP_TRANSPORT === 'http') {
+    const url = process.env.MCP_SERVER_URL;
+    if (!url) {
+      throw new Error('MCP_SERVER_URL is required when MCP_TRANSPORT=http');
+    }
+    return new StreamableHttpTransport(url, {
+      headers: process.env.MCP_AUTH_TOKEN
+        ? { Authorization: `Bearer ${process.env.MCP_AUTH_TOKEN}` }
+        : undefined,
+    });
+  }
+
+  return new StdioTransport(
+    process.env.MCP_SERVER_PATH || path.join(
+      process.cwd(),
+      'sandbox',
+      'insight-engine-mcp',
+      'mcp',
+      'insights_engine'
+    )
+  );
+}
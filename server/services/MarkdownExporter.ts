@@ -0,0 +1,193 @@
+/**
+ * Markdown Exporter
+ *
+ * Serializes a document back into the directive-annotated markdown format that
+ * TemplateParser reads: a DOCUMENT METADATA header, numbered sections with
+ * SECTION_ID/PIPELINE directives, and blocks introduced by CHUNK directives.
+ * Parsing the output with templateParser.parseTemplate reproduces the same
+ * sections, blocks, directives and content.
+ */
+
+import type { DocumentTree, DocumentTreeBlock, DocumentTreeSection } from './DocumentTree';
+import type { BlockDirectives, ConstraintsDirective, PipelineDirective, SectionDirectives } from '../types/template';
+
+// Directives written from structured fields; any other raw directive is passed through
+const GENERATED_DIRECTIVES = ['SECTION_ID', 'CHUNK', 'BLOCK_TYPE', 'ENTITY_TYPES', 'RELATIONSHIPS', 'PIPELINE', 'CONSTRAINTS'];
+
+// Content keys TemplateParser derives from plain markdown text
+const TEXT_CONTENT_KEYS = ['text', 'feature', 'mathModel'];
+
+export class MarkdownExporter {
+  serialize(tree: DocumentTree): string {
+    const { document, sections } = tree;
+    const parts = [`# ${document.fileName}`, this.serializeMetadata(tree)];
+
+    sections.forEach((section, index) => {
+      parts.push(this.serializeSection(section, index + 1));
+    });
+
+    return parts.join('\n\n') + '\n';
+  }
+
+  private serializeMetadata({ document, sections }: DocumentTree): string {
+    const metadata = (document.metadata || {}) as Record<string, unknown>;
+    const blocks = sections.flatMap((s) => s.blocks);
+    const totalEntities = blocks.reduce(
+      (acc, b) => acc + (Array.isArray(b.entities) ? b.entities.length : 0),
+      0
+    );
+
+    const fields: [string, unknown][] = [
+      ['VERSION', document.version],
+      ['STATUS', document.status],
+      ['CREATED', new Date(document.createdAt).toISOString()],
+      ['UPDATED', new Date(document.updatedAt).toISOString()],
+      ['AUTHOR', metadata.author],
+      ['GENERATION_MODE', metadata.generationMode],
+      ['PARENT_DOCUMENT_ID', metadata.parentDocumentId],
+      ['TOTAL_CHUNKS', blocks.length],
+      ['TOTAL_ENTITIES', totalEntities],
+    ];
+
+    const lines = fields
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => `<!-- ${key}: ${value} -->`);
+
+    return ['<!-- DOCUMENT METADATA -->', ...lines, '<!-- END METADATA -->'].join('\n');
+  }
+
+  private serializeSection(section: DocumentTreeSection, number: number): string {
+    const directives = (section.directives || {}) as SectionDirectives;
+    const lines = [
+      `## ${number}. ${section.title || section.type}`,
+      `<!-- SECTION_ID: ${directives.sectionId || section.type} -->`,
+    ];
+
+    if (directives.pipeline) {
+      lines.push(`<!-- PIPELINE: ${this.formatPipeline(directives.pipeline)} -->`);
+    }
+    lines.push(...this.passthroughDirectives(directives.raw));
+
+    return [lines.join('\n'), ...section.blocks.map((block) => this.serializeBlock(block))].join('\n\n');
+  }
+
+  private serializeBlock(block: DocumentTreeBlock): string {
+    const directives = (block.directives || {}) as BlockDirectives;
+    const chunk = [directives.chunk?.id || block.id, `POSITION: ${block.position}`];
+
+    if (directives.chunk?.entityRange) {
+      chunk.push(`ENTITIES: ${directives.chunk.entityRange.min}-${directives.chunk.entityRange.max}`);
+    }
+
+    const lines = [`<!-- CHUNK: ${chunk.join(' | ')} -->`, `<!-- BLOCK_TYPE: ${block.type} -->`];
+
+    if (directives.entityTypes?.types.length) {
+      lines.push(`<!-- ENTITY_TYPES: ${directives.entityTypes.types.join(', ')} -->`);
+    }
+    if (directives.relationships?.patterns.length) {
+      const patterns = directives.relationships.patterns.map((p) => `${p.type} -> ${p.targetType}`);
+      lines.push(`<!-- RELATIONSHIPS: ${patterns.join(', ')} -->`);
+    }
+    if (directives.pipeline) {
+      lines.push(`<!-- PIPELINE: ${this.formatPipeline(directives.pipeline)} -->`);
+    }
+    if (directives.constraints) {
+      const constraints = this.formatConstraints(directives.constraints);
+      if (constraints) lines.push(`<!-- CONSTRAINTS: ${constraints} -->`);
+    }
+    lines.push(...this.passthroughDirectives(directives.raw));
+
+    return `${lines.join('\n')}\n${this.serializeContent(block.type, block.content || {})}`;
+  }
+
+  /**
+   * Headings, tables and text render as markdown when TemplateParser reads them
+   * back to the same content; anything else is written as a JSON code fence.
+   */
+  private serializeContent(blockType: string, content: Record<string, unknown>): string {
+    const keys = Object.keys(content);
+
+    if (blockType === 'heading' && keys.length === 1) {
+      const heading = content.heading as { level?: unknown; text?: unknown } | undefined;
+      if (
+        typeof heading?.level === 'number' &&
+        heading.level >= 1 &&
+        heading.level <= 6 &&
+        typeof heading.text === 'string' &&
+        !heading.text.includes('\n') &&
+        this.isSafeText(heading.text)
+      ) {
+        return `${'#'.repeat(heading.level)} ${heading.text}`;
+      }
+    } else if (blockType === 'metric_table' && keys.length === 1) {
+      const table = content.table as { headers?: unknown; rows?: unknown } | undefined;
+      if (table && this.isSafeTable(table.headers, table.rows)) {
+        return this.formatTable(table.headers as string[], table.rows as string[][]);
+      }
+    } else if (
+      typeof content.text === 'string' &&
+      keys.every((k) => TEXT_CONTENT_KEYS.includes(k)) &&
+      this.isSafeText(content.text)
+    ) {
+      return content.text;
+    }
+
+    // Escaped so strings that look like directives are not read as directives
+    const json = JSON.stringify(content, null, 2).replace(/</g, '\\u003c');
+    return '```json\n' + json + '\n```';
+  }
+
+  private formatTable(headers: string[], rows: string[][]): string {
+    return [
+      `| ${headers.join(' | ')} |`,
+      `| ${headers.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.join(' | ')} |`),
+    ].join('\n');
+  }
+
+  private formatPipeline(pipeline: PipelineDirective): string {
+    return [pipeline.preferred, ...(pipeline.fallback || [])].join(', ');
+  }
+
+  // The directive syntax only has closed ranges, so a lone bound is not written
+  private formatConstraints(constraints: ConstraintsDirective): string {
+    const fields: string[] = [];
+    if (constraints.minWords !== undefined && constraints.maxWords !== undefined) {
+      fields.push(`WORDS: ${constraints.minWords}-${constraints.maxWords}`);
+    }
+    if (constraints.minEntities !== undefined && constraints.maxEntities !== undefined) {
+      fields.push(`ENTITIES: ${constraints.minEntities}-${constraints.maxEntities}`);
+    }
+    if (constraints.strict) fields.push('STRICT');
+    return fields.join(' | ');
+  }
+
+  private passthroughDirectives(raw: string[] | undefined): string[] {
+    return (raw || []).filter((line) => {
+      const match = line.match(/<!--\s*([A-Z_]+):/);
+      return !!match && !GENERATED_DIRECTIVES.includes(match[1]);
+    });
+  }
+
+  // TemplateParser trims content and reads directive and section header lines as structure
+  private isSafeText(text: string): boolean {
+    return (
+      text !== '' &&
+      text === text.trim() &&
+      !text.startsWith('```') &&
+      !text.split('\n').some((line) => /^\s*<!--/.test(line) || /^##\s+\d+\.\s/.test(line))
+    );
+  }
+
+  // TemplateParser trims cells, drops empty ones and splits on every pipe
+  private isSafeTable(headers: unknown, rows: unknown): boolean {
+    const isRow = (row: unknown) =>
+      Array.isArray(row) &&
+      row.length > 0 &&
+      row.every((cell) => typeof cell === 'string' && cell !== '' && cell === cell.trim() && !/[|\n]/.test(cell));
+    return isRow(headers) && Array.isArray(rows) && rows.every(isRow);
+  }
+}
+
+// Singleton instance
+export const markdownExporter = new MarkdownExporter();
@@ -25,6 +25,34 @@ export interface StreamCallbacks {
   onError: (error: Error) => void;
 }
 
+// Function tool offered to the model
+export interface ChatTool {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolCallResult {
+  content: string;
+  isError: boolean;
+}
+
+export interface ToolStreamCallbacks extends StreamCallbacks {
+  // Runs the tool; the result is fed back to the model
+  executeTool: (call: ToolCall) => Promise<ToolCallResult>;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (callId: string, result: ToolCallResult) => void;
+}
+
+// Guards against a model that keeps calling tools forever
+const MAX_TOOL_ROUNDS = 5;
+
 export class OpenAIService {
   private model: string;
 
@@ -75,6 +103,116 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Stream a chat where the model may call function tools.
+   * Tool calls are executed via executeTool and the conversation continues
+   * until the model answers in text or MAX_TOOL_ROUNDS is reached.
+   */
+  async streamChatWithTools(
+    messages: ChatMessage[],
+    tools: ChatTool[],
+    callbacks: ToolStreamCallbacks
+  ): Promise<void> {
+    if (tools.length === 0) {
+      return this.streamChat(messages, callbacks);
+    }
+
+    try {
+      const conversation: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = messages.map(m => ({
+        role: m.role,
+        content: m.content,
+      }));
+      const functionTools: OpenAI.Chat.Completions.ChatCompletionTool[] = tools.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.parameters },
+      }));
+
+      let fullContent = '';
+
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const stream = await this.openai.chat.completions.create({
+          model: this.model,
+          messages: conversation,
+          // Last round must answer in text
+          ...(round < MAX_TOOL_ROUNDS && { tools: functionTools }),
+          stream: true,
+        });
+
+        let roundContent = '';
+        const pendingCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            roundContent += delta.content;
+            fullContent += delta.content;
+            callbacks.onToken(delta.content);
+          }
+
+          // Tool call arguments arrive in fragments keyed by index
+          for (const fragment of delta?.tool_calls || []) {
+            const call = pendingCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          }
+        }
+
+        if (pendingCalls.length === 0) {
+          break;
+        }
+
+        conversation.push({
+          role: 'assistant',
+          content: roundContent || null,
+          tool_calls: pendingCalls.map(c => ({
+            id: c.id,
+            type: 'function' as const,
+            function: { name: c.name, arguments: c.arguments },
+          })),
+        });
+
+        for (const call of pendingCalls) {
+          const result = await this.runToolCall(call, callbacks);
+          callbacks.onToolResult?.(call.id, result);
+          conversation.push({ role: 'tool', tool_call_id: call.id, content: result.content });
+        }
+      }
+
+      callbacks.onComplete(fullContent);
+    } catch (error) {
+      callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Parse arguments and execute one tool call, reporting failures back to the model
+   */
+  private async runToolCall(
+    call: { id: string; name: string; arguments: string },
+    callbacks: ToolStreamCallbacks
+  ): Promise<ToolCallResult> {
+    let args: Record<string, unknown> | null = null;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      // Reported below once the call has been announced
+    }
+
+    const toolCall: ToolCall = { id: call.id, name: call.name, arguments: args || {} };
+    callbacks.onToolCall?.(toolCall);
+
+    if (!args) {
+      return { content: `Invalid JSON arguments for ${call.name}`, isError: true };
+    }
+
+    try {
+      return await callbacks.executeTool(toolCall);
+    } catch (error) {
+      return { content: error instanceof Error ? error.message : String(error), isError: true };
+    }
+  }
+
   // Using OpenAI Responses API (for web search, file search, etc.)
   async responsesChat(
     messages: ChatMessage[],
@@ -0,0 +1,934 @@
+/**
+ * PDF Exporter
+ *
+ * Lays out an export document as a PDF: title page, table of contents with
+ * page numbers and links, then the sections with blocks flowed across pages.
+ * Uses only the standard PDF fonts (Helvetica, Courier, ZapfDingbats) so the
+ * file needs no embedded font data; charts are embedded as images from
+ * ChartRasterizer.
+ */
+
+import * as zlib from 'zlib';
+import type { CardField, ExportDocument, ExportNode } from './DocumentExportModel';
+import { rasterizeChart, type ChartLegendEntry } from './ChartRasterizer';
+import { decodeDataUrlImage, decodePngPixels } from './ExportImages';
+
+// US Letter in points, 0.75" margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_HEIGHT = PAGE_HEIGHT - MARGIN * 2;
+const LINE_HEIGHT = 1.4;
+const BODY_SIZE = 10.5;
+const FRAME_PADDING = 10;
+
+const COLORS = {
+  text: '111827',
+  muted: '6B7280',
+  border: 'D1D5DB',
+  cardFill: 'F9FAFB',
+  headerFill: 'F3F4F6',
+  white: 'FFFFFF',
+  primary: '2563EB',
+  positive: '16A34A',
+  negative: 'DC2626',
+  tag: '7C3AED',
+};
+
+const CALLOUT_COLORS: Record<string, { border: string; fill: string }> = {
+  info: { border: '2563EB', fill: 'EFF6FF' },
+  warning: { border: 'CA8A04', fill: 'FEFCE8' },
+  success: { border: '16A34A', fill: 'F0FDF4' },
+  error: { border: 'DC2626', fill: 'FEF2F2' },
+};
+
+// ============================================
+// Fonts and text measurement
+// ============================================
+
+type FontKey = 'regular' | 'bold' | 'italic' | 'mono' | 'symbol';
+
+const FONTS: Record<FontKey, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' },
+  mono: { name: 'F4', baseFont: 'Courier' },
+  symbol: { name: 'F5', baseFont: 'ZapfDingbats' },
+};
+
+// ZapfDingbats character codes
+const SYMBOLS = { check: '4', cross: '8', square: 'n' };
+
+// Standard 14 font metrics for character codes 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+// Widths for the WinAnsi punctuation above 126 that exports commonly contain
+const EXTENDED_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0xa0: 278, 0xb7: 278,
+};
+
+// Unicode code points that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87, 0x02c6: 0x88,
+  0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93,
+  0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+// WinAnsi byte for a character, or null when the standard fonts cannot show it
+function encodeWinAnsi(char: string): string | null {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) return char;
+  if (WIN_ANSI[code]) return String.fromCharCode(WIN_ANSI[code]);
+  if (code === 9) return ' ';
+  return null;
+}
+
+/**
+ * Map text to WinAnsi byte values; characters outside it become "?"
+ */
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text) {
+    result += encodeWinAnsi(char) ?? '?';
+  }
+  return result;
+}
+
+/**
+ * Count the characters in an export document that the PDF will show as "?",
+ * so the title page and the export response can say so
+ */
+export function countUnsupportedPdfCharacters(doc: ExportDocument): number {
+  let count = 0;
+  const visit = (value: unknown): void => {
+    if (typeof value === 'string') {
+      // Image data URLs are embedded, not drawn as text
+      if (value.startsWith('data:')) return;
+      for (const char of value) {
+        if (char !== '\n' && encodeWinAnsi(char) === null) count++;
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(doc);
+  return count;
+}
+
+function measure(text: string, font: FontKey, size: number): number {
+  const encoded = toWinAnsi(text);
+  if (font === 'mono') return encoded.length * 0.6 * size;
+  if (font === 'symbol') return encoded.length * 0.8 * size;
+
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    width += code >= 32 && code <= 126 ? table[code - 32] : EXTENDED_WIDTHS[code] ?? 556;
+  }
+  return (width / 1000) * size;
+}
+
+/**
+ * Break text into lines that fit the width, keeping explicit line breaks and
+ * splitting words that are wider than a whole line
+ */
+function wrap(text: string, font: FontKey, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && measure(line + char, font, size) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function truncate(text: string, font: FontKey, size: number, width: number): string {
+  if (measure(text, font, size) <= width) return text;
+  let result = text;
+  while (result && measure(`${result}…`, font, size) > width) {
+    result = result.slice(0, -1);
+  }
+  return `${result.trimEnd()}…`;
+}
+
+// ============================================
+// Pages and flow layout
+// ============================================
+
+interface PdfLink {
+  rect: [number, number, number, number];
+  dest?: { page: number; top: number };
+  uri?: string;
+}
+
+interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  colorSpace: string;
+  filter: 'FlateDecode' | 'DCTDecode';
+  data: Buffer;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rgb(hex: string): string {
+  return [0, 2, 4].map((i) => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+function pdfString(text: string): string {
+  return `(${toWinAnsi(text).replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+class PdfPage {
+  readonly ops: string[] = [];
+  readonly links: PdfLink[] = [];
+
+  text(x: number, baseline: number, value: string, font: FontKey, size: number, color: string = COLORS.text): void {
+    this.ops.push(`BT /${FONTS[font].name} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(baseline)} Td ${pdfString(value)} Tj ET`);
+  }
+
+  fill(x: number, y: number, width: number, height: number, color: string): void {
+    this.ops.push(`${rgb(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  stroke(x: number, y: number, width: number, height: number, color: string): void {
+    this.ops.push(`0.75 w ${rgb(color)} RG ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, width = 0.75): void {
+    this.ops.push(`${num(width)} w ${rgb(color)} RG ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number): void {
+    this.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /${name} Do Q`);
+  }
+}
+
+/**
+ * A horizontal slice of content that is never split across pages
+ */
+interface Chunk {
+  height: number;
+  draw(page: PdfPage, x: number, top: number): void;
+  // Vertical gap that is dropped at the top of a page
+  spacing?: boolean;
+}
+
+/**
+ * The chunks of one export node, with its page break preferences
+ */
+interface Block {
+  chunks: Chunk[];
+  keepTogether?: boolean;
+  keepWithNext?: boolean;
+}
+
+function totalHeight(chunks: Chunk[]): number {
+  return chunks.reduce((sum, c) => sum + c.height, 0);
+}
+
+class Flow {
+  readonly pages: PdfPage[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  get position(): { page: number; top: number } {
+    return { page: this.pages.length - 1, top: this.y };
+  }
+
+  newPage(): void {
+    this.pages.push(new PdfPage());
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Start a new page unless the height fits on the current one
+   */
+  ensure(height: number): void {
+    if (height > this.y - MARGIN && this.y < PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  skip(height: number): void {
+    this.y -= height;
+  }
+
+  /**
+   * Place blocks in order, moving a block to a new page when it should stay
+   * in one piece or stay with the block after it. Returns where each began.
+   */
+  placeBlocks(blocks: Block[]): { page: number; top: number }[] {
+    return blocks.map((block, i) => {
+      const height = totalHeight(block.chunks);
+      const next = blocks[i + 1];
+      if (block.keepWithNext) {
+        const following = !next ? 0 : next.keepTogether ? totalHeight(next.chunks) : Math.min(totalHeight(next.chunks), 48);
+        this.ensure(height + following <= CONTENT_HEIGHT ? height + following : height + 48);
+      } else if (block.keepTogether && height <= CONTENT_HEIGHT) {
+        this.ensure(height);
+      }
+      const position = this.position;
+      this.place(block.chunks);
+      return position;
+    });
+  }
+
+  place(chunks: Chunk[]): void {
+    for (const chunk of chunks) {
+      if (chunk.spacing) {
+        if (this.y === PAGE_HEIGHT - MARGIN) continue;
+        if (chunk.height > this.y - MARGIN) {
+          this.newPage();
+          continue;
+        }
+      } else if (chunk.height > this.y - MARGIN) {
+        this.newPage();
+      }
+      chunk.draw(this.page, MARGIN, this.y);
+      this.y -= chunk.height;
+    }
+  }
+}
+
+// ============================================
+// Chunk builders
+// ============================================
+
+interface TextStyle {
+  font?: FontKey;
+  size?: number;
+  color?: string;
+  align?: 'left' | 'center';
+  indent?: number;
+}
+
+function spacer(height: number): Chunk {
+  return { height, spacing: true, draw: () => undefined };
+}
+
+function textChunks(text: string, width: number, style: TextStyle = {}): Chunk[] {
+  const { font = 'regular', size = BODY_SIZE, color = COLORS.text, align = 'left', indent = 0 } = style;
+  return wrap(text, font, size, width - indent).map((line) => ({
+    height: size * LINE_HEIGHT,
+    draw: (page, x, top) => {
+      const offset = align === 'center' ? (width - measure(line, font, size)) / 2 : indent;
+      page.text(x + offset, top - size * 0.95, line, font, size, color);
+    },
+  }));
+}
+
+/**
+ * Wrap chunks in a shaded box; a box split across pages stays open at the break
+ */
+function frame(
+  width: number,
+  style: { fill: string; border?: string; bar?: string },
+  build: (innerWidth: number) => Chunk[]
+): Chunk[] {
+  const bar = style.bar ? 3 : 0;
+  const inner = build(width - FRAME_PADDING * 2 - bar);
+
+  return inner.map((chunk, i) => {
+    const first = i === 0;
+    const last = i === inner.length - 1;
+    const height = chunk.height + (first ? FRAME_PADDING : 0) + (last ? FRAME_PADDING : 0);
+    return {
+      height,
+      draw: (page, x, top) => {
+        const bottom = top - height;
+        page.fill(x, bottom, width, height, style.fill);
+        if (style.bar) page.fill(x, bottom, bar, height, style.bar);
+        if (style.border) {
+          page.line(x, top, x, bottom, style.border);
+          page.line(x + width, top, x + width, bottom, style.border);
+          if (first) page.line(x, top, x + width, top, style.border);
+          if (last) page.line(x, bottom, x + width, bottom, style.border);
+        }
+        chunk.draw(page, x + FRAME_PADDING + bar, top - (first ? FRAME_PADDING : 0));
+      },
+    };
+  });
+}
+
+function imageChunk(image: PdfImage, width: number, maxHeight: number, scale = 1): Chunk {
+  let drawWidth = Math.min(image.width * scale, width);
+  let drawHeight = (drawWidth * image.height) / Math.max(image.width, 1);
+  if (drawHeight > maxHeight) {
+    drawWidth = (drawWidth * maxHeight) / drawHeight;
+    drawHeight = maxHeight;
+  }
+  return {
+    height: drawHeight + 6,
+    draw: (page, x, top) => page.image(image.name, x + (width - drawWidth) / 2, top - drawHeight, drawWidth, drawHeight),
+  };
+}
+
+export class PdfExporter {
+  async render(doc: ExportDocument): Promise<Buffer> {
+    const images: PdfImage[] = [];
+
+    // Body first, so the table of contents knows where each section starts
+    const body = new Flow();
+    const starts: { page: number; top: number }[] = [];
+    doc.sections.forEach((section) => {
+      const heading: Block = { chunks: [spacer(14), this.sectionHeading(`${section.number}. ${section.title}`)], keepWithNext: true };
+      const [start] = body.placeBlocks([heading, ...section.nodes.map((node) => this.node(node, images))]);
+      starts.push(start);
+    });
+    const bodyPages = doc.sections.length > 0 ? body.pages : [];
+
+    // The front matter length does not depend on the page numbers it shows,
+    // so a first pass only counts its pages
+    const frontCount = this.frontMatter(doc, starts, 0).length;
+    const pages = [...this.frontMatter(doc, starts, frontCount), ...bodyPages];
+
+    pages.forEach((page, i) => {
+      if (i === 0) return;
+      const label = `${i + 1} / ${pages.length}`;
+      page.text((PAGE_WIDTH - measure(label, 'regular', 9)) / 2, MARGIN / 2, label, 'regular', 9, COLORS.muted);
+    });
+
+    return this.serialize(doc.title, pages, images);
+  }
+
+  private frontMatter(doc: ExportDocument, starts: { page: number; top: number }[], bodyOffset: number): PdfPage[] {
+    const flow = new Flow();
+
+    flow.skip(CONTENT_HEIGHT * 0.28);
+    flow.place(textChunks(doc.title, CONTENT_WIDTH, { font: 'bold', size: 28, align: 'center' }));
+    flow.place([
+      {
+        height: 36,
+        draw: (page, x, top) => page.line(x + CONTENT_WIDTH / 2 - 60, top - 18, x + CONTENT_WIDTH / 2 + 60, top - 18, COLORS.border, 1),
+      },
+    ]);
+    flow.place(
+      doc.titlePage.map(({ label, value }) => {
+        const prefix = `${label}: `;
+        const text = truncate(value, 'regular', 11, CONTENT_WIDTH - measure(prefix, 'regular', 11));
+        return {
+          height: 11 * 1.8,
+          draw: (page, x, top) => {
+            const start = x + (CONTENT_WIDTH - measure(prefix + text, 'regular', 11)) / 2;
+            page.text(start, top - 11 * 1.2, prefix, 'regular', 11, COLORS.muted);
+            page.text(start + measure(prefix, 'regular', 11), top - 11 * 1.2, text, 'regular', 11);
+          },
+        };
+      })
+    );
+
+    // The standard fonts only cover WinAnsi, so say when text could not be shown
+    const unsupported = countUnsupportedPdfCharacters(doc);
+    if (unsupported > 0) {
+      flow.place([
+        spacer(18),
+        ...textChunks(
+          `${unsupported} character${unsupported !== 1 ? 's' : ''} outside the PDF fonts (such as CJK, Cyrillic or emoji) ` +
+            'appear as "?". Export as Word or HTML to keep them.',
+          CONTENT_WIDTH,
+          { size: 9, color: COLORS.negative, align: 'center' }
+        ),
+      ]);
+    }
+
+    flow.newPage();
+    flow.place([this.sectionHeading('Contents'), spacer(6)]);
+    flow.place(
+      doc.toc.map((entry, i) => {
+        const start = starts[i];
+        const pageNumber = String(bodyOffset + start.page + 1);
+        const numberWidth = measure(pageNumber, 'regular', BODY_SIZE);
+        const title = truncate(`${entry.number}. ${entry.title}`, 'regular', BODY_SIZE, CONTENT_WIDTH - numberWidth - 40);
+        const height = BODY_SIZE * 1.8;
+        return {
+          height,
+          draw: (page, x, top) => {
+            const baseline = top - BODY_SIZE * 1.2;
+            const titleWidth = measure(title, 'regular', BODY_SIZE);
+            const dotsWidth = CONTENT_WIDTH - titleWidth - numberWidth - 12;
+            const dots = '.'.repeat(Math.max(0, Math.floor(dotsWidth / measure('.', 'regular', BODY_SIZE))));
+            page.text(x, baseline, title, 'regular', BODY_SIZE, COLORS.primary);
+            page.text(x + titleWidth + 6, baseline, dots, 'regular', BODY_SIZE, COLORS.border);
+            page.text(x + CONTENT_WIDTH - numberWidth, baseline, pageNumber, 'regular', BODY_SIZE);
+            page.links.push({
+              rect: [x, top - height, x + CONTENT_WIDTH, top],
+              dest: { page: bodyOffset + start.page, top: start.top },
+            });
+          },
+        };
+      })
+    );
+
+    return flow.pages;
+  }
+
+  private sectionHeading(text: string): Chunk {
+    const size = 17;
+    const lines = wrap(text, 'bold', size, CONTENT_WIDTH);
+    const height = lines.length * size * LINE_HEIGHT + 12;
+    return {
+      height,
+      draw: (page, x, top) => {
+        lines.forEach((line, i) => page.text(x, top - size * 0.95 - i * size * LINE_HEIGHT, line, 'bold', size));
+        page.line(x, top - height + 6, x + CONTENT_WIDTH, top - height + 6, COLORS.border);
+      },
+    };
+  }
+
+  private node(node: ExportNode, images: PdfImage[]): Block {
+    const width = CONTENT_WIDTH;
+
+    switch (node.kind) {
+      case 'heading': {
+        const size = [15, 13, 12, 11][Math.min(node.level, 4) - 1];
+        return { chunks: [spacer(8), ...textChunks(node.text, width, { font: 'bold', size }), spacer(2)], keepWithNext: true };
+      }
+
+      case 'paragraph':
+        return {
+          chunks: node.text.split(/\n{2,}/).flatMap((text) => [...textChunks(text, width), spacer(6)]),
+        };
+
+      case 'table': {
+        const title = node.title ? [...textChunks(node.title, width, { font: 'bold', size: 11 }), spacer(2)] : [];
+        return { chunks: [...title, ...this.table(node.headers, node.rows, width), spacer(8)], keepTogether: true };
+      }
+
+      case 'card':
+        return {
+          chunks: [
+            ...frame(width, { fill: COLORS.cardFill, border: COLORS.border }, (inner) => [
+              ...this.cardTitle(node.title, node.badge, inner),
+              spacer(4),
+              ...node.fields.flatMap((field) => this.cardField(field, inner)),
+            ]),
+            spacer(10),
+          ],
+          keepTogether: true,
+        };
+
+      case 'callout': {
+        const colors = CALLOUT_COLORS[node.variant];
+        return {
+          chunks: [
+            ...frame(width, { fill: colors.fill, bar: colors.border }, (inner) => [
+              ...(node.title ? textChunks(node.title, inner, { font: 'bold', color: colors.border }) : []),
+              ...textChunks(node.text, inner),
+            ]),
+            spacer(10),
+          ],
+          keepTogether: true,
+        };
+      }
+
+      case 'chart': {
+        const title = node.title ? textChunks(node.title, width, { font: 'bold', size: 11, align: 'center' }) : [];
+        if (!node.data) {
+          return {
+            chunks: [
+              ...title,
+              ...textChunks('Chart data not available', width, { font: 'italic', color: COLORS.muted, align: 'center' }),
+              spacer(10),
+            ],
+          };
+        }
+        const chart = rasterizeChart(node.chartType, node.data, node.stacked);
+        const image = this.addImage(images, {
+          width: chart.image.width,
+          height: chart.image.height,
+          colorSpace: 'DeviceRGB',
+          filter: 'FlateDecode',
+          data: zlib.deflateSync(chart.image.rgb),
+        });
+        return {
+          chunks: [...title, imageChunk(image, width, 320, width / chart.image.width), ...this.legend(chart.legend, width), spacer(10)],
+          keepTogether: true,
+        };
+      }
+
+      case 'media': {
+        const image = node.mediaType === 'image' ? this.mediaImage(node.src, images) : null;
+        const caption = node.caption
+          ? textChunks(node.caption, width, { font: 'italic', size: 9, color: COLORS.muted, align: 'center' })
+          : [];
+        if (image) {
+          // Images are sized at 96 dpi
+          return { chunks: [imageChunk(image, width, 400, 0.75), ...caption, spacer(10)], keepTogether: true };
+        }
+
+        const prefix = `${node.mediaType === 'image' ? 'Image' : 'Video'}: `;
+        const target = truncate(
+          node.alt || (node.src.startsWith('data:') ? 'embedded file' : node.src),
+          'regular',
+          BODY_SIZE,
+          width - measure(prefix, 'bold', BODY_SIZE)
+        );
+        const link: Chunk = {
+          height: BODY_SIZE * LINE_HEIGHT,
+          draw: (page, x, top) => {
+            const baseline = top - BODY_SIZE * 0.95;
+            const offset = measure(prefix, 'bold', BODY_SIZE);
+            page.text(x, baseline, prefix, 'bold', BODY_SIZE, COLORS.muted);
+            page.text(x + offset, baseline, target, 'regular', BODY_SIZE, COLORS.primary);
+            if (/^https?:\/\//.test(node.src)) {
+              const right = x + offset + measure(target, 'regular', BODY_SIZE);
+              page.links.push({ rect: [x + offset, top - BODY_SIZE * LINE_HEIGHT, right, top], uri: node.src });
+            }
+          },
+        };
+        return { chunks: [link, ...caption, spacer(8)], keepTogether: true };
+      }
+
+      case 'raw':
+        return {
+          chunks: [
+            ...frame(width, { fill: COLORS.cardFill, border: COLORS.border }, (inner) => [
+              ...textChunks(node.blockType.replace(/_/g, ' '), inner, { size: 8.5, color: COLORS.muted }),
+              ...textChunks(node.json, inner, { font: 'mono', size: 8 }),
+            ]),
+            spacer(10),
+          ],
+        };
+    }
+  }
+
+  private table(headers: string[], rows: string[][], width: number): Chunk[] {
+    const columns = Math.max(headers.length, ...rows.map((r) => r.length), 1);
+    const columnWidth = width / columns;
+    const size = 9.5;
+
+    const row = (cells: string[], header: boolean): Chunk => {
+      const font: FontKey = header ? 'bold' : 'regular';
+      const wrapped = Array.from({ length: columns }, (_, c) => wrap(cells[c] || '', font, size, columnWidth - 10));
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * size * LINE_HEIGHT + 8;
+      return {
+        height,
+        draw: (page, x, top) => {
+          wrapped.forEach((lines, c) => {
+            const left = x + c * columnWidth;
+            if (header) page.fill(left, top - height, columnWidth, height, COLORS.headerFill);
+            page.stroke(left, top - height, columnWidth, height, COLORS.border);
+            lines.forEach((line, i) =>
+              page.text(left + 5, top - 4 - size * 0.95 - i * size * LINE_HEIGHT, line, font, size, header ? COLORS.muted : COLORS.text)
+            );
+          });
+        },
+      };
+    };
+
+    return [...(headers.length ? [row(headers, true)] : []), ...rows.map((cells) => row(cells, false))];
+  }
+
+  private cardTitle(title: string, badge: string | undefined, width: number): Chunk[] {
+    const chunks = textChunks(title, width, { font: 'bold', size: 12 });
+    if (!badge) return chunks;
+
+    const lines = wrap(title, 'bold', 12, width);
+    const lastWidth = measure(lines[lines.length - 1], 'bold', 12);
+    if (lastWidth + 10 + measure(badge, 'bold', 8.5) > width) {
+      return [...chunks, ...textChunks(badge, width, { font: 'bold', size: 8.5, color: COLORS.positive })];
+    }
+
+    const last = chunks[chunks.length - 1];
+    chunks[chunks.length - 1] = {
+      height: last.height,
+      draw: (page, x, top) => {
+        last.draw(page, x, top);
+        page.text(x + lastWidth + 10, top - 12 * 0.95, badge, 'bold', 8.5, COLORS.positive);
+      },
+    };
+    return chunks;
+  }
+
+  private cardField(field: CardField, width: number): Chunk[] {
+    const label = (text: string, color: string = COLORS.muted) =>
+      textChunks(text.toUpperCase(), width, { font: 'bold', size: 8, color });
+
+    switch (field.kind) {
+      case 'text': {
+        const style: TextStyle =
+          field.style === 'quote'
+            ? { font: 'italic', color: COLORS.muted }
+            : field.style === 'code'
+              ? { font: 'mono', size: 9.5, color: COLORS.primary }
+              : field.style === 'muted'
+                ? { color: COLORS.muted }
+                : {};
+        return [...(field.label ? label(field.label) : []), ...textChunks(field.value, width, style), spacer(6)];
+      }
+
+      case 'list': {
+        if (field.tone === 'tag') {
+          return [...label(field.label), ...textChunks(field.items.join('  ·  '), width, { size: 10, color: COLORS.tag }), spacer(6)];
+        }
+
+        const color = field.tone === 'positive' ? COLORS.positive : field.tone === 'negative' ? COLORS.negative : COLORS.text;
+        if (field.items.length === 0) {
+          return [
+            ...label(field.label, field.tone ? color : COLORS.muted),
+            ...textChunks(`No ${field.label.toLowerCase()} added`, width, { font: 'italic', color: COLORS.muted }),
+            spacer(6),
+          ];
+        }
+
+        const items = field.items.flatMap((item) => {
+          const lines = textChunks(item, width, { indent: 14 });
+          const first = lines[0];
+          lines[0] = {
+            height: first.height,
+            draw: (page, x, top) => {
+              const baseline = top - BODY_SIZE * 0.95;
+              if (field.tone) {
+                page.text(x + 2, baseline, field.tone === 'positive' ? SYMBOLS.check : SYMBOLS.cross, 'symbol', 8, color);
+              } else {
+                page.text(x + 3, baseline, '•', 'regular', BODY_SIZE, color);
+              }
+              first.draw(page, x, top);
+            },
+          };
+          return lines;
+        });
+        return [...label(field.label, field.tone ? color : COLORS.muted), ...items, spacer(6)];
+      }
+
+      case 'metrics': {
+        const perRow = Math.min(field.items.length, 4);
+        const gap = 8;
+        const cellWidth = (width - gap * (perRow - 1)) / perRow;
+        const hasNote = field.items.some((item) => item.note);
+        const height = 8 * LINE_HEIGHT + 13 * LINE_HEIGHT + (hasNote ? 8 * LINE_HEIGHT : 0) + 12;
+
+        const rows: Chunk[] = [];
+        for (let start = 0; start < field.items.length; start += perRow) {
+          const items = field.items.slice(start, start + perRow);
+          rows.push({
+            height: height + gap,
+            draw: (page, x, top) => {
+              items.forEach((item, i) => {
+                const left = x + i * (cellWidth + gap);
+                const inner = cellWidth - 12;
+                page.fill(left, top - height, cellWidth, height, COLORS.white);
+                page.stroke(left, top - height, cellWidth, height, item.highlight ? COLORS.positive : COLORS.border);
+                page.text(left + 6, top - 6 - 8 * 0.95, truncate(item.label, 'regular', 8, inner), 'regular', 8, COLORS.muted);
+                page.text(
+                  left + 6,
+                  top - 6 - 8 * LINE_HEIGHT - 13 * 0.95,
+                  truncate(item.value, 'bold', 13, inner),
+                  'bold',
+                  13,
+                  item.highlight ? COLORS.primary : COLORS.text
+                );
+                if (item.note) {
+                  const baseline = top - 6 - 8 * LINE_HEIGHT - 13 * LINE_HEIGHT - 8 * 0.95;
+                  page.text(left + 6, baseline, truncate(item.note, 'regular', 8, inner), 'regular', 8, COLORS.muted);
+                }
+              });
+            },
+          });
+        }
+        return rows;
+      }
+    }
+  }
+
+  private legend(entries: ChartLegendEntry[], width: number): Chunk[] {
+    if (entries.length < 2) return [];
+
+    const size = 8.5;
+    const entryWidth = (entry: ChartLegendEntry) => 12 + measure(entry.label, 'regular', size);
+    const rows: ChartLegendEntry[][] = [[]];
+    let used = 0;
+    for (const entry of entries) {
+      const w = entryWidth(entry) + 14;
+      if (used + w > width && rows[rows.length - 1].length > 0) {
+        rows.push([]);
+        used = 0;
+      }
+      rows[rows.length - 1].push(entry);
+      used += w;
+    }
+
+    return rows.map((row) => ({
+      height: size * 1.8,
+      draw: (page, x, top) => {
+        const total = row.reduce((sum, entry) => sum + entryWidth(entry) + 14, -14);
+        let left = x + (width - total) / 2;
+        const baseline = top - size * 1.2;
+        for (const entry of row) {
+          page.text(left, baseline, SYMBOLS.square, 'symbol', 7, entry.color.slice(1));
+          page.text(left + 12, baseline, entry.label, 'regular', size, COLORS.muted);
+          left += entryWidth(entry) + 14;
+        }
+      },
+    }));
+  }
+
+  private mediaImage(src: string, images: PdfImage[]): PdfImage | null {
+    const embedded = decodeDataUrlImage(src);
+    if (!embedded) return null;
+
+    if (embedded.format === 'jpeg') {
+      const colorSpace = embedded.components === 1 ? 'DeviceGray' : embedded.components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+      return this.addImage(images, { width: embedded.width, height: embedded.height, colorSpace, filter: 'DCTDecode', data: embedded.data });
+    }
+
+    const pixels = decodePngPixels(embedded);
+    if (!pixels) return null;
+    return this.addImage(images, {
+      width: pixels.width,
+      height: pixels.height,
+      colorSpace: 'DeviceRGB',
+      filter: 'FlateDecode',
+      data: zlib.deflateSync(pixels.rgb),
+    });
+  }
+
+  private addImage(images: PdfImage[], image: Omit<PdfImage, 'name'>): PdfImage {
+    const added = { name: `Im${images.length + 1}`, ...image };
+    images.push(added);
+    return added;
+  }
+
+  // ============================================
+  // Serialization
+  // ============================================
+
+  private serialize(title: string, pages: PdfPage[], images: PdfImage[]): Buffer {
+    const fontKeys = Object.keys(FONTS) as FontKey[];
+
+    // Object numbers: catalog, page tree, resources, info, fonts, images, then page/content pairs
+    const fontStart = 5;
+    const imageStart = fontStart + fontKeys.length;
+    const pageStart = imageStart + images.length;
+    const pageRef = (index: number) => `${pageStart + index * 2} 0 R`;
+
+    const objects: (string | Buffer)[] = [];
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pages.map((_, i) => pageRef(i)).join(' ')}] /Count ${pages.length} >>`);
+    objects.push(
+      `<< /Font << ${fontKeys.map((key, i) => `/${FONTS[key].name} ${fontStart + i} 0 R`).join(' ')} >>` +
+        ` /XObject << ${images.map((image, i) => `/${image.name} ${imageStart + i} 0 R`).join(' ')} >> >>`
+    );
+    objects.push(`<< /Title ${this.textString(title)} /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+
+    for (const key of fontKeys) {
+      const encoding = key === 'symbol' ? '' : ' /Encoding /WinAnsiEncoding';
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key].baseFont}${encoding} >>`);
+    }
+
+    for (const image of images) {
+      objects.push(
+        this.stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+            `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${image.filter}`,
+          image.data
+        )
+      );
+    }
+
+    pages.forEach((page, i) => {
+      const annotations = page.links.map((link) => {
+        const target = link.dest
+          ? `/Dest [${pageRef(link.dest.page)} /XYZ 0 ${num(link.dest.top)} null]`
+          : `/A << /S /URI /URI ${pdfString(link.uri || '')} >>`;
+        return `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] ${target} >>`;
+      });
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources 3 0 R ` +
+          `/Contents ${pageStart + i * 2 + 1} 0 R${annotations.length ? ` /Annots [${annotations.join(' ')}]` : ''} >>`
+      );
+      objects.push(this.stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(page.ops.join('\n'), 'latin1'))));
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      const data = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+        typeof object === 'string' ? Buffer.from(object, 'latin1') : object,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      offsets.push(offset);
+      chunks.push(data);
+      offset += data.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  private stream(dictionary: string, data: Buffer): Buffer {
+    return Buffer.concat([
+      Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+  }
+
+  // UTF-16BE with byte order mark, for metadata outside WinAnsi
+  private textString(text: string): string {
+    const utf16 = Buffer.from(text, 'utf16le');
+    utf16.swap16();
+    return `<FEFF${utf16.toString('hex').toUpperCase()}>`;
+  }
+}
+
+// Singleton instance
+export const pdfExporter = new PdfExporter();
@@ -1,30 +1,108 @@
+import { eq, asc } from 'drizzle-orm';
 import { BlockLockManager } from './BlockLockManager';
-
-// Pipeline names
-type PipelineName =
-  | 'knowledge_base'
-  | 'tableau'
-  | 'bigwinboard'
-  | 'aboutslots'
-  | 'slot_graph'
-  | 'confluence';
+import { pipelineRouter, PipelineRouter, PipelineName, PipelineRoutingDecision } from './PipelineRouter';
+import { mcpBridge, DocumentContext, PipelineResult } from './MCPBridge';
+import { editIntentManager, EditIntent } from './EditIntentManager';
+import { editOperationLog } from './EditOperationLog';
+import { directiveValidator } from './DirectiveValidator';
+import { analysisRunRecorder, PipelineRunSummary, PipelineRunOutcome } from './AnalysisRunRecorder';
+import { db } from '../config/database';
+import { documentSections, documentBlocks } from '../db/schema';
 
 interface PipelineEvent {
-  type: 'started' | 'progress' | 'content' | 'block_update' | 'complete' | 'error';
+  type: 'started' | 'progress' | 'content' | 'block_update' | 'edit_validation_result' | 'complete' | 'error';
   sessionId: string;
   pipelineName: string;
   timestamp: number;
   payload: Record<string, unknown>;
 }
 
+type PipelineStatus = 'pending' | 'running' | 'paused' | 'complete' | 'error' | 'cancelled';
+
 interface PipelineState {
   name: PipelineName;
-  status: 'pending' | 'running' | 'paused' | 'complete' | 'error' | 'cancelled';
+  status: PipelineStatus;
   currentTurn: number;
   maxTurns: number;
   allocatedBlocks: string[];
+  query: string;
+  control: PipelineControlToken;
+}
+
+// Snapshot returned to clients in pipeline_control_ack
+export interface PipelineControlState {
+  status: PipelineStatus;
+  currentTurn: number;
+  maxTurns: number;
+  query: string;
+}
+
+type EventCallback = (event: PipelineEvent | Record<string, unknown>) => void;
+
+// Edit waiting for its lock, keyed by intent ID
+interface PendingEdit {
+  sessionId: string;
+  content: string;
+  eventCallback: EventCallback;
 }
 
+/**
+ * Per-pipeline cancellation token with a pause barrier.
+ * Running work awaits checkpoint() between turns.
+ */
+class PipelineControlToken {
+  cancelled = false;
+  redirectQuery?: string;
+  private barrier: Promise<void> | null = null;
+  private release: (() => void) | null = null;
+  private abortController = new AbortController();
+
+  // Aborted on cancel so in-flight MCP requests are cancelled too
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get paused(): boolean {
+    return this.barrier !== null;
+  }
+
+  pause(): void {
+    if (this.barrier) return;
+    this.barrier = new Promise((resolve) => {
+      this.release = resolve;
+    });
+  }
+
+  resume(): void {
+    this.release?.();
+    this.barrier = null;
+    this.release = null;
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.abortController.abort();
+    this.resume();
+  }
+
+  /**
+   * Wait while paused, then throw if cancelled
+   */
+  async checkpoint(): Promise<void> {
+    if (this.barrier) {
+      await this.barrier;
+    }
+    if (this.cancelled) {
+      throw new Error('Pipeline cancelled');
+    }
+  }
+}
+
+const TERMINAL_STATUSES: PipelineStatus[] = ['complete', 'error', 'cancelled'];
+
+// Block types whose text can be extended with pipeline findings
+const TEXT_BLOCK_TYPES = ['paragraph', 'callout'];
+
 // Pipeline to block type affinity mapping
 const PIPELINE_BLOCK_AFFINITY: Record<string, string[]> = {
   knowledge_base: ['design_concept', 'feature', 'psychological_mechanism'],
@@ -38,10 +116,20 @@ const PIPELINE_BLOCK_AFFINITY: Record<string, string[]> = {
 export class PipelineOrchestrator {
   private blockLockManager: BlockLockManager;
   private activeSessions: Map<string, Map<string, PipelineState>> = new Map();
-  private cancelTokens: Map<string, boolean> = new Map();
+  private router: PipelineRouter;
+  private pendingEdits: Map<string, PendingEdit> = new Map();
 
-  constructor(blockLockManager: BlockLockManager) {
+  constructor(blockLockManager: BlockLockManager, router: PipelineRouter = pipelineRouter) {
     this.blockLockManager = blockLockManager;
+    this.router = router;
+
+    // Pipelines take block locks through the intent queue
+    editIntentManager.setLockGrantCallback((intent) => this.grantLock(intent));
+    editIntentManager.on('intent:granted', (intent: EditIntent) => {
+      this.applyEdit(intent).catch((error) => {
+        console.error('[PipelineOrchestrator] Edit failed:', error);
+      });
+    });
   }
 
   /**
@@ -52,205 +140,539 @@ export class PipelineOrchestrator {
     sessionId: string,
     documentId: string,
     query: string,
-    eventCallback: (event: PipelineEvent | Record<string, unknown>) => void
+    eventCallback: EventCallback,
+    options: { chatMessageId?: string } = {}
   ): Promise<void> {
+    const startedAt = Date.now();
+
     // Initialize session tracking
-    this.activeSessions.set(sessionId, new Map());
-    this.cancelTokens.set(sessionId, false);
+    const sessionPipelines = new Map<string, PipelineState>();
+    this.activeSessions.set(sessionId, sessionPipelines);
+
+    // Determine which pipelines to activate based on query and open document
+    const routing = await this.decidePipelines(query, documentId);
+    const pipelineNames = routing.filter((d) => d.selected).map((d) => d.pipelineName);
+
+    for (const name of pipelineNames) {
+      sessionPipelines.set(name, {
+        name,
+        status: 'pending',
+        currentTurn: 0,
+        maxTurns: 0,
+        allocatedBlocks: [],
+        query,
+        control: new PipelineControlToken(),
+      });
+    }
 
-    // Determine which pipelines to activate based on query
-    const pipelineNames = this.decidePipelines(query);
+    const analysisRunId = await analysisRunRecorder.startRun({
+      sessionId,
+      documentId,
+      query,
+      routing,
+      chatMessageId: options.chatMessageId,
+    });
 
     // Notify that analysis is starting
     eventCallback({
       type: 'analysis_started',
       sessionId,
       timestamp: Date.now(),
-      payload: { pipelines: pipelineNames, query },
+      payload: { pipelines: pipelineNames, query, routing, runId: analysisRunId, pausable: mcpBridge.supportsPause },
     });
 
     // Start all pipelines in parallel (non-blocking)
-    const pipelinePromises = pipelineNames.map((name) =>
-      this.executePipeline(
-        name,
-        sessionId,
-        documentId,
-        query,
-        eventCallback
-      ).catch((error) => {
+    let chatMessageId: string | null = null;
+    this.buildDocumentContext(documentId)
+      .then((documentContext) =>
+        Promise.all(
+          Array.from(sessionPipelines.values()).map((state) =>
+            this.executePipeline(state, sessionId, documentId, documentContext, analysisRunId, eventCallback)
+          )
+        )
+      )
+      .then(async (summaries) => {
+        chatMessageId = await analysisRunRecorder.finishRun(analysisRunId, summaries, Date.now() - startedAt);
+      })
+      .catch((error) => {
+        console.error('[PipelineOrchestrator] Analysis failed:', error);
+      })
+      .finally(() => {
         eventCallback({
-          type: 'error',
+          type: 'analysis_complete',
           sessionId,
-          pipelineName: name,
           timestamp: Date.now(),
-          payload: { error: error.message },
+          payload: { runId: analysisRunId, chatMessageId },
         });
-      })
-    );
 
-    // Wait for all pipelines but don't block the caller
-    Promise.allSettled(pipelinePromises).then(() => {
-      eventCallback({
-        type: 'analysis_complete',
-        sessionId,
-        timestamp: Date.now(),
-        payload: {},
+        // A newer analysis may already own this session
+        if (this.activeSessions.get(sessionId) === sessionPipelines) {
+          this.cleanup(sessionId);
+        }
       });
-      this.cleanup(sessionId);
-    });
   }
 
   /**
-   * Decide which pipelines to activate based on query
+   * Decide which pipelines to activate based on query and document sections
    */
-  private decidePipelines(query: string): PipelineName[] {
-    const queryLower = query.toLowerCase();
-    const pipelines: PipelineName[] = [];
-
-    // Simple keyword-based pipeline selection
-    // In production, this would use an LLM to make smarter decisions
-    if (queryLower.includes('design') || queryLower.includes('feature') || queryLower.includes('mechanic')) {
-      pipelines.push('knowledge_base');
-    }
-    if (queryLower.includes('metric') || queryLower.includes('performance') || queryLower.includes('data')) {
-      pipelines.push('tableau');
-    }
-    if (queryLower.includes('competitor') || queryLower.includes('market') || queryLower.includes('benchmark')) {
-      pipelines.push('bigwinboard');
-    }
-    if (queryLower.includes('rtp') || queryLower.includes('volatility') || queryLower.includes('math')) {
-      pipelines.push('aboutslots');
-    }
-    if (queryLower.includes('slot') || queryLower.includes('game')) {
-      pipelines.push('slot_graph');
-    }
-    if (queryLower.includes('test') || queryLower.includes('experiment') || queryLower.includes('ab')) {
-      pipelines.push('confluence');
-    }
+  private async decidePipelines(query: string, documentId: string): Promise<PipelineRoutingDecision[]> {
+    let sectionTypes: string[] = [];
 
-    // Default to knowledge_base if no specific match
-    if (pipelines.length === 0) {
-      pipelines.push('knowledge_base');
+    try {
+      const sections = await db()
+        .select({ sectionType: documentSections.sectionType })
+        .from(documentSections)
+        .where(eq(documentSections.documentId, documentId));
+      sectionTypes = sections.map((s) => s.sectionType);
+    } catch (error) {
+      // Routing still works from the query alone
+      console.warn('[PipelineOrchestrator] Could not load sections for routing:', (error as Error).message);
     }
 
-    return pipelines;
+    return this.router.route(query, { sectionTypes });
   }
 
   /**
-   * Execute a single pipeline with event streaming
+   * Run one pipeline through the MCP bridge, restarting it when redirected
    */
   private async executePipeline(
-    pipelineName: PipelineName,
+    state: PipelineState,
     sessionId: string,
     documentId: string,
-    query: string,
-    eventCallback: (event: PipelineEvent) => void
-  ): Promise<void> {
-    // Initialize pipeline state
-    const pipelineState: PipelineState = {
-      name: pipelineName,
-      status: 'pending',
-      currentTurn: 0,
-      maxTurns: 10, // Simulated
-      allocatedBlocks: [],
-    };
-
-    const sessionPipelines = this.activeSessions.get(sessionId);
-    if (sessionPipelines) {
-      sessionPipelines.set(pipelineName, pipelineState);
-    }
+    documentContext: DocumentContext | undefined,
+    analysisRunId: string | null,
+    eventCallback: EventCallback
+  ): Promise<PipelineRunSummary> {
+    for (;;) {
+      const control = state.control;
+      const attemptStartedAt = Date.now();
+      const pipelineRunId = await analysisRunRecorder.startPipeline(analysisRunId, state.name, state.query);
+
+      // The bridge is shared between sessions, so tag this run
+      const runId = `${sessionId}-${state.name}-${Date.now()}`;
+      const detach = this.attachBridgeListeners(runId, sessionId, state, eventCallback);
+
+      try {
+        if (!mcpBridge.connected) {
+          await mcpBridge.connect();
+        }
 
-    // Emit started event
-    eventCallback({
-      type: 'started',
-      sessionId,
-      pipelineName,
-      timestamp: Date.now(),
-      payload: { maxTurns: pipelineState.maxTurns },
-    });
+        const result = await mcpBridge.analyzeQuery(state.query, documentContext, false, {
+          runId,
+          pipelines: [state.name],
+          checkpoint: () => control.checkpoint(),
+          signal: control.signal,
+        });
 
-    pipelineState.status = 'running';
+        // Bridges without checkpoints can only be paused or cancelled here
+        await control.checkpoint();
+
+        // Without a per-pipeline result the consolidated report is the output.
+        // The run is restricted to this pipeline, so top-level intents are its own.
+        const found = result.pipelineResults.find((r) => r.pipelineName === state.name);
+        const pipelineResult: PipelineResult = {
+          ...(found || {
+            pipelineName: state.name,
+            status: 'success',
+            result: result.consolidatedReport,
+            turns: state.currentTurn,
+          }),
+          editIntents: found?.editIntents ?? result.editIntents,
+        };
+
+        this.completePipeline(sessionId, state, pipelineResult, eventCallback);
+
+        if (pipelineResult.status === 'success') {
+          await this.declareEditIntents(sessionId, documentId, pipelineResult, eventCallback);
+        }
 
-    try {
-      // Simulate pipeline execution with turns
-      for (let turn = 1; turn <= pipelineState.maxTurns; turn++) {
-        // Check for cancellation
-        if (this.cancelTokens.get(sessionId)) {
-          pipelineState.status = 'cancelled';
+        return this.recordAttempt(pipelineRunId, state, attemptStartedAt, {
+          status: pipelineResult.status === 'success' ? 'complete' : 'error',
+          turns: pipelineResult.turns ?? state.currentTurn,
+          result: pipelineResult.result,
+          error: pipelineResult.error,
+          editIntents: pipelineResult.editIntents,
+        });
+      } catch (error) {
+        if (!control.cancelled) {
+          state.status = 'error';
           eventCallback({
-            type: 'complete',
+            type: 'error',
             sessionId,
-            pipelineName,
+            pipelineName: state.name,
             timestamp: Date.now(),
-            payload: { status: 'cancelled', turns: turn - 1 },
+            payload: { error: (error as Error).message },
+          });
+          return this.recordAttempt(pipelineRunId, state, attemptStartedAt, {
+            status: 'error',
+            error: (error as Error).message,
           });
-          return;
         }
 
-        pipelineState.currentTurn = turn;
-
-        // Emit progress
-        eventCallback({
-          type: 'progress',
-          sessionId,
-          pipelineName,
-          timestamp: Date.now(),
-          payload: { turn, maxTurns: pipelineState.maxTurns },
-        });
-
-        // Simulate work
-        await this.delay(500 + Math.random() * 1000);
-
-        // Emit content update every few turns
-        if (turn % 3 === 0) {
+        if (control.redirectQuery === undefined) {
+          state.status = 'cancelled';
           eventCallback({
-            type: 'content',
+            type: 'complete',
             sessionId,
-            pipelineName,
+            pipelineName: state.name,
             timestamp: Date.now(),
-            payload: {
-              content: `[${pipelineName}] Progress update at turn ${turn}...`,
-              isPartial: true,
-            },
+            payload: { status: 'cancelled', turns: state.currentTurn },
           });
+          return this.recordAttempt(pipelineRunId, state, attemptStartedAt, { status: 'cancelled' });
         }
+
+        await this.recordAttempt(pipelineRunId, state, attemptStartedAt, {
+          status: 'redirected',
+          error: `Redirected to: ${control.redirectQuery}`,
+        });
+
+        // Redirected: start over with the amended query
+        state.query = control.redirectQuery;
+        state.control = new PipelineControlToken();
+        state.status = 'pending';
+        state.currentTurn = 0;
+        state.maxTurns = 0;
+      } finally {
+        detach();
       }
+    }
+  }
+
+  /**
+   * Persist how a pipeline attempt ended and summarize it for the run
+   */
+  private async recordAttempt(
+    pipelineRunId: string | null,
+    state: PipelineState,
+    attemptStartedAt: number,
+    outcome: Omit<PipelineRunOutcome, 'turns' | 'maxTurns' | 'durationMs'> & { turns?: number }
+  ): Promise<PipelineRunSummary> {
+    await analysisRunRecorder.finishPipeline(pipelineRunId, {
+      ...outcome,
+      turns: outcome.turns ?? state.currentTurn,
+      maxTurns: state.maxTurns,
+      durationMs: Date.now() - attemptStartedAt,
+    });
 
-      // Pipeline complete
-      pipelineState.status = 'complete';
+    return {
+      pipelineRunId,
+      pipelineName: state.name,
+      status: outcome.status === 'redirected' ? 'cancelled' : outcome.status,
+      result: outcome.result,
+      error: outcome.error,
+    };
+  }
+
+  /**
+   * Translate bridge events for one run into pipeline events.
+   * Returns the unsubscribe function.
+   */
+  private attachBridgeListeners(
+    runId: string,
+    sessionId: string,
+    state: PipelineState,
+    eventCallback: EventCallback
+  ): () => void {
+    const control = state.control;
+    const isCurrent = (pipelineName: string, eventRunId?: string) =>
+      eventRunId === runId && pipelineName === state.name && !control.cancelled;
+
+    const onStarted = (pipelineName: string, eventRunId?: string) => {
+      if (!isCurrent(pipelineName, eventRunId)) return;
+
+      state.status = 'running';
       eventCallback({
-        type: 'complete',
+        type: 'started',
         sessionId,
         pipelineName,
         timestamp: Date.now(),
-        payload: {
-          status: 'complete',
-          turns: pipelineState.maxTurns,
-          result: `Simulated result from ${pipelineName}`,
-        },
+        payload: { query: state.query },
       });
+    };
 
-    } catch (error) {
-      pipelineState.status = 'error';
+    const onProgress = (pipelineName: string, turn: number, maxTurns: number, eventRunId?: string) => {
+      if (!isCurrent(pipelineName, eventRunId)) return;
+
+      if (!control.paused) {
+        state.status = 'running';
+      }
+      state.currentTurn = turn;
+      state.maxTurns = maxTurns;
       eventCallback({
-        type: 'error',
+        type: 'progress',
+        sessionId,
+        pipelineName,
+        timestamp: Date.now(),
+        payload: { turn, maxTurns },
+      });
+    };
+
+    const onContent = (pipelineName: string, content: string, eventRunId?: string) => {
+      if (!isCurrent(pipelineName, eventRunId)) return;
+
+      eventCallback({
+        type: 'content',
         sessionId,
         pipelineName,
         timestamp: Date.now(),
-        payload: { error: (error as Error).message },
+        payload: { content, isPartial: true },
+      });
+    };
+
+    mcpBridge.on('pipeline:started', onStarted);
+    mcpBridge.on('pipeline:progress', onProgress);
+    mcpBridge.on('pipeline:content', onContent);
+
+    return () => {
+      mcpBridge.off('pipeline:started', onStarted);
+      mcpBridge.off('pipeline:progress', onProgress);
+      mcpBridge.off('pipeline:content', onContent);
+    };
+  }
+
+  /**
+   * Emit the terminal event for a pipeline from its bridge result
+   */
+  private completePipeline(
+    sessionId: string,
+    state: PipelineState,
+    result: PipelineResult,
+    eventCallback: EventCallback
+  ): void {
+    if (result.status === 'error') {
+      state.status = 'error';
+      eventCallback({
+        type: 'error',
+        sessionId,
+        pipelineName: state.name,
+        timestamp: Date.now(),
+        payload: { error: result.error || 'Pipeline failed' },
+      });
+      return;
+    }
+
+    state.status = 'complete';
+    eventCallback({
+      type: 'complete',
+      sessionId,
+      pipelineName: state.name,
+      timestamp: Date.now(),
+      payload: {
+        status: 'complete',
+        turns: result.turns ?? state.currentTurn,
+        result: result.result,
+      },
+    });
+  }
+
+  /**
+   * Build the document context sent to the MCP server
+   */
+  private async buildDocumentContext(documentId: string): Promise<DocumentContext | undefined> {
+    try {
+      const sections = await db()
+        .select({ id: documentSections.id, type: documentSections.sectionType })
+        .from(documentSections)
+        .where(eq(documentSections.documentId, documentId))
+        .orderBy(asc(documentSections.position));
+
+      const blocks = await db()
+        .select({ id: documentBlocks.id, sectionId: documentBlocks.sectionId })
+        .from(documentBlocks)
+        .where(eq(documentBlocks.documentId, documentId))
+        .orderBy(asc(documentBlocks.position));
+
+      return {
+        documentId,
+        sections: sections.map((section) => ({
+          id: section.id,
+          type: section.type,
+          blockIds: blocks.filter((b) => b.sectionId === section.id).map((b) => b.id),
+        })),
+      };
+    } catch (error) {
+      // Analysis can still run without edits
+      console.warn('[PipelineOrchestrator] Could not load document context:', (error as Error).message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Turn edit intents returned by the bridge into queued lock requests. The
+   * result is one piece of text, so each declaration writes it into the first
+   * block it names rather than copying it into every one.
+   */
+  private async declareEditIntents(
+    sessionId: string,
+    documentId: string,
+    pipelineResult: PipelineResult,
+    eventCallback: EventCallback
+  ): Promise<void> {
+    const state = this.activeSessions.get(sessionId)?.get(pipelineResult.pipelineName);
+
+    for (const declaration of pipelineResult.editIntents || []) {
+      const [blockId] = declaration.blockIds;
+      if (!blockId) continue;
+
+      const intent = editIntentManager.declareIntent(
+        pipelineResult.pipelineName,
+        documentId,
+        declaration.sectionId,
+        blockId,
+        declaration.sectionType
+      );
+
+      this.pendingEdits.set(intent.id, {
+        sessionId,
+        content: pipelineResult.result || '',
+        eventCallback,
+      });
+      state?.allocatedBlocks.push(blockId);
+
+      await editIntentManager.queueIntent(intent.id);
+    }
+  }
+
+  /**
+   * Lock grant callback for the intent queue
+   */
+  private async grantLock(intent: EditIntent): Promise<boolean> {
+    const pending = this.pendingEdits.get(intent.id);
+    if (!pending) return false;
+
+    try {
+      const { granted, denied } = await this.blockLockManager.acquireLocks({
+        blockIds: [intent.blockId],
+        documentId: intent.documentId,
+        sessionId: pending.sessionId,
+        requestedBy: intent.pipelineName,
       });
+
+      if (granted.length === 0) {
+        this.pendingEdits.delete(intent.id);
+        editIntentManager.cancelIntent(intent.id, `block locked by ${denied[0]?.heldBy || 'another editor'}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[PipelineOrchestrator] Lock acquisition failed:', error);
+      return false;
     }
   }
 
   /**
-   * Control a running pipeline
+   * Write a pipeline's findings into a granted block, then release it. The
+   * result is validated against the block's directives first and not written
+   * if it has errors.
+   */
+  private async applyEdit(intent: EditIntent): Promise<void> {
+    const pending = this.pendingEdits.get(intent.id);
+    if (!pending) return;
+    this.pendingEdits.delete(intent.id);
+
+    const { sessionId, content, eventCallback } = pending;
+
+    try {
+      const [block] = await db()
+        .select()
+        .from(documentBlocks)
+        .where(eq(documentBlocks.id, intent.blockId))
+        .limit(1);
+
+      // Structured blocks are left alone; only prose gets the findings appended,
+      // and only once, so running the same analysis again does not repeat them
+      const existing = (block?.content || {}) as Record<string, unknown>;
+      const existingText = typeof existing.text === 'string' ? existing.text : '';
+      if (block && content && TEXT_BLOCK_TYPES.includes(block.blockType) && !existingText.includes(content.trim())) {
+        const newContent = {
+          ...existing,
+          text: existingText ? `${existingText}\n\n${content}` : content,
+        };
+
+        // A write is rejected only for errors it introduces; the block may already break
+        // constraints the appended text cannot fix, such as its entity count
+        const before = directiveValidator.validateStoredBlock({ ...block, content: existing });
+        const validation = directiveValidator.validateStoredBlock({ ...block, content: newContent });
+        const introduced = validation.errors.filter(
+          (error) => !before.errors.some((e) => e.type === error.type && e.expected === error.expected)
+        );
+        eventCallback({
+          type: 'edit_validation_result',
+          sessionId,
+          pipelineName: intent.pipelineName,
+          timestamp: Date.now(),
+          payload: {
+            intentId: intent.id,
+            blockId: intent.blockId,
+            accepted: introduced.length === 0,
+            errors: introduced,
+            warnings: validation.warnings,
+          },
+        });
+        if (introduced.length > 0) return;
+
+        const text = JSON.stringify(newContent);
+        const wordCount = text.split(/\s+/).filter(Boolean).length;
+
+        await db()
+          .update(documentBlocks)
+          .set({
+            content: newContent,
+            wordCount,
+            updatedBy: intent.pipelineName,
+            updatedAt: new Date(),
+          })
+          .where(eq(documentBlocks.id, intent.blockId));
+
+        await editOperationLog.record({
+          documentId: block.documentId,
+          blockId: block.id,
+          sessionId,
+          operationType: 'update',
+          previousContent: existing,
+          newContent,
+          authoredBy: intent.pipelineName,
+        });
+
+        eventCallback({
+          type: 'block_update',
+          sessionId,
+          pipelineName: intent.pipelineName,
+          timestamp: Date.now(),
+          payload: {
+            blockId: intent.blockId,
+            content: newContent,
+            updatedBy: intent.pipelineName,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('[PipelineOrchestrator] Failed to apply edit:', error);
+    } finally {
+      // Each cleanup step runs even if the other fails, so the block's intent queue moves on
+      try {
+        await this.blockLockManager.releaseLocks([intent.blockId], intent.pipelineName);
+      } catch (error) {
+        console.error('[PipelineOrchestrator] Failed to release lock:', error);
+      }
+      try {
+        await editIntentManager.completeIntent(intent.id);
+      } catch (error) {
+        console.error('[PipelineOrchestrator] Failed to complete intent:', error);
+      }
+    }
+  }
+
+
+  /**
+   * Control a running pipeline. Returns the resulting pipeline state.
    */
   async controlPipeline(
     sessionId: string,
     pipelineName: string,
     action: 'pause' | 'resume' | 'cancel' | 'redirect',
     payload?: Record<string, unknown>
-  ): Promise<void> {
+  ): Promise<PipelineControlState> {
     const sessionPipelines = this.activeSessions.get(sessionId);
     if (!sessionPipelines) {
       throw new Error('Session not found');
@@ -261,27 +683,62 @@ export class PipelineOrchestrator {
       throw new Error('Pipeline not found');
     }
 
+    if (TERMINAL_STATUSES.includes(pipelineState.status)) {
+      throw new Error(`Pipeline already ${pipelineState.status}`);
+    }
+
     switch (action) {
       case 'pause':
+        if (!mcpBridge.supportsPause) {
+          throw new Error('The MCP server cannot pause a running pipeline; cancel or redirect it instead');
+        }
+        pipelineState.control.pause();
         pipelineState.status = 'paused';
         break;
       case 'resume':
-        pipelineState.status = 'running';
+        pipelineState.control.resume();
+        pipelineState.status = pipelineState.currentTurn > 0 ? 'running' : 'pending';
         break;
       case 'cancel':
-        this.cancelTokens.set(sessionId, true);
-        break;
-      case 'redirect':
-        // Redirect would re-query with new focus
+        pipelineState.control.cancel();
+        pipelineState.status = 'cancelled';
         break;
+      case 'redirect': {
+        const query = typeof payload?.query === 'string' ? payload.query.trim() : '';
+        if (!query) {
+          throw new Error('Redirect requires a query');
+        }
+        // The running attempt aborts at its next checkpoint and restarts
+        pipelineState.control.redirectQuery = query;
+        pipelineState.control.cancel();
+        pipelineState.status = 'pending';
+        return { status: 'pending', currentTurn: 0, maxTurns: 0, query };
+      }
     }
+
+    return {
+      status: pipelineState.status,
+      currentTurn: pipelineState.currentTurn,
+      maxTurns: pipelineState.maxTurns,
+      query: pipelineState.query,
+    };
   }
 
   /**
    * Cancel all pipelines for a session
    */
   cancelSession(sessionId: string): void {
-    this.cancelTokens.set(sessionId, true);
+    const sessionPipelines = this.activeSessions.get(sessionId);
+    sessionPipelines?.forEach((state) => state.control.cancel());
+
+    // Drop edits still waiting for a lock
+    for (const [intentId, pending] of this.pendingEdits) {
+      if (pending.sessionId === sessionId) {
+        this.pendingEdits.delete(intentId);
+        editIntentManager.cancelIntent(intentId, 'Analysis cancelled');
+      }
+    }
+
     this.cleanup(sessionId);
   }
 
@@ -290,13 +747,5 @@ export class PipelineOrchestrator {
    */
   private cleanup(sessionId: string): void {
     this.activeSessions.delete(sessionId);
-    this.cancelTokens.delete(sessionId);
-  }
-
-  /**
-   * Utility delay function
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
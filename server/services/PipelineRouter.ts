@@ -0,0 +1,245 @@
+/**
+ * Pipeline Router
+ *
+ * Decides which pipelines should run for a query. Every pipeline is scored
+ * against the query and the sections of the open document, and each decision
+ * carries a confidence and a human-readable reason for the UI.
+ *
+ * The local keyword scorer is deterministic and works offline; the OpenAI
+ * router can be enabled with PIPELINE_ROUTER=llm and falls back to the local
+ * scorer whenever the model is unavailable or returns something unusable.
+ */
+
+import { openaiService } from './OpenAIService';
+import { PIPELINE_SECTION_AFFINITY } from '../types/template';
+
+// Pipeline names
+export type PipelineName =
+  | 'knowledge_base'
+  | 'tableau'
+  | 'bigwinboard'
+  | 'aboutslots'
+  | 'slot_graph'
+  | 'confluence';
+
+export const PIPELINE_NAMES: PipelineName[] = [
+  'knowledge_base',
+  'tableau',
+  'bigwinboard',
+  'aboutslots',
+  'slot_graph',
+  'confluence',
+];
+
+// Context available to the router besides the query itself
+export interface RoutingContext {
+  sectionTypes?: string[];
+}
+
+// Routing outcome for a single pipeline
+export interface PipelineRoutingDecision {
+  pipelineName: PipelineName;
+  selected: boolean;
+  confidence: number; // 0-1
+  reason: string;
+}
+
+export interface PipelineRouter {
+  route(query: string, context?: RoutingContext): Promise<PipelineRoutingDecision[]>;
+}
+
+// Keyword weights per pipeline. Strong terms select a pipeline on their own,
+// weak terms only tip the balance together with other evidence.
+const PIPELINE_KEYWORDS: Record<PipelineName, { strong: string[]; weak: string[] }> = {
+  knowledge_base: {
+    strong: ['design', 'concept', 'theme', 'psychology', 'psychological', 'archetype'],
+    weak: ['feature', 'mechanic', 'player', 'engagement', 'experience'],
+  },
+  tableau: {
+    strong: ['metric', 'kpi', 'retention', 'revenue', 'dashboard', 'tableau', 'arpu', 'ggr'],
+    weak: ['performance', 'data', 'trend', 'conversion'],
+  },
+  bigwinboard: {
+    strong: ['competitor', 'benchmark', 'rival', 'bigwinboard'],
+    weak: ['market', 'comparison', 'compare', 'industry'],
+  },
+  aboutslots: {
+    strong: ['rtp', 'volatility', 'variance', 'paytable', 'aboutslots'],
+    weak: ['math', 'hit', 'frequency', 'payout', 'multiplier'],
+  },
+  slot_graph: {
+    strong: ['simulation', 'distribution', 'bucket', 'spectrum'],
+    weak: ['slot', 'game', 'spin', 'balance', 'graph', 'chart', 'mechanic', 'feature'],
+  },
+  confluence: {
+    strong: ['experiment', 'a/b', 'ab-test', 'confluence', 'wiki'],
+    weak: ['test', 'documentation', 'spec', 'source'],
+  },
+};
+
+// Multi-word phrases are matched before tokenizing
+const PIPELINE_PHRASES: Record<PipelineName, string[]> = {
+  knowledge_base: ['design vision', 'game design'],
+  tableau: ['player metrics', 'success metrics'],
+  bigwinboard: ['market research', 'competitive analysis'],
+  aboutslots: ['hit frequency', 'max win', 'return to player'],
+  slot_graph: ['slot graph', 'win distribution', 'win bucket'],
+  confluence: ['ab test', 'a/b test', 'split test'],
+};
+
+const STRONG_WEIGHT = 1.0;
+const WEAK_WEIGHT = 0.4;
+const PHRASE_WEIGHT = 1.0;
+const SECTION_AFFINITY_WEIGHT = 0.25;
+const MAX_SECTION_AFFINITY = 0.5;
+const SELECTION_THRESHOLD = 0.45;
+const DEFAULT_PIPELINE: PipelineName = 'knowledge_base';
+
+/**
+ * Deterministic keyword + section affinity scorer
+ */
+export class LocalPipelineRouter implements PipelineRouter {
+  async route(query: string, context: RoutingContext = {}): Promise<PipelineRoutingDecision[]> {
+    return this.score(query, context);
+  }
+
+  /**
+   * Score every pipeline synchronously
+   */
+  score(query: string, context: RoutingContext = {}): PipelineRoutingDecision[] {
+    const normalized = query.toLowerCase();
+    const tokens = new Set(this.tokenize(normalized));
+    const sectionTypes = new Set(context.sectionTypes || []);
+
+    const decisions = PIPELINE_NAMES.map((pipelineName) => {
+      const keywords = PIPELINE_KEYWORDS[pipelineName];
+      const matchedStrong = keywords.strong.filter((k) => tokens.has(k));
+      const matchedWeak = keywords.weak.filter((k) => tokens.has(k));
+      const matchedPhrases = PIPELINE_PHRASES[pipelineName].filter((p) => normalized.includes(p));
+      const matchedSections = (PIPELINE_SECTION_AFFINITY[pipelineName] || []).filter((s) =>
+        sectionTypes.has(s)
+      );
+
+      const rawScore =
+        matchedStrong.length * STRONG_WEIGHT +
+        matchedWeak.length * WEAK_WEIGHT +
+        matchedPhrases.length * PHRASE_WEIGHT +
+        Math.min(matchedSections.length * SECTION_AFFINITY_WEIGHT, MAX_SECTION_AFFINITY);
+
+      // Saturating curve keeps confidence in 0-1 without a hard cap
+      const confidence = Number((1 - Math.exp(-rawScore)).toFixed(2));
+
+      const reasons: string[] = [];
+      const terms = [...matchedPhrases, ...matchedStrong, ...matchedWeak];
+      if (terms.length > 0) {
+        reasons.push(`query mentions ${terms.map((t) => `"${t}"`).join(', ')}`);
+      }
+      if (matchedSections.length > 0) {
+        reasons.push(`document has ${matchedSections.join(', ')}`);
+      }
+
+      return {
+        pipelineName,
+        selected: confidence >= SELECTION_THRESHOLD,
+        confidence,
+        reason: reasons.length > 0 ? reasons.join('; ') : 'no matching signals',
+      };
+    });
+
+    // Default to knowledge_base if nothing cleared the threshold
+    if (!decisions.some((d) => d.selected)) {
+      const fallback = decisions.find((d) => d.pipelineName === DEFAULT_PIPELINE)!;
+      fallback.selected = true;
+      fallback.reason = `default pipeline (${fallback.reason})`;
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Split query into word tokens, folding simple plurals
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .split(/[^a-z0-9/-]+/)
+      .filter(Boolean)
+      .map((token) => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+  }
+}
+
+/**
+ * LLM-backed router with local fallback
+ */
+export class OpenAIPipelineRouter implements PipelineRouter {
+  private fallback: LocalPipelineRouter;
+
+  constructor(fallback: LocalPipelineRouter = new LocalPipelineRouter()) {
+    this.fallback = fallback;
+  }
+
+  async route(query: string, context: RoutingContext = {}): Promise<PipelineRoutingDecision[]> {
+    try {
+      const response = await openaiService.chat([
+        {
+          role: 'system',
+          content: `You route game design analysis queries to data pipelines.
+Pipelines:
+- knowledge_base: design concepts, features, player psychology
+- tableau: player metrics, KPIs, retention, revenue
+- bigwinboard: competitor and market benchmarks
+- aboutslots: RTP, volatility and math models
+- slot_graph: slot simulation data, win distributions, balance curves
+- confluence: A/B tests, experiments, internal documentation
+Respond with JSON only: [{"pipelineName": string, "selected": boolean, "confidence": number, "reason": string}] with one entry per pipeline.`,
+        },
+        {
+          role: 'user',
+          content: `Query: ${query}\nOpen document sections: ${(context.sectionTypes || []).join(', ') || 'none'}`,
+        },
+      ]);
+
+      const decisions = this.parseDecisions(response);
+      if (decisions.some((d) => d.selected)) {
+        return decisions;
+      }
+    } catch (error) {
+      console.warn('[PipelineRouter] LLM routing failed, using local scorer:', (error as Error).message);
+    }
+
+    return this.fallback.route(query, context);
+  }
+
+  /**
+   * Parse and sanitize the model's JSON answer
+   */
+  private parseDecisions(response: string): PipelineRoutingDecision[] {
+    const jsonStart = response.indexOf('[');
+    const jsonEnd = response.lastIndexOf(']');
+    if (jsonStart === -1 || jsonEnd === -1) {
+      throw new Error('No JSON array in router response');
+    }
+
+    const parsed = JSON.parse(response.substring(jsonStart, jsonEnd + 1)) as Array<
+      Partial<PipelineRoutingDecision>
+    >;
+    const byName = new Map(parsed.map((d) => [d.pipelineName, d]));
+
+    return PIPELINE_NAMES.map((pipelineName) => {
+      const decision = byName.get(pipelineName);
+      const confidence = Math.min(Math.max(Number(decision?.confidence) || 0, 0), 1);
+      return {
+        pipelineName,
+        selected: decision?.selected === true,
+        confidence,
+        reason: typeof decision?.reason === 'string' ? decision.reason : 'not considered relevant',
+      };
+    });
+  }
+}
+
+export const localPipelineRouter = new LocalPipelineRouter();
+
+// Export singleton - local scorer by default, LLM routing when configured
+export const pipelineRouter: PipelineRouter = process.env.PIPELINE_ROUTER === 'llm'
+  ? new OpenAIPipelineRouter(localPipelineRouter)
+  : localPipelineRouter;
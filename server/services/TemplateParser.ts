@@ -18,8 +18,10 @@ import {
   EntityTypesDirective,
   RelationshipsDirective,
   PipelineDirective,
+  ConstraintsDirective,
   BlockContent,
-  TemplateInfo,
+  ImportReport,
+  TemplateValidationError,
 } from '../types/template';
 
 // Regex patterns for parsing directives
@@ -28,6 +30,27 @@ const SECTION_HEADER_PATTERN = /^##\s+(\d+\.?\d*\.?)\s+(.+)$/m;
 const SUBSECTION_HEADER_PATTERN = /^###\s+(\d+\.\d+\.?\d*)\s+(.+)$/m;
 const HEADING_PATTERN = /^(#{1,6})\s+(.+)$/;
 const TABLE_PATTERN = /\|(.+)\|/g;
+const EXTENDS_PATTERN = /^\s*<!--\s*EXTENDS:\s*(.*?)\s*-->\s*$/;
+const INCLUDE_PATTERN = /^\s*<!--\s*INCLUDE:\s*(.*?)\s*-->\s*$/;
+
+export interface SeedTemplate {
+  id: string;
+  fileName: string;
+  content: string;
+}
+
+// Looks up another template's markdown by ID for EXTENDS and INCLUDE
+export type TemplateLoader = (templateId: string) => Promise<string | null>;
+
+export type TemplateResolveResult =
+  | { status: 'ok'; template: ParsedTemplate }
+  | { status: 'invalid'; errors: TemplateValidationError[] };
+
+interface TemplateReference {
+  directive: 'EXTENDS' | 'INCLUDE';
+  id: string;
+  line: number;
+}
 
 // Section ID to type mapping
 const SECTION_ID_TO_TYPE: Record<string, string> = {
@@ -41,6 +64,18 @@ const SECTION_ID_TO_TYPE: Record<string, string> = {
   attribution: 'data_sources',
   changelog: 'custom',
   entity_summary: 'custom',
+  // Section types are valid IDs too, so exported documents keep their types
+  executive_summary: 'executive_summary',
+  progression_systems: 'progression_systems',
+  success_metrics: 'success_metrics',
+  data_sources: 'data_sources',
+};
+
+// Block type for untyped chunks in sections that mostly hold one kind of block
+const SECTION_DEFAULT_BLOCK_TYPE: Record<string, string> = {
+  math_framework: 'math_model',
+  game_mechanics: 'feature',
+  player_experience: 'archetype_profile',
 };
 
 export class TemplateParser {
@@ -51,63 +86,326 @@ export class TemplateParser {
   }
 
   /**
-   * List available templates
+   * Read the template files that seed the templates table
+   */
+  readSeedTemplates(): SeedTemplate[] {
+    if (!fs.existsSync(this.templatesDir)) return [];
+
+    return fs
+      .readdirSync(this.templatesDir)
+      .filter((f) => f.endsWith('.md') && !f.startsWith('entity_'))
+      .map((file) => ({
+        id: file.replace('.md', ''),
+        fileName: file,
+        content: fs.readFileSync(path.join(this.templatesDir, file), 'utf-8'),
+      }));
+  }
+
+  /**
+   * Parse markdown template content into structured format. Markdown without
+   * directives is accepted too: sections and blocks are inferred from headings.
+   */
+  parseTemplate(content: string): ParsedTemplate {
+    const warnings: string[] = [];
+    const metadata = this.parseMetadata(content);
+    const sections = this.parseSections(content, warnings);
+
+    return {
+      metadata,
+      sections,
+      rawContent: content,
+      warnings,
+    };
+  }
+
+  /**
+   * Parse a template and resolve its EXTENDS and INCLUDE directives.
+   *
+   * INCLUDE lines are replaced by the sections of the named template before
+   * parsing. EXTENDS starts from the resolved base template and appends this
+   * template's sections. A section with a SECTION_ID directive replaces an
+   * inherited or earlier included section with the same id, in its place.
+   * Pass `templateId` so a reference back to the template is reported as a cycle.
    */
-  async listTemplates(): Promise<TemplateInfo[]> {
-    const templates: TemplateInfo[] = [];
+  async resolveTemplate(
+    content: string,
+    load: TemplateLoader,
+    templateId?: string
+  ): Promise<TemplateResolveResult> {
+    const errors: TemplateValidationError[] = [];
+    const template = await this.resolve(content, load, templateId ? [templateId] : [], errors);
+    return errors.length > 0 ? { status: 'invalid', errors } : { status: 'ok', template };
+  }
+
+  private async resolve(
+    content: string,
+    load: TemplateLoader,
+    chain: string[],
+    errors: TemplateValidationError[]
+  ): Promise<ParsedTemplate> {
+    const { text, base } = await this.expandIncludes(content, load, chain, errors);
+    const parsed = this.parseTemplate(text);
+    const resolved = { ...parsed, sections: this.mergeSections([], parsed.sections), rawContent: content };
+
+    const baseContent = base ? await this.loadReference(base, load, chain, errors) : null;
+    if (!base || baseContent === null) return resolved;
+
+    const nested: TemplateValidationError[] = [];
+    const parent = await this.resolve(baseContent, load, [...chain, base.id], nested);
+    errors.push(...this.nestErrors(base, nested));
+
+    return {
+      metadata: { ...parent.metadata, ...parsed.metadata },
+      sections: this.mergeSections(parent.sections, parsed.sections),
+      rawContent: content,
+      warnings: [...parent.warnings, ...parsed.warnings],
+    };
+  }
+
+  /**
+   * Replace INCLUDE lines with the included template's sections and strip the
+   * EXTENDS line, returning the base it names
+   */
+  private async expandIncludes(
+    content: string,
+    load: TemplateLoader,
+    chain: string[],
+    errors: TemplateValidationError[]
+  ): Promise<{ text: string; base?: TemplateReference }> {
+    const output: string[] = [];
+    let base: TemplateReference | undefined;
+
+    for (const [index, text] of content.split('\n').entries()) {
+      const extendsMatch = text.match(EXTENDS_PATTERN);
+      if (extendsMatch) {
+        base ??= { directive: 'EXTENDS', id: extendsMatch[1], line: index + 1 };
+        continue;
+      }
 
-    try {
-      const files = fs.readdirSync(this.templatesDir);
-      const mdFiles = files.filter((f) => f.endsWith('.md') && !f.startsWith('entity_'));
+      const includeMatch = text.match(INCLUDE_PATTERN);
+      if (!includeMatch) {
+        output.push(text);
+        continue;
+      }
 
-      for (const file of mdFiles) {
-        const filePath = path.join(this.templatesDir, file);
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const parsed = this.parseTemplate(content);
+      const reference: TemplateReference = { directive: 'INCLUDE', id: includeMatch[1], line: index + 1 };
+      const partial = await this.loadReference(reference, load, chain, errors);
+      if (partial === null) continue;
 
-        templates.push({
-          id: file.replace('.md', ''),
-          name: this.extractTemplateName(content),
-          description: this.extractDescription(content),
-          fileName: file,
-          path: filePath,
-          sectionCount: parsed.sections.length,
-          chunkCount: parsed.sections.reduce((acc, s) => acc + s.blocks.length, 0),
-        });
+      const nested: TemplateValidationError[] = [];
+      const expanded = await this.expandIncludes(partial, load, [...chain, reference.id], nested);
+      if (expanded.base) {
+        nested.push({ line: expanded.base.line, directive: 'EXTENDS', message: 'Included templates cannot use EXTENDS' });
       }
-    } catch (error) {
-      console.error('Error listing templates:', error);
+      errors.push(...this.nestErrors(reference, nested));
+
+      // Only the sections are included, not the partial's title and metadata
+      const lines = expanded.text.split('\n');
+      const start = lines.findIndex((line) => /^##\s/.test(line));
+      output.push(...(start >= 0 ? lines.slice(start) : lines.filter((line) => !/^#\s/.test(line))));
+    }
+
+    return { text: output.join('\n'), base };
+  }
+
+  private async loadReference(
+    reference: TemplateReference,
+    load: TemplateLoader,
+    chain: string[],
+    errors: TemplateValidationError[]
+  ): Promise<string | null> {
+    const { directive, id, line } = reference;
+
+    if (chain.includes(id)) {
+      const cycle = [...chain.slice(chain.indexOf(id)), id].join(' -> ');
+      errors.push({ line, directive, message: `Template cycle: ${cycle}` });
+      return null;
     }
 
-    return templates;
+    const content = await load(id);
+    if (content === null) {
+      errors.push({ line, directive, message: `${directive} target "${id}" not found` });
+    }
+    return content;
+  }
+
+  // Errors inside a referenced template are reported on the referencing line
+  private nestErrors(reference: TemplateReference, nested: TemplateValidationError[]): TemplateValidationError[] {
+    return nested.map((error) => ({
+      line: reference.line,
+      directive: reference.directive,
+      message: `In "${reference.id}" line ${error.line}: ${error.message}`,
+    }));
   }
 
   /**
-   * Load and parse a template by ID
+   * Append sections, letting one with an explicit SECTION_ID replace an
+   * earlier section with that id. Inferred ids are not unique enough to
+   * override by.
    */
-  async loadTemplate(templateId: string): Promise<ParsedTemplate> {
-    const filePath = path.join(this.templatesDir, `${templateId}.md`);
-
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`Template not found: ${templateId}`);
+  private mergeSections(base: ParsedSection[], overrides: ParsedSection[]): ParsedSection[] {
+    const merged = [...base];
+
+    for (const section of overrides) {
+      const index = section.idSource === 'explicit' ? merged.findIndex((s) => s.id === section.id) : -1;
+      if (index >= 0) {
+        merged[index] = section;
+      } else {
+        merged.push(section);
+      }
     }
 
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return this.parseTemplate(content);
+    return merged.map((section, position) => ({ ...section, position }));
   }
 
   /**
-   * Parse markdown template content into structured format
+   * Check directive syntax line by line: directive comments must be closed,
+   * CHUNK ids unique with only POSITION/ENTITIES fields, CONSTRAINTS ranges
+   * valid, ENTITY_TYPES and RELATIONSHIPS lists well formed, and
+   * EXTENDS/INCLUDE on their own lines.
+   * Whether EXTENDS/INCLUDE targets exist is checked by resolveTemplate.
    */
-  parseTemplate(content: string): ParsedTemplate {
-    const metadata = this.parseMetadata(content);
-    const sections = this.parseSections(content);
+  validateTemplate(content: string): TemplateValidationError[] {
+    const errors: TemplateValidationError[] = [];
+    const chunkLines = new Map<string, number>();
+    let extendsLine = 0;
+
+    content.split('\n').forEach((text, index) => {
+      const line = index + 1;
+      const error = (directive: string, message: string) => errors.push({ line, directive, message });
+
+      const opening = text.match(/<!--\s*([A-Z_]+):/);
+      if (opening && !text.slice(opening.index).includes('-->')) {
+        error(opening[1], `${opening[1]} directive is not closed with -->`);
+        return;
+      }
 
-    return {
-      metadata,
-      sections,
-      rawContent: content,
+      for (const [, directive, rawValue] of text.matchAll(/<!--\s*([A-Z_]+):(.*?)-->/g)) {
+        const value = rawValue.trim();
+
+        switch (directive) {
+          case 'CHUNK': {
+            const [id, ...fields] = value.split('|').map((p) => p.trim());
+            if (!id) {
+              error(directive, 'CHUNK needs an id, e.g. <!-- CHUNK: overview_1 | POSITION: 0 -->');
+            } else if (!/^[\w.-]+$/.test(id)) {
+              error(directive, `CHUNK id "${id}" may only contain letters, digits, "_", "-" and "."`);
+            } else if (chunkLines.has(id)) {
+              error(directive, `Duplicate CHUNK id "${id}" (first used on line ${chunkLines.get(id)})`);
+            } else {
+              chunkLines.set(id, line);
+            }
+
+            for (const field of fields) {
+              const [, key, fieldValue] = field.match(/^([A-Z_]+):\s*(.*)$/) || [];
+              if (key === 'POSITION') {
+                if (!/^\d+$/.test(fieldValue)) error(directive, `CHUNK POSITION must be a whole number, got "${fieldValue}"`);
+              } else if (key === 'ENTITIES') {
+                const range = fieldValue.match(/^(\d+)-(\d+)$/);
+                if (!range) {
+                  error(directive, `CHUNK ENTITIES must be a range like 2-5, got "${fieldValue}"`);
+                } else if (Number(range[1]) > Number(range[2])) {
+                  error(directive, `CHUNK ENTITIES range ${fieldValue} has a minimum above its maximum`);
+                }
+              } else {
+                error(directive, `Unknown CHUNK field "${field}"; expected POSITION or ENTITIES`);
+              }
+            }
+            break;
+          }
+
+          case 'CONSTRAINTS':
+            for (const field of value.split('|').map((p) => p.trim())) {
+              const [, key, fieldValue] = field.match(/^([A-Z_]+):\s*(.*)$/) || [];
+              if (key === 'WORDS' || key === 'ENTITIES') {
+                const range = fieldValue.match(/^(\d+)-(\d+)$/);
+                if (!range) {
+                  error(directive, `CONSTRAINTS ${key} must be a range like 2-5, got "${fieldValue}"`);
+                } else if (Number(range[1]) > Number(range[2])) {
+                  error(directive, `CONSTRAINTS ${key} range ${fieldValue} has a minimum above its maximum`);
+                }
+              } else if (field !== 'STRICT') {
+                error(directive, `Unknown CONSTRAINTS field "${field}"; expected WORDS, ENTITIES or STRICT`);
+              }
+            }
+            break;
+
+          case 'ENTITY_TYPES': {
+            const types = value.split(',').map((t) => t.trim());
+            if (!value) {
+              error(directive, 'ENTITY_TYPES needs at least one entity type');
+            } else if (types.includes('')) {
+              error(directive, 'ENTITY_TYPES has an empty entry; check for a stray comma');
+            }
+            for (const type of types.filter((t) => t && !/^[A-Za-z]\w*$/.test(t))) {
+              error(directive, `Invalid entity type "${type}"; use letters, digits and "_"`);
+            }
+            break;
+          }
+
+          case 'RELATIONSHIPS':
+            for (const pattern of value.split(',').map((p) => p.trim())) {
+              if (!/^\w+\s*->\s*\w+$/.test(pattern)) {
+                error(directive, `RELATIONSHIPS entry "${pattern}" must look like TYPE -> TargetType`);
+              }
+            }
+            break;
+
+          case 'EXTENDS':
+          case 'INCLUDE':
+            if (!/^[\w-]+$/.test(value)) {
+              error(directive, `${directive} needs a template id, e.g. <!-- ${directive}: base_gdd -->`);
+            } else if (!(directive === 'EXTENDS' ? EXTENDS_PATTERN : INCLUDE_PATTERN).test(text)) {
+              error(directive, `${directive} must be on its own line`);
+            } else if (directive === 'EXTENDS') {
+              if (extendsLine) {
+                error(directive, `Only one EXTENDS is allowed (first on line ${extendsLine})`);
+              } else {
+                extendsLine = line;
+              }
+            }
+            break;
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Summarize which sections and blocks came from directives and which were inferred
+   */
+  buildImportReport(parsed: ParsedTemplate): ImportReport {
+    const summary: ImportReport['summary'] = {
+      sectionIds: { explicit: 0, inferred: 0 },
+      blockBoundaries: { explicit: 0, inferred: 0 },
+      blockTypes: { explicit: 0, inferred: 0 },
     };
+
+    const sections = parsed.sections.map((section) => {
+      summary.sectionIds[section.idSource]++;
+
+      return {
+        sectionId: section.id,
+        title: section.title,
+        type: section.type,
+        idSource: section.idSource,
+        blocks: section.blocks.map((block) => {
+          summary.blockBoundaries[block.inference.boundary]++;
+          summary.blockTypes[block.inference.type]++;
+
+          return {
+            blockId: block.id,
+            type: block.type,
+            boundary: block.inference.boundary,
+            typeSource: block.inference.type,
+            reason: block.inference.reason,
+          };
+        }),
+      };
+    });
+
+    return { sections, summary, warnings: parsed.warnings };
   }
 
   /**
@@ -166,9 +464,11 @@ export class TemplateParser {
   }
 
   /**
-   * Parse sections from markdown content
+   * Parse sections from markdown content. Numbered "## N. Title" headers are the
+   * template format; without them any "##" header starts a section, and a
+   * document with no "##" headers becomes a single section.
    */
-  private parseSections(content: string): ParsedSection[] {
+  private parseSections(content: string, warnings: string[]): ParsedSection[] {
     const sections: ParsedSection[] = [];
     let currentSection: ParsedSection | null = null;
     let currentSectionContent = '';
@@ -177,42 +477,82 @@ export class TemplateParser {
     // Split content by major section headers (## N. Title)
     const lines = content.split('\n');
     let inSection = false;
+    let inBlocks = false;
+    let skippedLines = 0;
+
+    const sectionPattern = /^##\s+\d+\.\s+.+$/m.test(content)
+      ? /^##\s+(\d+)\.\s+(.+)$/
+      : /^##\s+()(.+)$/;
+
+    const createSection = (title: string, index: number): ParsedSection => {
+      const sectionId = this.inferSectionId(title, currentSectionContent, lines, index);
+      return {
+        id: sectionId,
+        type: SECTION_ID_TO_TYPE[sectionId] || 'custom',
+        title: title.trim(),
+        position: sectionPosition++,
+        directives: { sectionId },
+        blocks: [],
+        idSource: 'inferred',
+      };
+    };
+
+    // The document title names the single section, so it is not content
+    let titleIndex = -1;
+    if (!/^##\s+.+$/m.test(content)) {
+      titleIndex = lines.findIndex((line) => /^#\s+.+$/.test(line));
+      currentSection = createSection(titleIndex >= 0 ? lines[titleIndex].replace(/^#\s+/, '') : 'Content', -1);
+      inSection = true;
+    }
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
+      if (i === titleIndex) continue;
 
       // Check for section header
-      const sectionMatch = line.match(/^##\s+(\d+)\.\s+(.+)$/);
+      const sectionMatch = line.match(sectionPattern);
 
       if (sectionMatch) {
         // Save previous section
         if (currentSection && currentSectionContent) {
-          currentSection.blocks = this.parseBlocks(currentSectionContent, currentSection.id);
+          this.finishSection(currentSection, currentSectionContent);
           sections.push(currentSection);
         }
 
-        const [, number, title] = sectionMatch;
-        const sectionId = this.inferSectionId(title, currentSectionContent, lines, i);
-
-        currentSection = {
-          id: sectionId,
-          type: SECTION_ID_TO_TYPE[sectionId] || 'custom',
-          title: title.trim(),
-          position: sectionPosition++,
-          directives: { sectionId },
-          blocks: [],
-        };
+        currentSection = createSection(sectionMatch[2], i);
         currentSectionContent = '';
         inSection = true;
+        inBlocks = false;
+        continue;
+      }
+
+      const section = currentSection;
+      if (!section) {
+        // Title, metadata and blank lines are expected before the first section
+        if (line.trim() && !/^#\s/.test(line) && !line.trim().startsWith('<!--')) {
+          skippedLines++;
+        }
         continue;
       }
 
       // Check for SECTION_ID directive
       const sectionIdMatch = line.match(/<!--\s*SECTION_ID:\s*(\w+)\s*-->/);
-      if (sectionIdMatch && currentSection) {
-        currentSection.id = sectionIdMatch[1];
-        currentSection.type = SECTION_ID_TO_TYPE[sectionIdMatch[1]] || 'custom';
-        currentSection.directives.sectionId = sectionIdMatch[1];
+      if (sectionIdMatch) {
+        section.id = sectionIdMatch[1];
+        section.type = SECTION_ID_TO_TYPE[sectionIdMatch[1]] || 'custom';
+        section.directives.sectionId = sectionIdMatch[1];
+        section.directives.raw = [...(section.directives.raw || []), line];
+        section.idSource = 'explicit';
+      }
+
+      // A PIPELINE directive before the first chunk applies to the whole section
+      if (/<!--\s*CHUNK:/.test(line)) {
+        inBlocks = true;
+      }
+      const sectionPipelineMatch = line.match(/<!--\s*PIPELINE:\s*(.+?)\s*-->/);
+      if (sectionPipelineMatch && !inBlocks) {
+        section.directives.pipeline = this.parsePipelineDirective(sectionPipelineMatch[1]);
+        section.directives.raw = [...(section.directives.raw || []), line];
       }
 
       if (inSection) {
@@ -222,13 +562,23 @@ export class TemplateParser {
 
     // Don't forget the last section
     if (currentSection && currentSectionContent) {
-      currentSection.blocks = this.parseBlocks(currentSectionContent, currentSection.id);
+      this.finishSection(currentSection, currentSectionContent);
       sections.push(currentSection);
     }
 
+    if (skippedLines > 0) {
+      warnings.push(`${skippedLines} line(s) before the first section were not imported`);
+    }
+
     return sections;
   }
 
+  private finishSection(section: ParsedSection, sectionContent: string): void {
+    section.blocks = /<!--\s*CHUNK:/.test(sectionContent)
+      ? this.parseBlocks(sectionContent, section.id)
+      : this.inferBlocks(sectionContent, section.id);
+  }
+
   /**
    * Parse blocks within a section
    */
@@ -256,6 +606,7 @@ export class TemplateParser {
 
         // Parse chunk directive
         const chunkDirective = this.parseChunkDirective(chunkMatch[1]);
+        const inferred = this.inferBlockType(lines, i, sectionId);
 
         currentDirectives = {
           chunk: chunkDirective,
@@ -263,9 +614,10 @@ export class TemplateParser {
         };
         currentBlock = {
           id: chunkDirective.id,
-          type: this.inferBlockType(lines, i, sectionId),
+          type: inferred.type,
           position: chunkDirective.position ?? blockPosition++,
           directives: currentDirectives,
+          inference: { boundary: 'explicit', type: 'inferred', reason: inferred.reason },
         };
         currentContent = '';
         continue;
@@ -288,6 +640,14 @@ export class TemplateParser {
           case 'PIPELINE':
             currentDirectives.pipeline = this.parsePipelineDirective(directiveValue);
             break;
+          case 'CONSTRAINTS':
+            currentDirectives.constraints = this.parseConstraintsDirective(directiveValue);
+            break;
+          case 'BLOCK_TYPE':
+            // Explicit type wins over inference from the content
+            currentBlock.type = directiveValue;
+            currentBlock.inference = { boundary: 'explicit', type: 'explicit' };
+            break;
         }
         continue;
       }
@@ -308,6 +668,71 @@ export class TemplateParser {
     return blocks;
   }
 
+  /**
+   * Split a section without CHUNK directives into blocks: each heading, table,
+   * code fence and paragraph becomes its own block with an inferred type.
+   */
+  private inferBlocks(sectionContent: string, sectionId: string): ParsedBlock[] {
+    const segments: string[][] = [];
+    let current: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      if (current.some((l) => l.trim())) segments.push(current);
+      current = [];
+    };
+
+    for (const line of sectionContent.split('\n')) {
+      const trimmed = line.trim();
+
+      if (inFence) {
+        current.push(line);
+        if (trimmed.startsWith('```')) {
+          inFence = false;
+          flush();
+        }
+        continue;
+      }
+
+      // Section directives were already read; other comments are not content
+      if (trimmed.startsWith('<!--') && trimmed.endsWith('-->')) continue;
+
+      if (trimmed.startsWith('```')) {
+        flush();
+        inFence = true;
+        current.push(line);
+      } else if (HEADING_PATTERN.test(trimmed)) {
+        flush();
+        segments.push([line]);
+      } else if (!trimmed) {
+        flush();
+      } else {
+        // Tables and prose next to each other are separate blocks
+        if (current.length > 0 && trimmed.startsWith('|') !== current[0].trim().startsWith('|')) {
+          flush();
+        }
+        current.push(line);
+      }
+    }
+    flush();
+
+    return segments.map((segment, position) => {
+      const markdown = segment.join('\n');
+      const { type, reason } = this.classifyContent(markdown);
+      const id = `${sectionId}_${position + 1}`;
+
+      return {
+        id,
+        type,
+        position,
+        content: this.parseBlockContent(markdown, type),
+        directives: { chunk: { id, position } },
+        rawMarkdown: markdown,
+        inference: { boundary: 'inferred', type: 'inferred', reason },
+      };
+    });
+  }
+
   /**
    * Parse CHUNK directive value: "id | POSITION: n | ENTITIES: min-max"
    */
@@ -372,10 +797,37 @@ export class TemplateParser {
     };
   }
 
+  /**
+   * Parse CONSTRAINTS directive: "WORDS: min-max | ENTITIES: min-max | STRICT"
+   */
+  private parseConstraintsDirective(value: string): ConstraintsDirective {
+    const directive: ConstraintsDirective = {};
+
+    for (const part of value.split('|').map((p) => p.trim())) {
+      const wordsMatch = part.match(/^WORDS:\s*(\d+)-(\d+)$/);
+      if (wordsMatch) {
+        directive.minWords = parseInt(wordsMatch[1]);
+        directive.maxWords = parseInt(wordsMatch[2]);
+      }
+
+      const entitiesMatch = part.match(/^ENTITIES:\s*(\d+)-(\d+)$/);
+      if (entitiesMatch) {
+        directive.minEntities = parseInt(entitiesMatch[1]);
+        directive.maxEntities = parseInt(entitiesMatch[2]);
+      }
+
+      if (part === 'STRICT') {
+        directive.strict = true;
+      }
+    }
+
+    return directive;
+  }
+
   /**
    * Infer block type from surrounding content
    */
-  private inferBlockType(lines: string[], startIndex: number, sectionId: string): string {
+  private inferBlockType(lines: string[], startIndex: number, sectionId: string): { type: string; reason: string } {
     // Look at the next few non-directive lines
     for (let i = startIndex + 1; i < Math.min(startIndex + 10, lines.length); i++) {
       const line = lines[i].trim();
@@ -385,44 +837,66 @@ export class TemplateParser {
 
       // Check for heading
       if (line.startsWith('#')) {
-        return 'heading';
+        return { type: 'heading', reason: 'starts with a heading' };
       }
 
       // Check for table
       if (line.startsWith('|') && line.includes('|')) {
-        return 'metric_table';
+        return { type: 'metric_table', reason: 'starts with a table' };
       }
 
       // Check for feature pattern
       if (line.includes('**Feature ID**') || line.includes('**Feature Name**')) {
-        return 'feature';
+        return { type: 'feature', reason: 'has feature fields' };
       }
 
       // Check for math model pattern
       if (line.includes('**Model ID**') || line.includes('**Volatility')) {
-        return 'math_model';
+        return { type: 'math_model', reason: 'has math model fields' };
       }
 
       // Check for archetype pattern
       if (line.includes('**Archetype ID**') || line.includes('**Player Profile**')) {
-        return 'archetype_profile';
+        return { type: 'archetype_profile', reason: 'has archetype fields' };
       }
 
       // Default based on section
-      if (sectionId === 'math_framework') {
-        return 'math_model';
-      }
-      if (sectionId === 'game_mechanics') {
-        return 'feature';
-      }
-      if (sectionId === 'player_experience') {
-        return 'archetype_profile';
+      const sectionDefault = SECTION_DEFAULT_BLOCK_TYPE[sectionId];
+      if (sectionDefault) {
+        return { type: sectionDefault, reason: `default for ${sectionId} sections` };
       }
 
-      return 'paragraph';
+      return { type: 'paragraph', reason: 'plain text' };
     }
 
-    return 'paragraph';
+    return { type: 'paragraph', reason: 'plain text' };
+  }
+
+  /**
+   * Classify a block split from markdown without directives. Unlike inferBlockType
+   * this does not fall back to section defaults: prose stays a paragraph unless
+   * it talks about RTP or volatility, which makes it a math model candidate.
+   */
+  private classifyContent(markdown: string): { type: string; reason: string } {
+    const trimmed = markdown.trim();
+
+    if (HEADING_PATTERN.test(trimmed)) {
+      return { type: 'heading', reason: 'heading line' };
+    }
+    if (trimmed.startsWith('|')) {
+      return { type: 'metric_table', reason: 'markdown table' };
+    }
+    if (trimmed.includes('**Feature ID**') || trimmed.includes('**Feature Name**')) {
+      return { type: 'feature', reason: 'has feature fields' };
+    }
+    if (trimmed.includes('**Archetype ID**') || trimmed.includes('**Player Profile**')) {
+      return { type: 'archetype_profile', reason: 'has archetype fields' };
+    }
+    if (trimmed.includes('**Model ID**') || /\bRTP\b|volatility/i.test(trimmed)) {
+      return { type: 'math_model', reason: 'mentions RTP or volatility' };
+    }
+
+    return { type: 'paragraph', reason: 'plain text' };
   }
 
   /**
@@ -431,6 +905,16 @@ export class TemplateParser {
   private parseBlockContent(markdown: string, blockType: string): BlockContent {
     const trimmed = markdown.trim();
 
+    // Structured content with no markdown form is exported as a JSON code fence
+    const jsonMatch = trimmed.match(/^```json\n([\s\S]*)\n```$/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[1]) as BlockContent;
+      } catch {
+        // Not valid JSON, treat it as regular markdown
+      }
+    }
+
     switch (blockType) {
       case 'heading': {
         const match = trimmed.match(/^(#{1,6})\s+(.+)$/m);
@@ -521,6 +1005,16 @@ export class TemplateParser {
     const nameMatch = markdown.match(/\*\*Model Name\*\*:\s*(.+)/);
     if (nameMatch) model.name = nameMatch[1].trim();
 
+    // Free-form prose often states the headline numbers, e.g. "RTP of 96.5%"
+    const parameters: Record<string, unknown> = {};
+    const rtpMatch = markdown.match(/\bRTP\b[^\d\n]{0,20}(\d{2,3}(?:\.\d+)?)\s*%/i);
+    if (rtpMatch) parameters.rtp = parseFloat(rtpMatch[1]);
+
+    const volatilityMatch = markdown.match(/\b(low|medium|high|very high)[\s-]+volatility\b|\bvolatility\b[^\w\n]{0,3}\s*(low|medium|high|very high)\b/i);
+    if (volatilityMatch) parameters.volatility = (volatilityMatch[1] || volatilityMatch[2]).toLowerCase();
+
+    if (Object.keys(parameters).length > 0) model.parameters = parameters;
+
     return model;
   }
 
@@ -533,8 +1027,9 @@ export class TemplateParser {
     lines: string[],
     currentIndex: number
   ): string {
-    // Check for explicit SECTION_ID directive in following lines
+    // Check for explicit SECTION_ID directive in following lines of this section
     for (let i = currentIndex + 1; i < Math.min(currentIndex + 5, lines.length); i++) {
+      if (/^##\s/.test(lines[i])) break;
       const match = lines[i].match(/<!--\s*SECTION_ID:\s*(\w+)\s*-->/);
       if (match) {
         return match[1];
@@ -578,7 +1073,7 @@ export class TemplateParser {
   /**
    * Extract template name from content
    */
-  private extractTemplateName(content: string): string {
+  extractTemplateName(content: string): string {
     const match = content.match(/^#\s+(.+?)(?:\[|\n)/m);
     if (match) {
       return match[1].replace(':', '').trim();
@@ -589,7 +1084,7 @@ export class TemplateParser {
   /**
    * Extract description from content
    */
-  private extractDescription(content: string): string {
+  extractDescription(content: string): string {
     // Look for first paragraph after title
     const lines = content.split('\n');
     let foundTitle = false;
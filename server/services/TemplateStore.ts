@@ -0,0 +1,402 @@
+/**
+ * Template Store
+ *
+ * Templates live in the templates table, with every saved revision kept in
+ * template_versions. Markdown files in sandbox/templates seed the table the
+ * first time they are seen; after that the database copy is the one that is
+ * edited, duplicated and deleted. Deletes are soft so a removed seed template
+ * is not seeded again on the next start.
+ *
+ * EXTENDS and INCLUDE directives name other templates by ID and are resolved
+ * whenever a template is loaded, so edits to a base template or partial show
+ * up in every template built on it.
+ */
+
+import { and, desc, eq, isNotNull, isNull } from 'drizzle-orm';
+import { db } from '../config/database';
+import { templates, templateVersions, type Template } from '../db/schema';
+import { templateParser, type TemplateLoader } from './TemplateParser';
+import type {
+  CreateTemplateRequest,
+  DuplicateTemplateRequest,
+  ParsedTemplate,
+  TemplateInfo,
+  TemplateSource,
+  TemplateValidationError,
+  TemplateVersionDetail,
+  TemplateVersionInfo,
+  UpdateTemplateRequest,
+} from '../types/template';
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,99}$/;
+
+// Fixed paths under /api/documents/templates that a template id would be shadowed by
+const RESERVED_TEMPLATE_IDS = ['list', 'validate'];
+
+export type TemplateLoadResult =
+  | { status: 'ok'; template: Template; parsed: ParsedTemplate }
+  | { status: 'not_found' }
+  | { status: 'invalid'; errors: TemplateValidationError[] };
+
+export type TemplateWriteResult =
+  | { status: 'ok'; template: TemplateInfo }
+  | { status: 'not_found' }
+  | { status: 'conflict'; error: string }
+  | { status: 'invalid'; error: string; errors?: TemplateValidationError[] };
+
+export class TemplateStore {
+  private seeding: Promise<void> | null = null;
+
+  /**
+   * List templates that have not been deleted, with section and chunk counts
+   * after EXTENDS/INCLUDE resolution
+   */
+  async listTemplates(): Promise<TemplateInfo[]> {
+    await this.ensureSeeded();
+
+    const rows = await db()
+      .select()
+      .from(templates)
+      .where(isNull(templates.deletedAt))
+      .orderBy(templates.name);
+
+    // Resolve references from the rows already loaded
+    const contents = new Map(rows.map((row) => [row.slug, row.content]));
+    const load: TemplateLoader = async (id) => contents.get(id) ?? null;
+
+    return Promise.all(rows.map((row) => this.toInfo(row, load)));
+  }
+
+  /**
+   * Load a template and parse its latest content with references resolved
+   */
+  async loadTemplate(templateId: string): Promise<TemplateLoadResult> {
+    await this.ensureSeeded();
+
+    const template = await this.findActive(templateId);
+    if (!template) return { status: 'not_found' };
+
+    const resolved = await templateParser.resolveTemplate(template.content, this.loader(), template.slug);
+    if (resolved.status === 'invalid') return resolved;
+
+    return { status: 'ok', template, parsed: resolved.template };
+  }
+
+  async createTemplate(request: CreateTemplateRequest): Promise<TemplateWriteResult> {
+    await this.ensureSeeded();
+
+    const name = request.name?.trim();
+    if (!name || !request.content?.trim()) {
+      return { status: 'invalid', error: 'name and content are required' };
+    }
+
+    const errors = templateParser.validateTemplate(request.content);
+    if (errors.length > 0) {
+      return { status: 'invalid', error: 'Template has invalid directives', errors };
+    }
+
+    const slug = await this.resolveSlug(request.id, name);
+    if (slug.status !== 'ok') return slug;
+
+    const resolved = await templateParser.resolveTemplate(request.content, this.loader(), slug.id);
+    if (resolved.status === 'invalid') {
+      return { status: 'invalid', error: 'Template has unresolvable references', errors: resolved.errors };
+    }
+
+    const template = await this.insert(slug.id, {
+      name,
+      description: request.description ?? templateParser.extractDescription(request.content),
+      content: request.content,
+      source: 'user',
+      createdBy: request.createdBy || 'user',
+      notes: 'Created',
+    });
+
+    return { status: 'ok', template: await this.toInfo(template) };
+  }
+
+  /**
+   * Update name, description or content. A new version is recorded only when
+   * the content changes.
+   */
+  async updateTemplate(templateId: string, request: UpdateTemplateRequest): Promise<TemplateWriteResult> {
+    await this.ensureSeeded();
+
+    const existing = await this.findActive(templateId);
+    if (!existing) return { status: 'not_found' };
+
+    const name = request.name?.trim();
+    if (request.name !== undefined && !name) {
+      return { status: 'invalid', error: 'name cannot be empty' };
+    }
+
+    if (request.content !== undefined) {
+      if (!request.content.trim()) {
+        return { status: 'invalid', error: 'content cannot be empty' };
+      }
+      const errors = templateParser.validateTemplate(request.content);
+      if (errors.length > 0) {
+        return { status: 'invalid', error: 'Template has invalid directives', errors };
+      }
+
+      // Resolution follows references back to this template, so a cycle
+      // through the templates that extend or include it is caught here too
+      const resolved = await templateParser.resolveTemplate(request.content, this.loader(), existing.slug);
+      if (resolved.status === 'invalid') {
+        return { status: 'invalid', error: 'Template has unresolvable references', errors: resolved.errors };
+      }
+    }
+
+    const contentChanged = request.content !== undefined && request.content !== existing.content;
+    const version = contentChanged ? existing.version + 1 : existing.version;
+
+    const [template] = await db()
+      .update(templates)
+      .set({
+        name: name ?? existing.name,
+        description: request.description ?? existing.description,
+        content: request.content ?? existing.content,
+        version,
+        updatedAt: new Date(),
+      })
+      .where(eq(templates.id, existing.id))
+      .returning();
+
+    if (contentChanged) {
+      await db().insert(templateVersions).values({
+        templateId: existing.id,
+        version,
+        content: template.content,
+        notes: request.notes || null,
+        createdBy: request.updatedBy || 'user',
+      });
+    }
+
+    return { status: 'ok', template: await this.toInfo(template) };
+  }
+
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    await this.ensureSeeded();
+
+    const deleted = await db()
+      .update(templates)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(templates.slug, templateId), isNull(templates.deletedAt)))
+      .returning({ id: templates.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Copy a template's latest content into a new user template. The copy's
+   * history starts at version 1.
+   */
+  async duplicateTemplate(templateId: string, request: DuplicateTemplateRequest): Promise<TemplateWriteResult> {
+    await this.ensureSeeded();
+
+    const source = await this.findActive(templateId);
+    if (!source) return { status: 'not_found' };
+
+    const name = request.name?.trim() || `${source.name} (copy)`;
+    const slug = await this.resolveSlug(request.id, name);
+    if (slug.status !== 'ok') return slug;
+
+    const template = await this.insert(slug.id, {
+      name,
+      description: source.description,
+      content: source.content,
+      source: 'user',
+      createdBy: request.createdBy || 'user',
+      notes: `Duplicated from ${source.slug} v${source.version}`,
+    });
+
+    return { status: 'ok', template: await this.toInfo(template) };
+  }
+
+  async listVersions(templateId: string): Promise<TemplateVersionInfo[] | null> {
+    await this.ensureSeeded();
+
+    const template = await this.findActive(templateId);
+    if (!template) return null;
+
+    return db()
+      .select({
+        version: templateVersions.version,
+        notes: templateVersions.notes,
+        createdBy: templateVersions.createdBy,
+        createdAt: templateVersions.createdAt,
+      })
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, template.id))
+      .orderBy(desc(templateVersions.version));
+  }
+
+  async getVersion(templateId: string, version: number): Promise<TemplateVersionDetail | null> {
+    await this.ensureSeeded();
+
+    const template = await this.findActive(templateId);
+    if (!template) return null;
+
+    const [row] = await db()
+      .select({
+        version: templateVersions.version,
+        notes: templateVersions.notes,
+        createdBy: templateVersions.createdBy,
+        createdAt: templateVersions.createdAt,
+        content: templateVersions.content,
+      })
+      .from(templateVersions)
+      .where(and(eq(templateVersions.templateId, template.id), eq(templateVersions.version, version)))
+      .limit(1);
+
+    return row || null;
+  }
+
+  /**
+   * Seed the table from the template files once per process. A failed seed
+   * is retried on the next call.
+   */
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seed().catch((error) => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private async seed(): Promise<void> {
+    for (const file of templateParser.readSeedTemplates()) {
+      // Any row with this slug wins, including a deleted one
+      const [template] = await db()
+        .insert(templates)
+        .values({
+          slug: file.id,
+          name: templateParser.extractTemplateName(file.content),
+          description: templateParser.extractDescription(file.content),
+          content: file.content,
+          source: 'seed',
+          createdBy: 'seed',
+        })
+        .onConflictDoNothing({ target: templates.slug })
+        .returning();
+
+      if (template) {
+        await db().insert(templateVersions).values({
+          templateId: template.id,
+          version: 1,
+          content: file.content,
+          notes: `Seeded from ${file.fileName}`,
+          createdBy: 'seed',
+        });
+        console.log(`[TemplateStore] Seeded template ${file.id}`);
+      }
+    }
+  }
+
+  private loader(): TemplateLoader {
+    return async (id) => (await this.findActive(id))?.content ?? null;
+  }
+
+  private async findActive(templateId: string): Promise<Template | undefined> {
+    const [template] = await db()
+      .select()
+      .from(templates)
+      .where(and(eq(templates.slug, templateId), isNull(templates.deletedAt)))
+      .limit(1);
+    return template;
+  }
+
+  /**
+   * Use the requested ID, or derive one from the name with a numeric suffix
+   * when it is taken. IDs of deleted templates can be reused.
+   */
+  private async resolveSlug(
+    requestedId: string | undefined,
+    name: string
+  ): Promise<{ status: 'ok'; id: string } | Extract<TemplateWriteResult, { status: 'conflict' | 'invalid' }>> {
+    if (requestedId) {
+      if (!TEMPLATE_ID_PATTERN.test(requestedId)) {
+        return {
+          status: 'invalid',
+          error: 'Template id must start with a lowercase letter or digit and contain only a-z, 0-9, "_" and "-"',
+        };
+      }
+      if (RESERVED_TEMPLATE_IDS.includes(requestedId)) {
+        return { status: 'invalid', error: `Template id "${requestedId}" is reserved` };
+      }
+      if (await this.findActive(requestedId)) {
+        return { status: 'conflict', error: `Template already exists: ${requestedId}` };
+      }
+      return { status: 'ok', id: requestedId };
+    }
+
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 90) || 'template';
+
+    let id = base;
+    for (let n = 2; RESERVED_TEMPLATE_IDS.includes(id) || (await this.findActive(id)); n++) {
+      id = `${base}_${n}`;
+    }
+    return { status: 'ok', id };
+  }
+
+  private async insert(
+    slug: string,
+    values: { name: string; description: string; content: string; source: TemplateSource; createdBy: string; notes: string }
+  ): Promise<Template> {
+    // A deleted template holding this ID gives it up, along with its history
+    await db()
+      .delete(templates)
+      .where(and(eq(templates.slug, slug), isNotNull(templates.deletedAt)));
+
+    const [template] = await db()
+      .insert(templates)
+      .values({
+        slug,
+        name: values.name,
+        description: values.description,
+        content: values.content,
+        source: values.source,
+        createdBy: values.createdBy,
+      })
+      .returning();
+
+    await db().insert(templateVersions).values({
+      templateId: template.id,
+      version: 1,
+      content: values.content,
+      notes: values.notes,
+      createdBy: values.createdBy,
+    });
+
+    return template;
+  }
+
+  private async toInfo(template: Template, load: TemplateLoader = this.loader()): Promise<TemplateInfo> {
+    const resolved = await templateParser.resolveTemplate(template.content, load, template.slug);
+
+    // Broken references still list the template, counted without them
+    const parsed = resolved.status === 'ok' ? resolved.template : templateParser.parseTemplate(template.content);
+
+    return {
+      id: template.slug,
+      name: template.name,
+      description: template.description,
+      source: template.source as TemplateSource,
+      version: template.version,
+      sectionCount: parsed.sections.length,
+      chunkCount: parsed.sections.reduce((acc, s) => acc + s.blocks.length, 0),
+      updatedAt: template.updatedAt,
+      ...(resolved.status === 'invalid' && { errors: resolved.errors }),
+    };
+  }
+}
+
+// Singleton instance
+export const templateStore = new TemplateStore();
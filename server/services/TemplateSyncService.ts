@@ -0,0 +1,399 @@
+/**
+ * Template Sync Service
+ *
+ * Re-applies a template's current directives to a document created from it
+ * (metadata.sourceTemplate). Sections are matched by SECTION_ID and blocks by
+ * CHUNK id. Matched sections and blocks take the template's directives;
+ * their titles and content are left alone. Sections and blocks the document
+ * lacks are added as empty placeholders in template order, except sections
+ * left out when the document was created (metadata.excludedSections). Anything
+ * the template no longer has is reported and kept. A sync is written in one
+ * transaction.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { documents, documentSections, documentBlocks } from '../db/schema';
+import { loadDocumentTree, type DocumentTreeBlock, type DocumentTreeSection } from './DocumentTree';
+import { isEqual } from './DocumentDiffService';
+import { templateStore } from './TemplateStore';
+import { editOperationLog, snapshotBlock, type EditOperationInput } from './EditOperationLog';
+import type {
+  BlockDirectives,
+  ParsedBlock,
+  ParsedSection,
+  SectionDirectives,
+  TemplateValidationError,
+} from '../types/template';
+
+// 'added': missing from the document; 'not_in_template': kept as is
+export type SyncChange = 'added' | 'changed' | 'unchanged' | 'not_in_template';
+
+export interface DirectiveChange {
+  directive: 'pipeline' | 'entityTypes' | 'relationships' | 'constraints' | 'entityRange';
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface BlockSyncPlan {
+  chunkId: string | null;
+  blockId: string | null; // Null until a missing block is added
+  blockType: string;
+  change: SyncChange;
+  directives: DirectiveChange[];
+}
+
+export interface SectionSyncPlan {
+  templateSectionId: string | null;
+  sectionId: string | null; // Null until a missing section is added
+  sectionType: string;
+  title: string | null;
+  change: SyncChange;
+  directives: DirectiveChange[];
+  blocks: BlockSyncPlan[];
+}
+
+// Counts over sections and blocks together
+export interface SyncSummary {
+  added: number;
+  changed: number;
+  notInTemplate: number;
+}
+
+export interface TemplateSyncPlan {
+  templateId: string;
+  fromVersion: number | null; // Template version the document was created from or last synced to
+  toVersion: number;
+  summary: SyncSummary;
+  sections: SectionSyncPlan[];
+}
+
+export type TemplateSyncResult =
+  | { status: 'ok'; plan: TemplateSyncPlan }
+  | { status: 'not_found' }
+  | { status: 'no_template' }
+  | { status: 'template_not_found'; templateId: string }
+  | { status: 'invalid'; errors: TemplateValidationError[] };
+
+// A template section or block paired with its match in the document, if any
+interface SectionPair {
+  template: ParsedSection | null;
+  existing: DocumentTreeSection | null;
+  plan: SectionSyncPlan;
+  blocks: { template: ParsedBlock | null; existing: DocumentTreeBlock | null; plan: BlockSyncPlan }[];
+}
+
+// The handle drizzle passes to a db().transaction callback
+type Transaction = Parameters<Parameters<ReturnType<typeof db>['transaction']>[0]>[0];
+
+const BLOCK_DIRECTIVES = ['pipeline', 'entityTypes', 'relationships', 'constraints'] as const;
+
+function compareDirective(
+  directive: DirectiveChange['directive'],
+  before: unknown,
+  after: unknown
+): DirectiveChange[] {
+  if (isEqual(before, after)) return [];
+  if (before === undefined) return [{ directive, kind: 'added', after }];
+  if (after === undefined) return [{ directive, kind: 'removed', before }];
+  return [{ directive, kind: 'changed', before, after }];
+}
+
+function compareBlockDirectives(before: BlockDirectives, after: BlockDirectives): DirectiveChange[] {
+  return [
+    ...BLOCK_DIRECTIVES.flatMap((key) => compareDirective(key, before[key], after[key])),
+    ...compareDirective('entityRange', before.chunk?.entityRange, after.chunk?.entityRange),
+  ];
+}
+
+// Insert each new item after the nearest earlier template item already placed
+function placeInTemplateOrder<T>(existing: T[], pairs: { item: T; isNew: boolean }[]): T[] {
+  const ordered = [...existing];
+  let anchor = -1;
+
+  for (const { item, isNew } of pairs) {
+    if (isNew) {
+      ordered.splice(anchor + 1, 0, item);
+      anchor++;
+    } else {
+      anchor = ordered.indexOf(item);
+    }
+  }
+
+  return ordered;
+}
+
+export class TemplateSyncService {
+  /**
+   * Compute what a sync would change without writing anything
+   */
+  async preview(documentId: string): Promise<TemplateSyncResult> {
+    const compared = await this.compare(documentId);
+    return compared.status === 'ok' ? { status: 'ok', plan: compared.plan } : compared;
+  }
+
+  /**
+   * Apply the template's directives and add missing sections and blocks
+   */
+  async apply(documentId: string, actor: string): Promise<TemplateSyncResult> {
+    const compared = await this.compare(documentId);
+    if (compared.status !== 'ok') return compared;
+
+    const { plan, pairs, tree } = compared;
+
+    // Added blocks are logged once the transaction commits, so a rolled back sync
+    // leaves no history. Directive rewrites are not logged: undo only restores content
+    const operations: EditOperationInput[] = [];
+
+    await db().transaction(async (tx) => {
+      // Sections: update directives, insert placeholders, then renumber
+      const sectionIds = new Map<SectionPair, string>();
+      for (const pair of pairs) {
+        if (pair.existing) {
+          sectionIds.set(pair, pair.existing.id);
+          if (pair.template && pair.plan.change === 'changed') {
+            const directives: SectionDirectives = {
+              ...((pair.existing.directives || {}) as SectionDirectives),
+              pipeline: pair.template.directives.pipeline,
+            };
+            if (!directives.pipeline) delete directives.pipeline;
+            await tx
+              .update(documentSections)
+              .set({ directives, updatedAt: new Date() })
+              .where(eq(documentSections.id, pair.existing.id));
+          }
+        } else if (pair.template) {
+          const [section] = await tx
+            .insert(documentSections)
+            .values({
+              documentId,
+              sectionType: pair.template.type,
+              title: pair.template.title,
+              position: pair.template.position,
+              directives: pair.template.directives,
+            })
+            .returning();
+          sectionIds.set(pair, section.id);
+          pair.plan.sectionId = section.id;
+        }
+      }
+
+      const sectionOrder = placeInTemplateOrder(
+        tree.sections.map((s) => s.id),
+        pairs
+          .filter((pair) => pair.template)
+          .map((pair) => ({ item: sectionIds.get(pair) as string, isNew: !pair.existing }))
+      );
+      await this.renumber(tx, documentSections, sectionOrder, new Map(tree.sections.map((s) => [s.id, s.position])));
+
+      // Blocks: same within each section that is in the template
+      for (const pair of pairs) {
+        if (!pair.template) continue;
+        const sectionId = sectionIds.get(pair) as string;
+        const blockIds = new Map<BlockSyncPlan, string>();
+
+        for (const { template, existing, plan: blockPlan } of pair.blocks) {
+          if (existing) {
+            blockIds.set(blockPlan, existing.id);
+            if (template && blockPlan.change === 'changed') {
+              // Keep the block's own chunk position; it may have been reordered
+              const position = ((existing.directives || {}) as BlockDirectives).chunk?.position;
+              const directives = template.directives.chunk
+                ? { ...template.directives, chunk: { ...template.directives.chunk, position } }
+                : template.directives;
+              await tx
+                .update(documentBlocks)
+                .set({ directives, updatedAt: new Date() })
+                .where(eq(documentBlocks.id, existing.id));
+            }
+          } else if (template) {
+            const [block] = await tx
+              .insert(documentBlocks)
+              .values({
+                documentId,
+                sectionId,
+                blockType: template.type,
+                position: template.position,
+                content: {},
+                directives: template.directives,
+                wordCount: 0,
+                createdBy: actor,
+                updatedBy: actor,
+              })
+              .returning();
+            blockIds.set(blockPlan, block.id);
+            blockPlan.blockId = block.id;
+
+            operations.push({
+              documentId,
+              blockId: block.id,
+              operationType: 'create',
+              newContent: snapshotBlock(block),
+              authoredBy: actor,
+            });
+          }
+        }
+
+        const existingBlocks = pair.existing?.blocks || [];
+        const blockOrder = placeInTemplateOrder(
+          existingBlocks.map((b) => b.id),
+          pair.blocks
+            .filter((b) => b.template)
+            .map((b) => ({ item: blockIds.get(b.plan) as string, isNew: !b.existing }))
+        );
+        await this.renumber(tx, documentBlocks, blockOrder, new Map(existingBlocks.map((b) => [b.id, b.position])));
+      }
+
+      await tx
+        .update(documents)
+        .set({
+          metadata: {
+            ...((tree.document.metadata || {}) as Record<string, unknown>),
+            sourceTemplateVersion: plan.toVersion,
+            templateSyncedAt: new Date().toISOString(),
+          },
+          updatedAt: new Date(),
+        })
+        .where(eq(documents.id, documentId));
+    });
+
+    for (const operation of operations) {
+      await editOperationLog.record(operation);
+    }
+
+    return { status: 'ok', plan };
+  }
+
+  private async compare(documentId: string) {
+    const tree = await loadDocumentTree(documentId);
+    if (!tree) return { status: 'not_found' as const };
+
+    const metadata = (tree.document.metadata || {}) as Record<string, unknown>;
+    const templateId = metadata.sourceTemplate;
+    if (typeof templateId !== 'string' || !templateId) return { status: 'no_template' as const };
+
+    const loaded = await templateStore.loadTemplate(templateId);
+    if (loaded.status === 'not_found') return { status: 'template_not_found' as const, templateId };
+    if (loaded.status === 'invalid') return loaded;
+
+    // Sections opted out of at creation are not offered again, unless the document has one anyway
+    const excluded = Array.isArray(metadata.excludedSections) ? (metadata.excludedSections as unknown[]) : [];
+
+    const pairs: SectionPair[] = [];
+    const unmatchedSections = [...tree.sections];
+
+    for (const templateSection of loaded.parsed.sections) {
+      const index = unmatchedSections.findIndex(
+        (s) => (((s.directives || {}) as SectionDirectives).sectionId ?? s.type) === templateSection.id
+      );
+      const existing = index >= 0 ? unmatchedSections.splice(index, 1)[0] : null;
+      if (!existing && excluded.includes(templateSection.id)) continue;
+      pairs.push(this.compareSection(templateSection, existing));
+    }
+
+    for (const existing of unmatchedSections) {
+      pairs.push(this.compareSection(null, existing));
+    }
+
+    const plan: TemplateSyncPlan = {
+      templateId,
+      fromVersion: typeof metadata.sourceTemplateVersion === 'number' ? metadata.sourceTemplateVersion : null,
+      toVersion: loaded.template.version,
+      summary: { added: 0, changed: 0, notInTemplate: 0 },
+      sections: pairs.map((pair) => pair.plan),
+    };
+
+    for (const change of pairs.flatMap((pair) => [pair.plan.change, ...pair.plan.blocks.map((b) => b.change)])) {
+      if (change === 'added') plan.summary.added++;
+      if (change === 'changed') plan.summary.changed++;
+      if (change === 'not_in_template') plan.summary.notInTemplate++;
+    }
+
+    return { status: 'ok' as const, plan, pairs, tree };
+  }
+
+  private compareSection(template: ParsedSection | null, existing: DocumentTreeSection | null): SectionPair {
+    const directives = (existing?.directives || {}) as SectionDirectives;
+    const directiveChanges =
+      template && existing ? compareDirective('pipeline', directives.pipeline, template.directives.pipeline) : [];
+
+    const blocks: SectionPair['blocks'] = [];
+    const unmatchedBlocks = [...(existing?.blocks || [])];
+
+    for (const templateBlock of template?.blocks || []) {
+      const chunkId = templateBlock.directives.chunk?.id ?? null;
+      const index = unmatchedBlocks.findIndex(
+        (b) => chunkId !== null && ((b.directives || {}) as BlockDirectives).chunk?.id === chunkId
+      );
+      const existingBlock = index >= 0 ? unmatchedBlocks.splice(index, 1)[0] : null;
+      const changes = existingBlock
+        ? compareBlockDirectives((existingBlock.directives || {}) as BlockDirectives, templateBlock.directives)
+        : [];
+
+      blocks.push({
+        template: templateBlock,
+        existing: existingBlock,
+        plan: {
+          chunkId,
+          blockId: existingBlock?.id ?? null,
+          blockType: existingBlock?.type ?? templateBlock.type,
+          change: !existingBlock ? 'added' : changes.length > 0 ? 'changed' : 'unchanged',
+          directives: changes,
+        },
+      });
+    }
+
+    // Blocks of sections the template dropped are kept along with the section
+    for (const existingBlock of unmatchedBlocks) {
+      blocks.push({
+        template: null,
+        existing: existingBlock,
+        plan: {
+          chunkId: ((existingBlock.directives || {}) as BlockDirectives).chunk?.id ?? null,
+          blockId: existingBlock.id,
+          blockType: existingBlock.type,
+          change: template ? 'not_in_template' : 'unchanged',
+          directives: [],
+        },
+      });
+    }
+
+    return {
+      template,
+      existing,
+      blocks,
+      plan: {
+        templateSectionId: template?.id ?? directives.sectionId ?? null,
+        sectionId: existing?.id ?? null,
+        sectionType: existing?.type ?? (template as ParsedSection).type,
+        title: existing ? existing.title : (template as ParsedSection).title,
+        change: !template
+          ? 'not_in_template'
+          : !existing
+            ? 'added'
+            : directiveChanges.length > 0
+              ? 'changed'
+              : 'unchanged',
+        directives: directiveChanges,
+        blocks: blocks.map((block) => block.plan),
+      },
+    };
+  }
+
+  private async renumber(
+    tx: Transaction,
+    table: typeof documentSections | typeof documentBlocks,
+    order: string[],
+    current: Map<string, number>
+  ): Promise<void> {
+    for (const [position, id] of order.entries()) {
+      if (current.get(id) !== position) {
+        await tx.update(table).set({ position }).where(eq(table.id, id));
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const templateSyncService = new TemplateSyncService();
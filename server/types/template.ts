@@ -12,6 +12,10 @@ export type DirectiveType =
   | 'ENTITY_TYPES'
   | 'RELATIONSHIPS'
   | 'PIPELINE'
+  | 'BLOCK_TYPE' // <!-- BLOCK_TYPE: metric_table --> overrides type inference
+  | 'CONSTRAINTS' // <!-- CONSTRAINTS: WORDS: 50-200 | STRICT --> word and entity bounds
+  | 'EXTENDS' // <!-- EXTENDS: base_gdd --> inherits another template's sections
+  | 'INCLUDE' // <!-- INCLUDE: compliance_section --> inserts another template's sections
   | 'DOCUMENT_METADATA';
 
 // Parsed chunk directive: <!-- CHUNK: id | POSITION: n | ENTITIES: min-max -->
@@ -45,12 +49,13 @@ export interface PipelineDirective {
   fallback?: string[];
 }
 
-// Constraints parsed from various sources
+// Parsed constraints directive: <!-- CONSTRAINTS: WORDS: 50-200 | ENTITIES: 2-5 | STRICT -->
 export interface ConstraintsDirective {
   minWords?: number;
   maxWords?: number;
   minEntities?: number;
   maxEntities?: number;
+  strict?: boolean; // Violations are errors rather than warnings
 }
 
 // Combined directives for a block
@@ -83,11 +88,15 @@ export interface DocumentMetadataDirective {
   totalEntities?: number;
 }
 
+// Whether a piece of structure came from a directive or was inferred by the parser
+export type InferenceSource = 'explicit' | 'inferred';
+
 // Parsed template structure
 export interface ParsedTemplate {
   metadata: DocumentMetadataDirective;
   sections: ParsedSection[];
   rawContent: string;
+  warnings: string[];
 }
 
 export interface ParsedSection {
@@ -97,6 +106,7 @@ export interface ParsedSection {
   position: number;
   directives: SectionDirectives;
   blocks: ParsedBlock[];
+  idSource: InferenceSource; // SECTION_ID directive or inferred from the title
 }
 
 export interface ParsedBlock {
@@ -106,6 +116,13 @@ export interface ParsedBlock {
   content: BlockContent;
   directives: BlockDirectives;
   rawMarkdown: string;
+  inference: BlockInference;
+}
+
+export interface BlockInference {
+  boundary: InferenceSource; // CHUNK directive or split from the content
+  type: InferenceSource; // BLOCK_TYPE directive or heuristics
+  reason?: string; // Why an inferred type was chosen
 }
 
 // Block content structure (varies by type)
@@ -169,22 +186,71 @@ export const PIPELINE_PRIORITY: Record<string, number> = {
   confluence: 4,
 };
 
-// Template file info
+// Seed templates come from sandbox/templates; user templates are authored in the app
+export type TemplateSource = 'seed' | 'user';
+
+// Template info
 export interface TemplateInfo {
   id: string;
   name: string;
   description: string;
-  fileName: string;
-  path: string;
+  source: TemplateSource;
+  version: number;
   sectionCount: number;
   chunkCount: number;
+  updatedAt: Date;
+  errors?: TemplateValidationError[]; // EXTENDS/INCLUDE references that could not be resolved
+}
+
+export interface TemplateVersionInfo {
+  version: number;
+  notes: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface TemplateVersionDetail extends TemplateVersionInfo {
+  content: string;
+}
+
+// A malformed directive, with its 1-based line in the template markdown
+export interface TemplateValidationError {
+  line: number;
+  directive: string;
+  message: string;
+}
+
+export interface CreateTemplateRequest {
+  id?: string;
+  name: string;
+  description?: string;
+  content: string;
+  createdBy?: string;
+}
+
+export interface UpdateTemplateRequest {
+  name?: string;
+  description?: string;
+  content?: string;
+  notes?: string;
+  updatedBy?: string;
+}
+
+export interface DuplicateTemplateRequest {
+  id?: string;
+  name?: string;
+  createdBy?: string;
 }
 
 // Request/Response types for API
 export interface CreateDocumentFromTemplateRequest {
   templateId: string;
   documentName: string;
-  initialMetadata?: Partial<DocumentMetadataDirective>;
+  initialMetadata?: Partial<DocumentMetadataDirective> & {
+    gameType?: string;
+    targetMarkets?: string[];
+  };
+  excludedSections?: string[]; // Parsed section IDs to leave out of the new document
 }
 
 export interface CreateDocumentFromTemplateResponse {
@@ -193,17 +259,63 @@ export interface CreateDocumentFromTemplateResponse {
   blockCount: number;
 }
 
+export interface ImportMarkdownRequest {
+  markdown: string;
+  documentName: string;
+  initialMetadata?: Partial<DocumentMetadataDirective>;
+}
+
+export interface ImportMarkdownResponse extends CreateDocumentFromTemplateResponse {
+  report: ImportReport;
+}
+
+// What the parser found as directives versus what it inferred on import
+export interface ImportReport {
+  sections: ImportReportSection[];
+  summary: {
+    sectionIds: Record<InferenceSource, number>;
+    blockBoundaries: Record<InferenceSource, number>;
+    blockTypes: Record<InferenceSource, number>;
+  };
+  warnings: string[];
+}
+
+export interface ImportReportSection {
+  sectionId: string;
+  title: string;
+  type: string;
+  idSource: InferenceSource;
+  blocks: ImportReportBlock[];
+}
+
+export interface ImportReportBlock {
+  blockId: string;
+  type: string;
+  boundary: InferenceSource;
+  typeSource: InferenceSource;
+  reason?: string;
+}
+
 // Validation types
 export interface ValidationError {
   type: 'missing_chunk_id' | 'invalid_entity_type' | 'constraint_violation';
   message: string;
   blockId?: string;
+  expected?: number | string;
+  actual?: number | string;
 }
 
 export interface ValidationWarning {
-  type: 'entity_count_low' | 'entity_count_high' | 'missing_relationship' | 'word_count' | 'invalid_entity_type';
+  type:
+    | 'entity_count_low'
+    | 'entity_count_high'
+    | 'missing_relationship'
+    | 'word_count'
+    | 'invalid_entity_type'
+    | 'missing_expected_entity';
   message: string;
   blockId?: string;
+  sectionId?: string;
   expected?: number | string;
   actual?: number | string;
 }
@@ -213,3 +325,29 @@ export interface ValidationResult {
   errors: ValidationError[];
   warnings: ValidationWarning[];
 }
+
+// Whole-document validation (GET /api/documents/:id/validation)
+export interface BlockValidationReport extends ValidationResult {
+  blockId: string;
+  blockType: string;
+  position: number;
+}
+
+export interface SectionValidationReport {
+  sectionId: string;
+  sectionType: string;
+  title: string | null;
+  warnings: ValidationWarning[]; // Section-level checks
+  blocks: BlockValidationReport[];
+}
+
+export interface DocumentValidationReport {
+  documentId: string;
+  summary: {
+    totalBlocks: number;
+    validBlocks: number;
+    errorCount: number;
+    warningCount: number; // Block and section warnings
+  };
+  sections: SectionValidationReport[];
+}
@@ -272,7 +272,11 @@ export class WebSocketHandler {
     const client = this.clients.get(sessionId);
     if (!client || !payload) return;
 
-    const { documentId, query } = payload as { documentId: string; query: string };
+    const { documentId, query, chatMessageId } = payload as {
+      documentId: string;
+      query: string;
+      chatMessageId?: string;
+    };
 
     if (!documentId || !query) {
       this.send(client.ws, {
@@ -286,8 +290,8 @@ export class WebSocketHandler {
     const eventCallback = (event: Record<string, unknown>) => {
       this.send(client.ws, event);
 
-      // Broadcast block updates to all clients viewing this document
-      if (event.type === 'block_update') {
+      // Broadcast block updates and edit validation to all clients viewing this document
+      if (event.type === 'block_update' || event.type === 'edit_validation_result') {
         this.broadcastToDocument(documentId, event, sessionId);
       }
     };
@@ -297,7 +301,8 @@ export class WebSocketHandler {
         sessionId,
         documentId,
         query,
-        eventCallback
+        eventCallback,
+        { chatMessageId }
       );
     } catch (error) {
       console.error('Analysis error:', error);
@@ -321,7 +326,7 @@ export class WebSocketHandler {
     };
 
     try {
-      await this.pipelineOrchestrator.controlPipeline(
+      const state = await this.pipelineOrchestrator.controlPipeline(
         sessionId,
         pipelineName,
         action,
@@ -330,7 +335,7 @@ export class WebSocketHandler {
 
       this.send(client.ws, {
         type: 'pipeline_control_ack',
-        payload: { pipelineName, action, success: true },
+        payload: { pipelineName, action, success: true, state },
       });
     } catch (error) {
       this.send(client.ws, {
@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { markdownExporter } from '../../../server/services/MarkdownExporter';
+import { templateParser } from '../../../server/services/TemplateParser';
+import type { DocumentTree, DocumentTreeBlock, DocumentTreeSection } from '../../../server/services/DocumentTree';
+
+function block(
+  id: string,
+  position: number,
+  type: string,
+  content: Record<string, unknown>,
+  directives = {}
+): DocumentTreeBlock {
+  return {
+    id,
+    type,
+    content,
+    position,
+    directives: { chunk: { id, position }, ...directives },
+    entities: [],
+    relationships: [],
+    wordCount: 0,
+    createdBy: null,
+    updatedBy: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function section(type: string, title: string, position: number, blocks: DocumentTreeBlock[]): DocumentTreeSection {
+  return { id: `${type}-id`, type, title, position, directives: { sectionId: type }, blocks };
+}
+
+function tree(sections: DocumentTreeSection[]): DocumentTree {
+  return {
+    document: {
+      id: 'doc-1',
+      userId: null,
+      fileName: 'Round Trip',
+      version: '1.2.0',
+      status: 'draft',
+      content: {},
+      metadata: { author: 'Test Author' },
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+    },
+    sections,
+  };
+}
+
+function roundTrip(input: DocumentTree) {
+  return templateParser.parseTemplate(markdownExporter.serialize(input));
+}
+
+describe('MarkdownExporter', () => {
+  it('reads back the document metadata', () => {
+    const parsed = roundTrip(tree([section('executive_summary', 'Executive Summary', 0, [])]));
+
+    expect(parsed.metadata).toMatchObject({ version: '1.2.0', status: 'draft', author: 'Test Author' });
+  });
+
+  it('round-trips text, heading and table blocks as markdown', () => {
+    const input = tree([
+      section('executive_summary', 'Executive Summary', 0, [
+        block('b-heading', 0, 'heading', { heading: { level: 3, text: 'Why now' } }),
+        block('b-text', 1, 'text', { text: 'Teams lose track of decisions.\n\nSecond paragraph.' }),
+        block('b-table', 2, 'metric_table', {
+          table: { headers: ['Metric', 'Target'], rows: [['Adoption', '40%'], ['Churn', '2%']] },
+        }),
+      ]),
+    ]);
+
+    const markdown = markdownExporter.serialize(input);
+    expect(markdown).not.toContain('```json');
+
+    const [parsedSection] = roundTrip(input).sections;
+    expect(parsedSection).toMatchObject({ type: 'executive_summary', title: 'Executive Summary' });
+    expect(parsedSection.blocks.map(({ id, type, content }) => ({ id, type, content }))).toEqual([
+      { id: 'b-heading', type: 'heading', content: { heading: { level: 3, text: 'Why now' } } },
+      { id: 'b-text', type: 'text', content: { text: 'Teams lose track of decisions.\n\nSecond paragraph.' } },
+      {
+        id: 'b-table',
+        type: 'metric_table',
+        content: { table: { headers: ['Metric', 'Target'], rows: [['Adoption', '40%'], ['Churn', '2%']] } },
+      },
+    ]);
+  });
+
+  it('writes structured content as a JSON fence that parses back unchanged', () => {
+    const content = {
+      personas: [{ name: 'Ops lead', goals: ['Fewer escalations'] }],
+      text: 'Mixed with other fields',
+    };
+    const input = tree([
+      section('player_experience', 'Player Experience', 0, [block('b-personas', 0, 'persona_list', content)]),
+    ]);
+
+    expect(markdownExporter.serialize(input)).toContain('```json');
+    expect(roundTrip(input).sections[0].blocks[0]).toMatchObject({ id: 'b-personas', type: 'persona_list', content });
+  });
+
+  it('falls back to a JSON fence for text the parser would read as structure', () => {
+    const content = { text: '<!-- NOTE: not a directive -->\nBody' };
+    const input = tree([section('design_vision', 'Design Vision', 0, [block('b-text', 0, 'text', content)])]);
+
+    expect(roundTrip(input).sections[0].blocks[0].content).toEqual(content);
+  });
+
+  it('keeps empty sections in order', () => {
+    const input = tree([
+      section('design_vision', 'Design Vision', 0, []),
+      section('game_mechanics', 'Game Mechanics', 1, [block('b-scope', 0, 'text', { text: 'In scope.' })]),
+      section('compliance', 'Compliance', 2, []),
+    ]);
+
+    const parsed = roundTrip(input);
+    expect(parsed.sections.map((s) => [s.type, s.title, s.blocks.length])).toEqual([
+      ['design_vision', 'Design Vision', 0],
+      ['game_mechanics', 'Game Mechanics', 1],
+      ['compliance', 'Compliance', 0],
+    ]);
+  });
+
+  it('round-trips CONSTRAINTS including STRICT', () => {
+    const input = tree([
+      section('success_metrics', 'Success Metrics', 0, [
+        block('b-strict', 0, 'text', { text: 'Ship it.' }, {
+          constraints: { minWords: 10, maxWords: 200, minEntities: 1, maxEntities: 5, strict: true },
+        }),
+        block('b-loose', 1, 'text', { text: 'Maybe later.' }, { constraints: { minWords: 5, maxWords: 50 } }),
+      ]),
+    ]);
+
+    const [strict, loose] = roundTrip(input).sections[0].blocks;
+    expect(strict.directives.constraints).toEqual({
+      minWords: 10,
+      maxWords: 200,
+      minEntities: 1,
+      maxEntities: 5,
+      strict: true,
+    });
+    expect(loose.directives.constraints).toEqual({ minWords: 5, maxWords: 50 });
+  });
+});
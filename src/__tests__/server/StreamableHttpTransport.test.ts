@@ -0,0 +1,175 @@
+/**
+ * @jest-environment ./src/testing/nodeFetchEnvironment.js
+ */
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { StreamableHttpTransport } from '../../../server/services/MCPTransport';
+import type { MCPMessage, MCPRequest } from '../../../server/services/MCPBridge';
+
+interface ReceivedRequest {
+  method: string;
+  sessionId?: string;
+  protocolVersion?: string;
+  body?: MCPRequest;
+}
+
+type Handler = (request: ReceivedRequest, res: http.ServerResponse) => void;
+
+// Local MCP server stub; each test sets the handler and reads what was received
+let server: http.Server;
+let url: string;
+let handler: Handler;
+let received: ReceivedRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const request: ReceivedRequest = {
+        method: req.method || '',
+        sessionId: req.headers['mcp-session-id'] as string | undefined,
+        protocolVersion: req.headers['mcp-protocol-version'] as string | undefined,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      received.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+function reply(res: http.ServerResponse, request: ReceivedRequest, headers: Record<string, string> = {}) {
+  res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id: request.body?.id, result: { method: request.body?.method } }));
+}
+
+function status(res: http.ServerResponse, code: number) {
+  res.writeHead(code);
+  res.end();
+}
+
+function request(id: number, method: string): MCPRequest {
+  return { jsonrpc: '2.0', id, method };
+}
+
+async function startTransport(options: { maxRetries?: number } = {}) {
+  const transport = new StreamableHttpTransport(url, { baseDelayMs: 1, maxDelayMs: 5, ...options });
+  const messages: MCPMessage[] = [];
+  transport.onmessage = (message) => messages.push(message);
+  await transport.start();
+  return { transport, messages };
+}
+
+describe('StreamableHttpTransport', () => {
+  it('sends the session id and protocol version the server assigned', async () => {
+    handler = (req, res) => {
+      if (req.method === 'DELETE') return status(res, 200);
+      reply(res, req, req.body?.method === 'initialize' ? { 'Mcp-Session-Id': 'session-1' } : {});
+    };
+    const { transport, messages } = await startTransport();
+
+    await transport.send(request(1, 'initialize'));
+    transport.setProtocolVersion('2025-06-18');
+    await transport.send(request(2, 'tools/list'));
+    await transport.close();
+
+    expect(received[0].sessionId).toBeUndefined();
+    expect(received[1]).toMatchObject({ sessionId: 'session-1', protocolVersion: '2025-06-18' });
+    expect(received[2]).toMatchObject({ method: 'DELETE', sessionId: 'session-1' });
+    expect(messages.map((m) => (m as { id: number }).id)).toEqual([1, 2]);
+  });
+
+  it('starts a new session without the old id when initializing again', async () => {
+    let sessions = 0;
+    handler = (req, res) => {
+      if (req.method === 'DELETE') return status(res, 200);
+      reply(res, req, req.body?.method === 'initialize' ? { 'Mcp-Session-Id': `session-${++sessions}` } : {});
+    };
+    const { transport } = await startTransport();
+
+    await transport.send(request(1, 'initialize'));
+    await transport.send(request(2, 'initialize'));
+    await transport.close();
+
+    expect(received[1].sessionId).toBeUndefined();
+    expect(received[2].sessionId).toBe('session-2');
+  });
+
+  it('re-initializes and replays the request once when the session expired', async () => {
+    let sessions = 0;
+    handler = (req, res) => {
+      if (req.method === 'DELETE') return status(res, 200);
+      if (req.body?.method === 'initialize') {
+        return reply(res, req, { 'Mcp-Session-Id': `session-${++sessions}` });
+      }
+      // The server forgot the first session
+      if (req.sessionId === 'session-1') return status(res, 404);
+      reply(res, req);
+    };
+    const { transport, messages } = await startTransport();
+    const onsessionexpired = jest.fn(() => transport.send(request(10, 'initialize')));
+    transport.onsessionexpired = onsessionexpired;
+
+    await transport.send(request(1, 'initialize'));
+    await transport.send(request(2, 'tools/call'));
+    await transport.close();
+
+    expect(onsessionexpired).toHaveBeenCalledTimes(1);
+    expect(received.map((r) => [r.body?.method ?? r.method, r.sessionId])).toEqual([
+      ['initialize', undefined],
+      ['tools/call', 'session-1'],
+      ['initialize', undefined],
+      ['tools/call', 'session-2'],
+      ['DELETE', 'session-2'],
+    ]);
+    expect(messages.map((m) => (m as { id: number }).id)).toEqual([1, 10, 2]);
+  });
+
+  it('retries gateway errors until the server answers', async () => {
+    const failures = [502, 503, 504];
+    handler = (req, res) => {
+      const code = failures.shift();
+      if (code) return status(res, code);
+      reply(res, req);
+    };
+    const { transport, messages } = await startTransport();
+
+    await transport.send(request(1, 'tools/list'));
+
+    expect(received).toHaveLength(4);
+    expect(messages).toHaveLength(1);
+  });
+
+  it('does not retry other errors', async () => {
+    handler = (req, res) => status(res, 500);
+    const { transport } = await startTransport();
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+
+    await expect(transport.send(request(1, 'tools/list'))).rejects.toThrow('MCP HTTP 500');
+    expect(received).toHaveLength(1);
+    expect(onclose).not.toHaveBeenCalled();
+  });
+
+  it('closes the transport once the retries run out', async () => {
+    handler = (req, res) => status(res, 503);
+    const { transport } = await startTransport({ maxRetries: 2 });
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+
+    await expect(transport.send(request(1, 'tools/list'))).rejects.toThrow('MCP HTTP 503');
+    expect(received).toHaveLength(3);
+    expect(onclose).toHaveBeenCalledWith('server unavailable (HTTP 503)');
+  });
+});
@@ -1,17 +1,48 @@
 import { User, Bot, Loader2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { ChatMessage as ChatMessageType } from '../../types';
-import { cn } from '../../lib/utils';
+import type { ChatMessage as ChatMessageType, DocumentReference } from '../../types';
+import { cn, scrollToDocumentElement } from '../../lib/utils';
+import { useDocumentStore } from '../../store';
+import { ToolCallCard } from './ToolCallCard';
+import { EditProposalCard, type EditProposalDecisionHandler } from './EditProposalCard';
 
 interface ChatMessageProps {
   message: ChatMessageType;
   isStreaming?: boolean;
+  onProposalDecision?: EditProposalDecisionHandler;
 }
 
-export function ChatMessage({ message, isStreaming }: ChatMessageProps) {
+const CITATION_PATTERN = /\[block:([0-9a-f-]{36})\]/gi;
+
+// Turn [block:<id>] citations into numbered links handled by the markdown renderer
+function linkCitations(content: string): string {
+  const numbers = new Map<string, number>();
+  return content.replace(CITATION_PATTERN, (_, blockId: string) => {
+    const id = blockId.toLowerCase();
+    if (!numbers.has(id)) numbers.set(id, numbers.size + 1);
+    return `[[${numbers.get(id)}]](#block-${id})`;
+  });
+}
+
+function scrollToReference(ref: DocumentReference) {
+  if (ref.chunkId && scrollToDocumentElement('block', ref.chunkId)) return;
+  if (ref.sectionId) scrollToDocumentElement('section', ref.sectionId);
+}
+
+export function ChatMessage({ message, isStreaming, onProposalDecision }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const sections = useDocumentStore((state) => state.activeDocument.document?.content.sections);
+
+  const referenceLabel = (ref: DocumentReference) => {
+    const section = sections?.find((s) => s.id === ref.sectionId);
+    const blockIndex = ref.chunkId ? section?.blocks.findIndex((b) => b.id === ref.chunkId) : -1;
+    if (!section) return ref.documentName;
+    return blockIndex !== undefined && blockIndex >= 0
+      ? `${section.title} · block ${blockIndex + 1}`
+      : section.title;
+  };
 
   return (
     <div
@@ -54,6 +85,15 @@ export function ChatMessage({ message, isStreaming }: ChatMessageProps) {
           </span>
         </div>
 
+        {/* Tool Calls (MCP tools invoked while answering) */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="flex flex-col gap-1 mb-2 w-full">
+            {message.toolCalls.map((toolCall) => (
+              <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+            ))}
+          </div>
+        )}
+
         {/* Message Bubble */}
         <div
           className={cn(
@@ -69,8 +109,25 @@ export function ChatMessage({ message, isStreaming }: ChatMessageProps) {
             <p className="text-sm whitespace-pre-wrap">{message.content}</p>
           ) : (
             <div className="text-sm prose prose-sm max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-pre:my-2 prose-code:bg-background/50 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-background/50 prose-pre:p-3 prose-pre:rounded-lg prose-headings:text-foreground prose-p:text-foreground prose-li:text-foreground prose-strong:text-foreground">
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                {message.content}
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                components={{
+                  a: ({ href, children }) =>
+                    href?.startsWith('#block-') ? (
+                      <button
+                        onClick={() => scrollToDocumentElement('block', href.slice('#block-'.length))}
+                        className="text-primary hover:underline align-super text-[10px]"
+                      >
+                        {children}
+                      </button>
+                    ) : (
+                      <a href={href} target="_blank" rel="noreferrer">
+                        {children}
+                      </a>
+                    ),
+                }}
+              >
+                {linkCitations(message.content)}
               </ReactMarkdown>
             </div>
           )}
@@ -84,6 +141,19 @@ export function ChatMessage({ message, isStreaming }: ChatMessageProps) {
           )}
         </div>
 
+        {/* Edit Proposals (reviewed before anything is written) */}
+        {message.editProposals && message.editProposals.length > 0 && (
+          <div className="flex flex-col gap-2 mt-2 w-full">
+            {message.editProposals.map((proposal) => (
+              <EditProposalCard
+                key={proposal.id}
+                proposal={proposal}
+                onDecision={isStreaming ? undefined : onProposalDecision}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Data Sources */}
         {message.dataSources && message.dataSources.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-2">
@@ -108,16 +178,37 @@ export function ChatMessage({ message, isStreaming }: ChatMessageProps) {
           </div>
         )}
 
+        {/* Pipeline Results (persisted analysis runs) */}
+        {message.pipelineResults && message.pipelineResults.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {message.pipelineResults.map((result) => (
+              <span
+                key={result.pipelineId}
+                title={result.summary}
+                className={cn(
+                  'text-xs px-2 py-0.5 rounded-full',
+                  result.status === 'complete' && 'bg-green-500/20 text-green-400',
+                  result.status === 'cancelled' && 'bg-gray-500/20 text-gray-400',
+                  result.status === 'error' && 'bg-red-500/20 text-red-400'
+                )}
+              >
+                {result.pipelineName}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Document References */}
         {message.documentReferences && message.documentReferences.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-2">
             {message.documentReferences.map((ref) => (
               <button
-                key={ref.documentId}
+                key={ref.chunkId || ref.sectionId || ref.documentId}
+                onClick={() => scrollToReference(ref)}
+                title={ref.documentName}
                 className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary hover:bg-primary/30 transition-colors"
               >
-                @{ref.documentName}
-                {ref.sectionId && `#${ref.sectionId}`}
+                @{referenceLabel(ref)}
               </button>
             ))}
           </div>
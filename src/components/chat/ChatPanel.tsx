@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Paperclip, Mic } from 'lucide-react';
+import { Send, Paperclip, Mic, FileText } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
-import { useChatStore, usePipelineStore, useAppStore } from '../../store';
+import type { EditProposalDecisionHandler } from './EditProposalCard';
+import type { BlockEditProposal, ChatMessage as ChatMessageData } from '../../types';
+import { useChatStore, usePipelineStore, useAppStore, useDocumentStore } from '../../store';
 import { SessionListItem } from '../../store/appStore';
 import { cn } from '../../lib/utils';
 import { v4 as uuidv4 } from 'uuid';
@@ -9,7 +11,11 @@ import { v4 as uuidv4 } from 'uuid';
 const API_URL = 'http://localhost:8000';
 
 export function ChatPanel() {
-  const { messages, isLoading, streamingMessageId, addMessage, setLoading, setStreamingMessage, appendToMessage, clearMessages, setMessages } = useChatStore();
+  const { messages, isLoading, streamingMessageId, addMessage, updateMessage, setLoading, setStreamingMessage, appendToMessage, addToolCall, updateToolCall, addEditProposal, updateEditProposal, clearMessages, setMessages } = useChatStore();
+  const activeDoc = useDocumentStore((state) => state.activeDocument.document);
+  const setDocument = useDocumentStore((state) => state.setDocument);
+  const focusedSectionId = useDocumentStore((state) => state.focusedSectionId);
+  const focusedSection = activeDoc?.content.sections.find((s) => s.id === focusedSectionId);
   const { isAnalyzing } = usePipelineStore();
   const { session, sessionList, updateSessionTitle, setSessionId, addSession } = useAppStore();
   const [input, setInput] = useState('');
@@ -39,6 +45,10 @@ export function ChatPanel() {
             content: msg.content,
             timestamp: msg.createdAt,
             documentReferences: msg.documentReferences || [],
+            documentContext: msg.documentContext || undefined,
+            pipelineResults: msg.pipelineResults || undefined,
+            toolCalls: msg.toolCalls || undefined,
+            editProposals: msg.editProposals || undefined,
           })));
         }
       }
@@ -119,6 +129,15 @@ export function ChatPanel() {
     // At this point sessionId is guaranteed to be a string
     const currentSessionId = sessionId as string;
 
+    // Ground the answer in the open document and focused section
+    const documentContext = activeDoc
+      ? {
+          activeDocumentId: activeDoc.id,
+          activeSection: focusedSection?.id,
+          documentVersion: activeDoc.version,
+        }
+      : undefined;
+
     // Add user message to UI immediately
     const userMessage = {
       id: uuidv4(),
@@ -127,6 +146,7 @@ export function ChatPanel() {
       content,
       timestamp: new Date().toISOString(),
       documentReferences: [],
+      documentContext,
     };
     addMessage(userMessage);
     setLoading(true);
@@ -140,6 +160,7 @@ export function ChatPanel() {
       content: '',
       timestamp: new Date().toISOString(),
       documentReferences: [],
+      unsaved: true,
     };
     addMessage(assistantMessage);
     setStreamingMessage(assistantMessageId);
@@ -155,7 +176,7 @@ export function ChatPanel() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ message: content }),
+        body: JSON.stringify({ message: content, documentContext }),
       });
 
       if (!response.ok) {
@@ -168,13 +189,16 @@ export function ChatPanel() {
       }
 
       const decoder = new TextDecoder();
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
+        // Large events (tool results) can span several chunks
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
@@ -183,7 +207,23 @@ export function ChatPanel() {
 
               if (data.type === 'token') {
                 appendToMessage(assistantMessageId, data.content);
+              } else if (data.type === 'tool_call') {
+                addToolCall(assistantMessageId, { ...data.toolCall, status: 'running' });
+              } else if (data.type === 'tool_result') {
+                updateToolCall(assistantMessageId, data.toolCallId, {
+                  status: data.isError ? 'error' : 'complete',
+                  result: data.result,
+                });
+              } else if (data.type === 'edit_proposal') {
+                addEditProposal(assistantMessageId, data.proposal);
               } else if (data.type === 'complete') {
+                if (data.documentReferences?.length) {
+                  updateMessage(assistantMessageId, { documentReferences: data.documentReferences });
+                }
+                // Adopt the persisted ID so edits can be traced back to this message
+                if (data.messageId) {
+                  updateMessage(assistantMessageId, { id: data.messageId, unsaved: false });
+                }
                 setStreamingMessage(null);
                 setLoading(false);
               } else if (data.type === 'error') {
@@ -204,7 +244,78 @@ export function ChatPanel() {
       setStreamingMessage(null);
       setLoading(false);
     }
-  }, [session.sessionId, messages.length, addMessage, setLoading, setStreamingMessage, appendToMessage, generateTitle, addSession, setSessionId]);
+  }, [session.sessionId, messages.length, activeDoc, focusedSection, addMessage, updateMessage, setLoading, setStreamingMessage, appendToMessage, addToolCall, updateToolCall, addEditProposal, generateTitle, addSession, setSessionId]);
+
+  // Apply an accepted proposal through the regular block endpoints
+  const applyProposal = async (proposal: BlockEditProposal, chatMessageId: string | undefined) => {
+    const request = (() => {
+      switch (proposal.operation) {
+        case 'replace':
+          return fetch(`${API_URL}/api/documents/blocks/${proposal.blockId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ content: proposal.content, updatedBy: 'chat', chatMessageId }),
+          });
+        case 'insert': {
+          const section = activeDoc?.content.sections.find((s) => s.id === proposal.sectionId);
+          return fetch(`${API_URL}/api/documents/${proposal.documentId}/sections/${proposal.sectionId}/blocks`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              blockType: proposal.blockType,
+              content: proposal.content,
+              position: proposal.position ?? section?.blocks.length ?? 0,
+              createdBy: 'chat',
+              chatMessageId,
+            }),
+          });
+        }
+        case 'reorder':
+          return fetch(`${API_URL}/api/documents/blocks/${proposal.blockId}/position`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ newPosition: proposal.position, updatedBy: 'chat', chatMessageId }),
+          });
+      }
+    })();
+
+    const response = await request;
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to apply edit');
+    }
+
+    // Reload so inserts and moves show up in place
+    if (activeDoc?.id === proposal.documentId) {
+      const fullResponse = await fetch(`${API_URL}/api/documents/${proposal.documentId}`);
+      if (fullResponse.ok) {
+        setDocument(await fullResponse.json());
+      }
+    }
+  };
+
+  const handleProposalDecision = (message: ChatMessageData): EditProposalDecisionHandler => async (proposal, accept) => {
+    const messageId = message.id;
+
+    // An ID the server never stored would break the edit's link to the message
+    if (accept) {
+      await applyProposal(proposal, message.unsaved ? undefined : messageId);
+    }
+
+    const status = accept ? 'accepted' : 'rejected';
+    updateEditProposal(messageId, proposal.id, { status });
+
+    if (message.unsaved) return;
+    try {
+      await fetch(`${API_URL}/api/chat/messages/${messageId}/proposals/${proposal.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+    } catch (error) {
+      console.error('Failed to save proposal status:', error);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -283,6 +394,7 @@ export function ChatPanel() {
               key={message.id}
               message={message}
               isStreaming={message.id === streamingMessageId}
+              onProposalDecision={handleProposalDecision(message)}
             />
           ))
         )}
@@ -291,6 +403,15 @@ export function ChatPanel() {
 
       {/* Input */}
       <div className="p-4 border-t border-border">
+        {activeDoc && (
+          <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground truncate">
+            <FileText className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate" title="Answers are grounded in this document">
+              {activeDoc.fileName}
+              {focusedSection && ` › ${focusedSection.title}`}
+            </span>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="relative">
           <div className="flex items-end gap-2 bg-background rounded-lg border border-border focus-within:border-primary/50 transition-colors">
             {/* Toolbar */}
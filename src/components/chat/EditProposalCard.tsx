@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Check, X, Loader2, AlertTriangle, ArrowUpDown, Plus, Pencil } from 'lucide-react';
+import type { Block, BlockEditProposal } from '../../types';
+import { useDocumentStore } from '../../store';
+import { cn, scrollToDocumentElement } from '../../lib/utils';
+import { diffBlockContent } from '../../lib/diff';
+
+export type EditProposalDecisionHandler = (proposal: BlockEditProposal, accept: boolean) => Promise<void>;
+
+interface EditProposalCardProps {
+  proposal: BlockEditProposal;
+  onDecision?: EditProposalDecisionHandler;
+}
+
+const OPERATION_LABELS = {
+  replace: { label: 'Edit block', icon: Pencil },
+  insert: { label: 'Insert block', icon: Plus },
+  reorder: { label: 'Move block', icon: ArrowUpDown },
+};
+
+export function EditProposalCard({ proposal, onDecision }: EditProposalCardProps) {
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sections = useDocumentStore((state) => state.activeDocument.document?.content.sections);
+
+  const section = sections?.find((s) => s.id === proposal.sectionId);
+  const block: Block | undefined = proposal.blockId
+    ? section?.blocks.find((b) => b.id === proposal.blockId)
+    : undefined;
+  const isPending = proposal.status === 'pending';
+
+  // Diff against the block as it is now; it may have changed since the proposal
+  const currentContent = block?.content ?? proposal.previousContent;
+  const isStale =
+    isPending &&
+    proposal.operation === 'replace' &&
+    !!block &&
+    JSON.stringify(block.content) !== JSON.stringify(proposal.previousContent);
+  const isMissing = isPending && !!proposal.blockId && !!sections && !block;
+
+  const { label, icon: Icon } = OPERATION_LABELS[proposal.operation];
+
+  const handleDecision = async (accept: boolean) => {
+    if (!onDecision) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onDecision(proposal, accept);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'rounded-md border text-xs',
+        proposal.status === 'accepted' && 'border-green-500/30 bg-green-500/5',
+        proposal.status === 'rejected' && 'border-border bg-muted/30 opacity-70',
+        isPending && 'border-primary/30 bg-background/50'
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-2 py-1.5 border-b border-border/50">
+        <Icon className="w-3 h-3 text-primary" />
+        <span className="font-medium text-foreground">{label}</span>
+        {section && (
+          <button
+            onClick={() =>
+              proposal.blockId
+                ? scrollToDocumentElement('block', proposal.blockId)
+                : scrollToDocumentElement('section', proposal.sectionId)
+            }
+            className="text-muted-foreground hover:text-primary truncate"
+          >
+            in {section.title}
+          </button>
+        )}
+        <span className="ml-auto capitalize text-muted-foreground">
+          {proposal.status !== 'pending' && proposal.status}
+        </span>
+      </div>
+
+      {proposal.reason && <p className="px-2 pt-1.5 text-muted-foreground">{proposal.reason}</p>}
+
+      {/* Diff */}
+      <div className="px-2 py-1.5">
+        {proposal.operation === 'reorder' ? (
+          <p className="text-foreground">
+            Move {proposal.blockType || 'block'} from position {(block?.position ?? proposal.previousPosition ?? 0) + 1} to{' '}
+            {(proposal.position ?? 0) + 1}
+          </p>
+        ) : (
+          <pre className="p-2 rounded bg-muted whitespace-pre-wrap break-words max-h-60 overflow-y-auto font-sans">
+            {diffBlockContent(proposal.operation === 'replace' ? currentContent : undefined, proposal.content).map(
+              (part, index) => (
+                <span
+                  key={index}
+                  className={cn(
+                    part.type === 'added' && 'bg-green-500/20 text-green-400',
+                    part.type === 'removed' && 'bg-red-500/20 text-red-400 line-through'
+                  )}
+                >
+                  {part.value}
+                </span>
+              )
+            )}
+          </pre>
+        )}
+      </div>
+
+      {(isStale || isMissing || error) && (
+        <p className="flex items-center gap-1 px-2 pb-1.5 text-amber-500">
+          <AlertTriangle className="w-3 h-3" />
+          {error || (isMissing ? 'This block no longer exists' : 'Block changed since this was proposed')}
+        </p>
+      )}
+
+      {/* Actions */}
+      {isPending && onDecision && (
+        <div className="flex justify-end gap-1 px-2 pb-2">
+          <button
+            onClick={() => handleDecision(false)}
+            disabled={isApplying}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-accent text-muted-foreground disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            Reject
+          </button>
+          <button
+            onClick={() => handleDecision(true)}
+            disabled={isApplying || isMissing}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+            Accept
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Wrench, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import type { ToolCallRecord } from '../../types';
+import { cn } from '../../lib/utils';
+
+interface ToolCallCardProps {
+  toolCall: ToolCallRecord;
+}
+
+export function ToolCallCard({ toolCall }: ToolCallCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hasArguments = Object.keys(toolCall.arguments).length > 0;
+
+  return (
+    <div
+      className={cn(
+        'rounded-md border text-xs',
+        toolCall.status === 'error' ? 'border-red-500/30 bg-red-500/5' : 'border-border bg-background/50'
+      )}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-muted/50 transition-colors"
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-3 h-3 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-3 h-3 text-muted-foreground" />
+        )}
+        <Wrench className="w-3 h-3 text-primary" />
+        <span className="font-mono font-medium text-foreground">{toolCall.name}</span>
+        <span className="ml-auto">
+          {toolCall.status === 'running' && <Loader2 className="w-3 h-3 animate-spin text-blue-400" />}
+          {toolCall.status === 'complete' && <CheckCircle className="w-3 h-3 text-green-400" />}
+          {toolCall.status === 'error' && <XCircle className="w-3 h-3 text-red-400" />}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-2 pb-2 space-y-2">
+          {hasArguments && (
+            <div>
+              <div className="text-muted-foreground mb-0.5">Arguments</div>
+              <pre className="p-2 rounded bg-muted overflow-x-auto whitespace-pre-wrap break-words">
+                {JSON.stringify(toolCall.arguments, null, 2)}
+              </pre>
+            </div>
+          )}
+          {toolCall.result !== undefined && (
+            <div>
+              <div className="text-muted-foreground mb-0.5">
+                {toolCall.status === 'error' ? 'Error' : 'Result'}
+              </div>
+              <pre className="p-2 rounded bg-muted overflow-x-auto whitespace-pre-wrap break-words max-h-60 overflow-y-auto">
+                {toolCall.result}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,4 @@
 export { ChatPanel } from './ChatPanel';
 export { ChatMessage } from './ChatMessage';
+export { ToolCallCard } from './ToolCallCard';
+export { EditProposalCard } from './EditProposalCard';
@@ -1,10 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Loader2, Lock, MoreHorizontal, Clock, AlertTriangle, Trash2, Copy, ArrowUp, ArrowDown } from 'lucide-react';
+import { Loader2, Lock, MoreHorizontal, Clock, AlertTriangle, Trash2, Copy, ArrowUp, ArrowDown, History, X } from 'lucide-react';
 import type { Block, BlockLock } from '../../types';
 import { BlockRenderer } from './BlockRenderer';
+import { BlockHistoryPanel } from './BlockHistoryPanel';
 import { StreamingBlockOverlay } from './StreamingBlockOverlay';
-import { useBlockEditState } from '../../store/editIntentStore';
+import { ValidationBadge } from './ValidationBadge';
+import { useBlockEditState, useEditIntentStore } from '../../store/editIntentStore';
 import { PIPELINE_COLORS } from '../../types/directive';
 import { cn } from '../../lib/utils';
 
@@ -33,6 +35,7 @@ export function BlockContainer({
   const [isEditing, setIsEditing] = useState(false);
   const [showCompleteFlash, setShowCompleteFlash] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
   const menuButtonRef = useRef<HTMLButtonElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -72,9 +75,11 @@ export function BlockContainer({
     streamingEdit,
     queuePosition,
     timeoutWarning,
+    rejectedEdit,
     isStreaming,
     isQueued,
   } = useBlockEditState(block.id);
+  const clearRejectedEdit = useEditIntentStore((state) => state.clearRejectedEdit);
 
   const isLocked = !!lock;
   const isLockedByPipeline = lock && lock.lockedBy !== 'user';
@@ -135,6 +140,7 @@ export function BlockContainer({
 
   return (
     <div
+      data-block-id={block.id}
       className={cn(
         'relative group rounded-lg transition-all',
         isStreaming && 'ring-2',
@@ -176,6 +182,26 @@ export function BlockContainer({
         </div>
       )}
 
+      {/* Rejected Write Badge - the pipeline's edit would have broken the block's directives */}
+      {rejectedEdit && !isStreaming && (
+        <div
+          className="absolute -bottom-2 left-2 z-10 flex items-center gap-1 bg-card border border-red-500/40 text-xs pl-1 pr-1.5 py-0.5 rounded-full shadow-lg"
+          title={rejectedEdit.errors.map((e) => e.message).join('\n')}
+        >
+          <ValidationBadge errors={rejectedEdit.errors} className="py-0" />
+          <span className="font-medium text-red-500">
+            {rejectedEdit.pipelineName ? `${rejectedEdit.pipelineName} edit rejected` : 'Edit rejected'}
+          </span>
+          <button
+            className="p-0.5 rounded hover:bg-accent text-muted-foreground hover:text-foreground"
+            title="Dismiss"
+            onClick={() => clearRejectedEdit(block.id)}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
       {/* Block Content */}
       <div
         className={cn(
@@ -237,6 +263,16 @@ export function BlockContainer({
               Move Down
             </button>
           )}
+          <button
+            className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-accent transition-colors"
+            onClick={() => {
+              setShowHistory(true);
+              setShowMenu(false);
+            }}
+          >
+            <History className="w-4 h-4" />
+            View History
+          </button>
           <button
             className="w-full px-3 py-2 text-sm text-left flex items-center gap-2 hover:bg-accent transition-colors"
             onClick={() => {
@@ -268,6 +304,9 @@ export function BlockContainer({
         document.body
       )}
 
+      {/* Revision History */}
+      {showHistory && <BlockHistoryPanel block={block} onClose={() => setShowHistory(false)} />}
+
       {/* Block Metadata */}
       <div className="px-4 pb-2 flex items-center justify-between text-xs text-muted-foreground">
         <span className="capitalize">{block.type.replace(/_/g, ' ')}</span>
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { History, X, Loader2, RotateCcw, ChevronDown, ChevronRight, Eye, GitCompare } from 'lucide-react';
+import type { Block, BlockRevision } from '../../types';
+import { PIPELINE_COLORS, type PipelineName } from '../../types/directive';
+import { useDocumentStore } from '../../store';
+import { BlockRenderer } from './BlockRenderer';
+import { diffBlockContent } from '../../lib/diff';
+import { cn } from '../../lib/utils';
+
+interface BlockHistoryPanelProps {
+  block: Block;
+  onClose: () => void;
+}
+
+function authorLabel(revision: BlockRevision): string {
+  if (revision.authoredBy === 'user') return 'You';
+  if (revision.authoredBy === 'chat') return 'Chat assistant';
+  return revision.authoredBy.replace(/_/g, ' ');
+}
+
+function formatTimestamp(dateStr: string): string {
+  const date = new Date(dateStr);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString()} ${time}`;
+}
+
+export function BlockHistoryPanel({ block, onClose }: BlockHistoryPanelProps) {
+  const setDocument = useDocumentStore((state) => state.setDocument);
+  const documentId = useDocumentStore((state) => state.activeDocument.document?.id);
+  const [revisions, setRevisions] = useState<BlockRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [view, setView] = useState<'diff' | 'rendered'>('diff');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/documents/blocks/${block.id}/history`);
+      if (!response.ok) throw new Error('Failed to load history');
+      const data = await response.json();
+      setRevisions(data.revisions);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [block.id]);
+
+  // Reload whenever the block changes, so restores and pipeline writes show up
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, block.updatedAt]);
+
+  const handleRestore = async (revision: BlockRevision) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/blocks/${block.id}/history/${revision.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ updatedBy: 'user' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      if (documentId) {
+        const fullResponse = await fetch(`/api/documents/${documentId}`);
+        if (fullResponse.ok) {
+          setDocument(await fullResponse.json());
+        }
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const currentContent = JSON.stringify(block.content);
+
+  return (
+    <div className="mx-4 mb-3 rounded-lg border border-border bg-card text-sm">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <History className="w-4 h-4 text-muted-foreground" />
+        <span className="font-medium text-foreground">Revision history</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setView(view === 'diff' ? 'rendered' : 'diff')}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-muted-foreground hover:bg-accent"
+            title={view === 'diff' ? 'Show rendered revisions' : 'Show changes'}
+          >
+            {view === 'diff' ? <Eye className="w-3 h-3" /> : <GitCompare className="w-3 h-3" />}
+            {view === 'diff' ? 'Rendered' : 'Changes'}
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-accent" title="Close history">
+            <X className="w-4 h-4 text-muted-foreground" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 py-2 text-xs text-red-400">{error}</p>}
+
+      {isLoading && revisions.length === 0 ? (
+        <div className="flex items-center gap-2 px-3 py-4 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="px-3 py-4 text-muted-foreground">No recorded revisions for this block yet.</p>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+          {revisions.map((revision) => {
+            const isExpanded = expandedId === revision.id;
+            const isCurrent = JSON.stringify(revision.content) === currentContent;
+            const pipelineColor = PIPELINE_COLORS[revision.authoredBy as PipelineName];
+
+            return (
+              <li key={revision.id} className={cn(revision.undone && 'opacity-60')}>
+                <div className="flex items-center gap-2 px-3 py-2">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                    className="flex flex-1 min-w-0 items-center gap-2 text-left"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <ChevronRight className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <span
+                      className={cn(
+                        'px-1.5 py-0.5 rounded text-xs capitalize',
+                        pipelineColor ? 'text-white' : 'bg-muted text-foreground'
+                      )}
+                      style={pipelineColor ? { backgroundColor: pipelineColor } : undefined}
+                    >
+                      {authorLabel(revision)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {revision.operationType === 'create' ? 'created' : 'edited'} · {formatTimestamp(revision.createdAt)}
+                    </span>
+                    {revision.undone && <span className="text-xs text-muted-foreground">(undone)</span>}
+                    {isCurrent && <span className="text-xs text-primary">Current</span>}
+                  </button>
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={isCurrent || restoringId !== null}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs text-muted-foreground hover:bg-accent hover:text-foreground disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Restore this revision"
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-3 h-3" />
+                    )}
+                    Restore
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3">
+                    {view === 'diff' ? (
+                      <pre className="p-2 rounded bg-muted text-xs whitespace-pre-wrap break-words max-h-60 overflow-y-auto font-sans">
+                        {diffBlockContent(revision.previousContent, revision.content).map((part, index) => (
+                          <span
+                            key={index}
+                            className={cn(
+                              part.type === 'added' && 'bg-green-500/20 text-green-400',
+                              part.type === 'removed' && 'bg-red-500/20 text-red-400 line-through'
+                            )}
+                          >
+                            {part.value}
+                          </span>
+                        ))}
+                      </pre>
+                    ) : (
+                      <div className="p-2 rounded border border-border pointer-events-none">
+                        <BlockRenderer
+                          block={{ ...block, content: revision.content }}
+                          isEditing={false}
+                          onStartEdit={() => {}}
+                          onEndEdit={() => {}}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
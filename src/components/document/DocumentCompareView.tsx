@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { GitCompare, Loader2, X, ArrowRight } from 'lucide-react';
+import type { Block, BlockDiff, DiffChange, DocumentDiff, DocumentVersionSummary, FieldChange } from '../../types';
+import { useDocumentStore } from '../../store';
+import { BlockRenderer } from './BlockRenderer';
+import { diffBlockContent } from '../../lib/diff';
+import { cn } from '../../lib/utils';
+
+interface DocumentCompareViewProps {
+  documentId: string;
+  from: string;
+  to: string;
+}
+
+const CHANGE_STYLES: Record<DiffChange, string> = {
+  added: 'bg-green-500/20 text-green-400',
+  removed: 'bg-red-500/20 text-red-400',
+  moved: 'bg-blue-500/20 text-blue-400',
+  modified: 'bg-amber-500/20 text-amber-400',
+};
+
+// Only text-like blocks get an inline word diff; structured blocks list field changes
+const TEXT_BLOCK_TYPES = ['paragraph', 'heading', 'callout'];
+
+function ChangeBadges({ changes }: { changes: DiffChange[] }) {
+  return (
+    <>
+      {changes.map((change) => (
+        <span key={change} className={cn('text-[10px] px-1.5 py-0.5 rounded capitalize', CHANGE_STYLES[change])}>
+          {change}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function FieldChangeRow({ field }: { field: FieldChange }) {
+  const hasDelta = field.delta !== undefined && field.delta !== 0;
+
+  return (
+    <div className="flex items-baseline gap-2 text-xs">
+      <span className="text-muted-foreground min-w-[8rem]">{field.label || field.path}</span>
+      <span className="text-red-400 line-through">{formatValue(field.before)}</span>
+      <ArrowRight className="w-3 h-3 self-center text-muted-foreground" />
+      <span className="text-green-400 font-medium">{formatValue(field.after)}</span>
+      {hasDelta && (
+        <span className={cn('font-semibold', field.delta! < 0 ? 'text-red-400' : 'text-green-400')}>
+          ({field.delta! > 0 ? '+' : ''}
+          {field.delta})
+        </span>
+      )}
+    </div>
+  );
+}
+
+function renderContent(diff: BlockDiff, content: Record<string, unknown> | undefined) {
+  if (!content) {
+    return <div className="h-full min-h-[3rem] rounded border border-dashed border-border/50" />;
+  }
+
+  const block: Block = {
+    id: diff.blockId,
+    type: diff.blockType,
+    content,
+    position: 0,
+    entities: [],
+    relationships: [],
+    wordCount: 0,
+    createdBy: '',
+    updatedBy: '',
+    createdAt: '',
+    updatedAt: '',
+  };
+
+  return (
+    <div className="pointer-events-none">
+      <BlockRenderer block={block} isEditing={false} onStartEdit={() => {}} onEndEdit={() => {}} />
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two document versions
+ */
+export function DocumentCompareView({ documentId, from, to }: DocumentCompareViewProps) {
+  const setCompareRange = useDocumentStore((state) => state.setCompareRange);
+  const [diff, setDiff] = useState<DocumentDiff | null>(null);
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/documents/${documentId}/versions`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [documentId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/documents/${documentId}/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to compare versions');
+        const data = await response.json();
+        if (!cancelled) setDiff(data);
+      })
+      .catch((err) => !cancelled && setError((err as Error).message))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, from, to]);
+
+  const versionOptions = [
+    { id: 'current', label: 'Current draft' },
+    ...versions.map((v) => ({ id: v.id, label: `v${v.version}` })),
+  ];
+
+  const sections = diff?.sections
+    .map((section) => ({
+      ...section,
+      blocks: changesOnly ? section.blocks.filter((b) => b.changes.length > 0) : section.blocks,
+    }))
+    .filter((section) => !changesOnly || section.changes.length > 0 || section.blocks.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 rounded-lg border border-primary/30 bg-primary/5 text-sm">
+        <GitCompare className="w-4 h-4 text-primary" />
+        <select
+          value={from}
+          onChange={(e) => setCompareRange({ from: e.target.value, to })}
+          className="px-2 py-1 bg-muted border border-border rounded text-xs"
+        >
+          {versionOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <ArrowRight className="w-4 h-4 text-muted-foreground" />
+        <select
+          value={to}
+          onChange={(e) => setCompareRange({ from, to: e.target.value })}
+          className="px-2 py-1 bg-muted border border-border rounded text-xs"
+        >
+          {versionOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        {diff && (
+          <div className="flex items-center gap-2 text-xs">
+            {(Object.keys(diff.summary) as DiffChange[]).map((change) => (
+              <span key={change} className={cn('px-1.5 py-0.5 rounded', CHANGE_STYLES[change])}>
+                {diff.summary[change]} {change}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <label className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+          <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+          Changes only
+        </label>
+        <button onClick={() => setCompareRange(null)} className="p-1 rounded hover:bg-accent" title="Close compare">
+          <X className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {isLoading && !diff ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Comparing versions...
+        </div>
+      ) : sections && sections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+      ) : (
+        sections?.map((section) => (
+          <div
+            key={section.sectionId}
+            className={cn(
+              'bg-card rounded-lg border overflow-hidden',
+              section.changes.includes('added') && 'border-green-500/40',
+              section.changes.includes('removed') && 'border-red-500/40',
+              section.changes.length === 0 && 'border-border'
+            )}
+          >
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+              <h2 className="text-lg font-semibold text-foreground">
+                {section.previousTitle !== undefined && (
+                  <span className="mr-2 text-red-400 line-through">{section.previousTitle}</span>
+                )}
+                {section.title}
+              </h2>
+              <span className="text-xs text-muted-foreground capitalize">{section.sectionType.replace(/_/g, ' ')}</span>
+              <ChangeBadges changes={section.changes} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 px-4 pt-3 text-xs font-medium text-muted-foreground">
+              <span>{diff?.from.label}</span>
+              <span>{diff?.to.label}</span>
+            </div>
+
+            <div className="p-4 space-y-3">
+              {section.blocks.map((block) => (
+                <div
+                  key={block.blockId}
+                  className={cn(
+                    'rounded-lg border p-3',
+                    block.changes.includes('added') && 'border-green-500/40 bg-green-500/5',
+                    block.changes.includes('removed') && 'border-red-500/40 bg-red-500/5',
+                    block.changes.includes('modified') && 'border-amber-500/40',
+                    block.changes.length === 0 && 'border-border/50',
+                    block.changes.length > 0 &&
+                      !block.changes.some((c) => c !== 'moved') &&
+                      'border-blue-500/40'
+                  )}
+                >
+                  {block.changes.length > 0 && (
+                    <div className="flex items-center gap-1 mb-2">
+                      <span className="text-xs text-muted-foreground capitalize">{block.blockType.replace(/_/g, ' ')}</span>
+                      <ChangeBadges changes={block.changes} />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    {renderContent(block, block.before)}
+                    {renderContent(block, block.after)}
+                  </div>
+
+                  {block.changes.includes('modified') && (
+                    <div className="mt-3 pt-2 border-t border-border/50 space-y-1">
+                      {TEXT_BLOCK_TYPES.includes(block.blockType) ? (
+                        <p className="text-xs whitespace-pre-wrap">
+                          {diffBlockContent(block.before, block.after).map((part, index) => (
+                            <span
+                              key={index}
+                              className={cn(
+                                part.type === 'added' && 'bg-green-500/20 text-green-400',
+                                part.type === 'removed' && 'bg-red-500/20 text-red-400 line-through'
+                              )}
+                            >
+                              {part.value}
+                            </span>
+                          ))}
+                        </p>
+                      ) : (
+                        block.fields.map((field) => <FieldChangeRow key={field.path} field={field} />)
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useRef } from 'react';
-import { FileText, Plus, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { FileText, Plus, Loader2, Undo2, Redo2, Eye, Lock, LayoutTemplate, ShieldCheck } from 'lucide-react';
 import {
   DndContext,
   closestCenter,
@@ -17,8 +17,16 @@ import {
 import { DocumentSection } from './DocumentSection';
 import { SortableSection } from './SortableSection';
 import { BlockContainer } from './BlockContainer';
-import { useDocumentStore } from '../../store';
+import { DocumentVersionsMenu } from './DocumentVersionsMenu';
+import { DocumentExportMenu } from './DocumentExportMenu';
+import { TemplateSyncMenu } from './TemplateSyncMenu';
+import { DocumentVersionView } from './DocumentVersionView';
+import { DocumentCompareView } from './DocumentCompareView';
+import { NewFromTemplateDialog } from './NewFromTemplateDialog';
+import { DocumentValidationPanel } from './DocumentValidationPanel';
+import { useDocumentStore, useAppStore } from '../../store';
 import type { SectionType } from '../../types';
+import { cn } from '../../lib/utils';
 
 const SECTION_TYPES: { value: SectionType; label: string }[] = [
   { value: 'executive_summary', label: 'Executive Summary' },
@@ -34,9 +42,20 @@ const SECTION_TYPES: { value: SectionType; label: string }[] = [
 ];
 
 export function DocumentEditor() {
-  const { activeDocument, blockLocks, setDocument, setLoading, setError } = useDocumentStore();
+  const {
+    activeDocument,
+    blockLocks,
+    viewingVersion,
+    compareRange,
+    setDocument,
+    setViewingVersion,
+    setLoading,
+    setError,
+  } = useDocumentStore();
   const { document, isLoading, error } = activeDocument;
+  const { ui, updateUI } = useAppStore();
   const [showNewDocDialog, setShowNewDocDialog] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
   const [newDocName, setNewDocName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [showAddSectionDialog, setShowAddSectionDialog] = useState(false);
@@ -45,6 +64,10 @@ export function DocumentEditor() {
   const [isAddingSection, setIsAddingSection] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const noticeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const documentId = document?.id;
+  const isReadOnly = document?.status === 'finalized' || document?.status === 'archived';
 
   // Drag-and-drop sensors - MUST be called before any early returns
   const sensors = useSensors(
@@ -58,6 +81,78 @@ export function DocumentEditor() {
     })
   );
 
+  // Document-scoped undo/redo; failures show a transient notice instead of replacing the editor
+  const handleHistory = useCallback(
+    async (action: 'undo' | 'redo') => {
+      if (!documentId) return;
+
+      const showNotice = (message: string) => {
+        setHistoryNotice(message);
+        if (noticeTimeoutRef.current) clearTimeout(noticeTimeoutRef.current);
+        noticeTimeoutRef.current = setTimeout(() => setHistoryNotice(null), 3000);
+      };
+
+      try {
+        const response = await fetch(`/api/documents/${documentId}/${action}`, { method: 'POST' });
+        if (response.status === 409) {
+          showNotice(`Nothing to ${action}`);
+          return;
+        }
+        if (response.status === 423) {
+          showNotice(`Can't ${action}: a pipeline is editing that block`);
+          return;
+        }
+        if (!response.ok) throw new Error(`Failed to ${action}`);
+
+        const result = await response.json();
+        if (!result.applied) {
+          showNotice(`Skipped an ${action} step: the block no longer exists`);
+        }
+
+        const fullResponse = await fetch(`/api/documents/${documentId}`);
+        if (fullResponse.ok) {
+          setDocument(await fullResponse.json());
+        }
+      } catch (err) {
+        showNotice((err as Error).message);
+      }
+    },
+    [documentId, setDocument]
+  );
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their native undo.
+  useEffect(() => {
+    // Past versions, comparisons and finalized documents are read-only
+    if (viewingVersion || compareRange || isReadOnly) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        handleHistory(event.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y' && !event.metaKey) {
+        event.preventDefault();
+        handleHistory('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleHistory, viewingVersion, compareRange, isReadOnly]);
+
+  useEffect(() => {
+    return () => {
+      if (noticeTimeoutRef.current) clearTimeout(noticeTimeoutRef.current);
+    };
+  }, []);
+
   const handleCreateDocument = async () => {
     if (!newDocName.trim()) return;
 
@@ -155,15 +250,26 @@ export function DocumentEditor() {
           </div>
           <h3 className="text-lg font-medium text-foreground">No document open</h3>
           <p className="text-sm text-muted-foreground">
-            Create a new document or open an existing one to start editing.
+            Create a new document, start from a template, or open an existing one to start editing.
           </p>
-          <button
-            onClick={() => setShowNewDocDialog(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            New Document
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowNewDocDialog(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Document
+            </button>
+            <button
+              onClick={() => setShowTemplateDialog(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-border text-foreground rounded-lg hover:bg-accent transition-colors"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+              New from Template
+            </button>
+          </div>
+
+          {showTemplateDialog && <NewFromTemplateDialog onClose={() => setShowTemplateDialog(false)} />}
 
           {/* New Document Dialog */}
           {showNewDocDialog && (
@@ -269,7 +375,10 @@ export function DocumentEditor() {
       const response = await fetch(`/api/documents/${document.id}/sections/${sectionId}`, {
         method: 'DELETE',
       });
-      if (!response.ok) throw new Error('Failed to delete section');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete section');
+      }
 
       // Refresh the document
       const fullResponse = await fetch(`/api/documents/${document.id}`);
@@ -416,165 +525,247 @@ export function DocumentEditor() {
     }
   };
 
-  return (
-    <div className="h-full overflow-auto bg-background">
-      <div className="max-w-4xl mx-auto py-8 px-6">
-        {/* Document Header */}
-        <div className="mb-8">
-          <div className="flex items-center gap-3 mb-2">
-            <h1 className="text-3xl font-bold text-foreground">
-              {document.fileName}
-            </h1>
-            {isSaving && (
-              <div className="flex items-center gap-2 text-muted-foreground">
-                <Loader2 className="w-4 h-4 animate-spin" />
-                <span className="text-sm">Saving...</span>
-              </div>
-            )}
-          </div>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <span>Version {document.version}</span>
-            <span>•</span>
-            <span className="capitalize">{document.status}</span>
-            <span>•</span>
-            <span>
-              Last updated{' '}
-              {new Date(document.updatedAt).toLocaleDateString()}
-            </span>
-          </div>
-        </div>
-
-        {/* Document Sections */}
-        <DndContext
-          sensors={sensors}
-          collisionDetection={closestCenter}
-          onDragEnd={handleSectionDragEnd}
-        >
-          <SortableContext
-            items={document.content.sections.map((s) => s.id)}
-            strategy={verticalListSortingStrategy}
-          >
-            <div className="space-y-8">
-              {document.content.sections.map((section, index) => (
-                <SortableSection key={section.id} section={section}>
-                  {(dragHandleProps) => (
-                    <DocumentSection
-                      section={section}
-                      documentId={document.id}
-                      onDelete={handleDeleteSection}
-                      onMoveUp={(sectionId) => handleMoveSection(sectionId, 'up')}
-                      onMoveDown={(sectionId) => handleMoveSection(sectionId, 'down')}
-                      onBlockAdded={refreshDocument}
-                      onBlockMoved={(blockId, newPosition) => handleOptimisticBlockMove(section.id, blockId, newPosition)}
-                      isFirst={index === 0}
-                      isLast={index === document.content.sections.length - 1}
-                      dragHandleProps={dragHandleProps}
-                      renderBlock={(block, blockIndex) => {
-                        const fullBlock = section.blocks.find((b) => b.id === block.id);
-                        if (!fullBlock) return null;
-                        return (
-                          <BlockContainer
-                            block={fullBlock}
-                            onDelete={handleDeleteBlock}
-                            onMoveUp={(blockId) => handleMoveBlock(blockId, section.id, 'up')}
-                            onMoveDown={(blockId) => handleMoveBlock(blockId, section.id, 'down')}
-                            onSave={handleSaveBlock}
-                            isFirst={blockIndex === 0}
-                            isLast={blockIndex === section.blocks.length - 1}
-                            lock={getLockForBlock(fullBlock.id)}
-                          />
-                        );
-                      }}
-                    >
-                      {null}
-                    </DocumentSection>
-                  )}
-                </SortableSection>
-              ))}
-            </div>
-          </SortableContext>
-        </DndContext>
-
-        {/* Add Section Button */}
-        <div className="mt-8 pt-8 border-t border-border">
-          <button
-            onClick={() => setShowAddSectionDialog(true)}
-            className="w-full py-4 border-2 border-dashed border-border hover:border-primary/50 rounded-lg flex items-center justify-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            Add Section
-          </button>
-        </div>
+  // Validation covers the draft, not past versions or comparisons
+  const showValidation = ui.validationPanelOpen && !viewingVersion && !compareRange;
 
-        {/* Add Section Dialog */}
-        {showAddSectionDialog && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-            <div className="bg-background border border-border rounded-lg p-6 w-full max-w-md shadow-xl">
-              <h2 className="text-lg font-semibold mb-4">Add New Section</h2>
-
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Section Type
-                  </label>
-                  <select
-                    value={newSectionType}
-                    onChange={(e) => {
-                      setNewSectionType(e.target.value as SectionType);
-                      // Auto-fill title based on type selection
-                      const selected = SECTION_TYPES.find(t => t.value === e.target.value);
-                      if (selected && e.target.value !== 'custom') {
-                        setNewSectionTitle(selected.label);
-                      }
-                    }}
-                    className="w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  >
-                    {SECTION_TYPES.map((type) => (
-                      <option key={type.value} value={type.value}>
-                        {type.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Section Title
-                  </label>
-                  <input
-                    type="text"
-                    value={newSectionTitle}
-                    onChange={(e) => setNewSectionTitle(e.target.value)}
-                    placeholder="Enter section title..."
-                    className="w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                    onKeyDown={(e) => e.key === 'Enter' && handleAddSection()}
-                  />
+  return (
+    <div className={cn('h-full flex bg-background', ui.validationPanelDock === 'bottom' && 'flex-col')}>
+      <div className="flex-1 min-h-0 min-w-0 overflow-auto">
+        <div className="max-w-4xl mx-auto py-8 px-6">
+          {/* Document Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-3xl font-bold text-foreground">
+                {document.fileName}
+              </h1>
+              {isSaving && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span className="text-sm">Saving...</span>
                 </div>
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                {historyNotice && (
+                  <span className="mr-2 text-xs text-muted-foreground">{historyNotice}</span>
+                )}
+                {document.metadata?.sourceTemplate && !viewingVersion && !compareRange && (
+                  <TemplateSyncMenu document={document} readOnly={isReadOnly} />
+                )}
+                {!viewingVersion && !compareRange && (
+                  <button
+                    onClick={() => updateUI({ validationPanelOpen: !ui.validationPanelOpen })}
+                    className={cn(
+                      'flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-accent hover:text-foreground',
+                      ui.validationPanelOpen ? 'text-foreground bg-accent' : 'text-muted-foreground'
+                    )}
+                    title="Validate document against its directives"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Validation
+                  </button>
+                )}
+                <DocumentExportMenu document={document} />
+                <DocumentVersionsMenu document={document} />
+                {!viewingVersion && !compareRange && !isReadOnly && (
+                  <>
+                    <button
+                      onClick={() => handleHistory('undo')}
+                      className="p-1.5 rounded hover:bg-accent text-muted-foreground hover:text-foreground"
+                      title="Undo (Ctrl+Z)"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleHistory('redo')}
+                      className="p-1.5 rounded hover:bg-accent text-muted-foreground hover:text-foreground"
+                      title="Redo (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
               </div>
+            </div>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span>Version {document.version}</span>
+              <span>•</span>
+              <span className="capitalize">{document.status}</span>
+              <span>•</span>
+              <span>
+                Last updated{' '}
+                {new Date(document.updatedAt).toLocaleDateString()}
+              </span>
+            </div>
+          </div>
 
-              <div className="flex justify-end gap-2 mt-6">
+          {/* Version comparison or past version, read-only */}
+          {compareRange ? (
+            <DocumentCompareView documentId={document.id} from={compareRange.from} to={compareRange.to} />
+          ) : viewingVersion ? (
+            <>
+              <div className="mb-6 flex items-center gap-3 px-4 py-3 rounded-lg border border-primary/30 bg-primary/5 text-sm">
+                <Eye className="w-4 h-4 text-primary" />
+                <span className="text-foreground">
+                  Viewing v{viewingVersion.version} (read-only), published{' '}
+                  {new Date(viewingVersion.createdAt).toLocaleString()}
+                </span>
                 <button
-                  onClick={() => {
-                    setShowAddSectionDialog(false);
-                    setNewSectionTitle('');
-                    setNewSectionType('custom');
-                  }}
-                  className="px-4 py-2 text-muted-foreground hover:text-foreground transition-colors"
+                  onClick={() => setViewingVersion(null)}
+                  className="ml-auto px-2 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90"
                 >
-                  Cancel
+                  Back to draft
                 </button>
+              </div>
+              <DocumentVersionView sections={viewingVersion.snapshot.sections} />
+            </>
+          ) : isReadOnly ? (
+            <>
+              <div className="mb-6 flex items-center gap-3 px-4 py-3 rounded-lg border border-border bg-muted/50 text-sm">
+                <Lock className="w-4 h-4 text-muted-foreground" />
+                <span className="text-foreground">
+                  This document is {document.status} and read-only. Use the status menu or branch a published version to
+                  make changes.
+                </span>
+              </div>
+              <DocumentVersionView sections={document.content.sections} />
+            </>
+          ) : (
+            <>
+              {/* Document Sections */}
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleSectionDragEnd}
+              >
+                <SortableContext
+                  items={document.content.sections.map((s) => s.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <div className="space-y-8">
+                    {document.content.sections.map((section, index) => (
+                      <SortableSection key={section.id} section={section}>
+                        {(dragHandleProps) => (
+                          <DocumentSection
+                            section={section}
+                            documentId={document.id}
+                            onDelete={handleDeleteSection}
+                            onMoveUp={(sectionId) => handleMoveSection(sectionId, 'up')}
+                            onMoveDown={(sectionId) => handleMoveSection(sectionId, 'down')}
+                            onBlockAdded={refreshDocument}
+                            onBlockMoved={(blockId, newPosition) => handleOptimisticBlockMove(section.id, blockId, newPosition)}
+                            isFirst={index === 0}
+                            isLast={index === document.content.sections.length - 1}
+                            dragHandleProps={dragHandleProps}
+                            renderBlock={(block, blockIndex) => {
+                              const fullBlock = section.blocks.find((b) => b.id === block.id);
+                              if (!fullBlock) return null;
+                              return (
+                                <BlockContainer
+                                  block={fullBlock}
+                                  onDelete={handleDeleteBlock}
+                                  onMoveUp={(blockId) => handleMoveBlock(blockId, section.id, 'up')}
+                                  onMoveDown={(blockId) => handleMoveBlock(blockId, section.id, 'down')}
+                                  onSave={handleSaveBlock}
+                                  isFirst={blockIndex === 0}
+                                  isLast={blockIndex === section.blocks.length - 1}
+                                  lock={getLockForBlock(fullBlock.id)}
+                                />
+                              );
+                            }}
+                          >
+                            {null}
+                          </DocumentSection>
+                        )}
+                      </SortableSection>
+                    ))}
+                  </div>
+                </SortableContext>
+              </DndContext>
+
+              {/* Add Section Button */}
+              <div className="mt-8 pt-8 border-t border-border">
                 <button
-                  onClick={handleAddSection}
-                  disabled={!newSectionTitle.trim() || isAddingSection}
-                  className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  onClick={() => setShowAddSectionDialog(true)}
+                  className="w-full py-4 border-2 border-dashed border-border hover:border-primary/50 rounded-lg flex items-center justify-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
                 >
-                  {isAddingSection ? 'Adding...' : 'Add Section'}
+                  <Plus className="w-5 h-5" />
+                  Add Section
                 </button>
               </div>
+            </>
+          )}
+
+          {/* Add Section Dialog */}
+          {showAddSectionDialog && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+              <div className="bg-background border border-border rounded-lg p-6 w-full max-w-md shadow-xl">
+                <h2 className="text-lg font-semibold mb-4">Add New Section</h2>
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">
+                      Section Type
+                    </label>
+                    <select
+                      value={newSectionType}
+                      onChange={(e) => {
+                        setNewSectionType(e.target.value as SectionType);
+                        // Auto-fill title based on type selection
+                        const selected = SECTION_TYPES.find(t => t.value === e.target.value);
+                        if (selected && e.target.value !== 'custom') {
+                          setNewSectionTitle(selected.label);
+                        }
+                      }}
+                      className="w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {SECTION_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">
+                      Section Title
+                    </label>
+                    <input
+                      type="text"
+                      value={newSectionTitle}
+                      onChange={(e) => setNewSectionTitle(e.target.value)}
+                      placeholder="Enter section title..."
+                      className="w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddSection()}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2 mt-6">
+                  <button
+                    onClick={() => {
+                      setShowAddSectionDialog(false);
+                      setNewSectionTitle('');
+                      setNewSectionType('custom');
+                    }}
+                    className="px-4 py-2 text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAddSection}
+                    disabled={!newSectionTitle.trim() || isAddingSection}
+                    className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    {isAddingSection ? 'Adding...' : 'Add Section'}
+                  </button>
+                </div>
+              </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
+      {showValidation && <DocumentValidationPanel document={document} />}
     </div>
   );
 }
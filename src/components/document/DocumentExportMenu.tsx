@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { Download, ChevronDown, FileCode, FileText, FileType, Globe } from 'lucide-react';
+import type { Document } from '../../types';
+import { useAppStore } from '../../store';
+
+interface DocumentExportMenuProps {
+  document: Document;
+}
+
+const FORMATS = [
+  { value: 'md', label: 'Markdown', description: 'Re-importable template format', icon: FileCode },
+  { value: 'docx', label: 'Word', description: 'Editable .docx document', icon: FileText },
+  { value: 'pdf', label: 'PDF', description: 'Print-ready with contents page', icon: FileType },
+  { value: 'html', label: 'HTML report', description: 'Single file with live charts', icon: Globe },
+] as const;
+
+export function DocumentExportMenu({ document }: DocumentExportMenuProps) {
+  const { ui } = useAppStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      window.document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => window.document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Always send the current theme so HTML reports match the editor; other formats ignore it
+  const exportUrl = (format: string) => `/api/documents/${document.id}/export?format=${format}&theme=${ui.theme}`;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-1.5 rounded text-sm text-muted-foreground hover:bg-accent hover:text-foreground"
+        title="Export"
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-64 bg-popover border border-border rounded-lg shadow-lg z-50 text-sm py-1">
+          {FORMATS.map((format) => (
+            <a
+              key={format.value}
+              href={exportUrl(format.value)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="flex items-start gap-2 px-3 py-2 hover:bg-accent/50"
+            >
+              <format.icon className="w-4 h-4 mt-0.5 text-muted-foreground" />
+              <div>
+                <div className="text-foreground">{format.label}</div>
+                <div className="text-xs text-muted-foreground">{format.description}</div>
+              </div>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
 import { ChevronDown, ChevronRight, MoreHorizontal, Plus, Trash2, Copy, ArrowUp, ArrowDown } from 'lucide-react';
 import type { Section, BlockType } from '../../types';
 import { cn } from '../../lib/utils';
+import { useDocumentStore } from '../../store';
 import { SortableBlock } from './SortableBlock';
 import type { DragHandleProps } from './SortableSection';
 
@@ -72,6 +73,8 @@ export function DocumentSection({
   const [isAddingBlock, setIsAddingBlock] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const isFocused = useDocumentStore((state) => state.focusedSectionId === section.id);
+  const setFocusedSection = useDocumentStore((state) => state.setFocusedSection);
 
   // Position menu and handle outside clicks
   useEffect(() => {
@@ -216,10 +219,15 @@ export function DocumentSection({
 
   return (
     <div
+      data-section-id={section.id}
       className={cn(
         'bg-card rounded-lg border border-border overflow-hidden flex',
+        isFocused && 'border-primary/40',
         dragHandleProps?.isDragging && 'ring-2 ring-primary/50'
       )}
+      // Focused section grounds the chat
+      onMouseDownCapture={() => !isFocused && setFocusedSection(section.id)}
+      onFocusCapture={() => !isFocused && setFocusedSection(section.id)}
     >
       {/* Draggable colored left border - expands on hover */}
       <div
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  PanelBottom,
+  PanelRight,
+  RefreshCw,
+  X,
+} from 'lucide-react';
+import type { Document, DocumentValidationReport, ValidationIssue } from '../../types';
+import { useAppStore } from '../../store';
+import { ValidationBadge } from './ValidationBadge';
+import { cn, scrollToDocumentElement } from '../../lib/utils';
+
+interface DocumentValidationPanelProps {
+  document: Document;
+}
+
+function IssueButton({
+  issue,
+  severity,
+  onClick,
+}: {
+  issue: ValidationIssue;
+  severity: 'error' | 'warning';
+  onClick: () => void;
+}) {
+  const Icon = severity === 'error' ? AlertCircle : AlertTriangle;
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-start gap-1.5 px-2 py-1 rounded text-left hover:bg-accent"
+    >
+      <Icon
+        className={cn('w-3.5 h-3.5 mt-0.5 shrink-0', severity === 'error' ? 'text-red-500' : 'text-amber-500')}
+      />
+      <span className="text-foreground">{issue.message}</span>
+    </button>
+  );
+}
+
+export function DocumentValidationPanel({ document }: DocumentValidationPanelProps) {
+  const { ui, updateUI } = useAppStore();
+  const [report, setReport] = useState<DocumentValidationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/validation`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to validate document');
+      }
+      setReport(await response.json());
+    } catch (err) {
+      setReport(null);
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [document.id]);
+
+  // Revalidate whenever the document is saved
+  useEffect(() => {
+    loadReport();
+  }, [loadReport, document.updatedAt]);
+
+  const docked = ui.validationPanelDock;
+
+  // Only sections with something to report
+  const sectionsWithIssues = (report?.sections || []).filter(
+    (section) =>
+      section.warnings.length > 0 ||
+      section.blocks.some((block) => block.errors.length > 0 || block.warnings.length > 0)
+  );
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col bg-card text-sm shrink-0',
+        docked === 'right' ? 'w-80 border-l border-border' : 'h-64 border-t border-border'
+      )}
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <span className="font-medium text-foreground">Validation</span>
+        {report && (
+          <span className="text-xs text-muted-foreground">
+            {report.summary.validBlocks}/{report.summary.totalBlocks} blocks valid
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-0.5">
+          <button
+            onClick={loadReport}
+            disabled={isLoading}
+            className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground disabled:opacity-50"
+            title="Revalidate"
+          >
+            <RefreshCw className={cn('w-3.5 h-3.5', isLoading && 'animate-spin')} />
+          </button>
+          <button
+            onClick={() => updateUI({ validationPanelDock: docked === 'right' ? 'bottom' : 'right' })}
+            className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground"
+            title={docked === 'right' ? 'Dock to bottom' : 'Dock to right'}
+          >
+            {docked === 'right' ? <PanelBottom className="w-3.5 h-3.5" /> : <PanelRight className="w-3.5 h-3.5" />}
+          </button>
+          <button
+            onClick={() => updateUI({ validationPanelOpen: false })}
+            className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground"
+            title="Close"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-3 space-y-3 text-xs">
+        {error ? (
+          <p className="text-red-400">{error}</p>
+        ) : !report ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : sectionsWithIssues.length === 0 ? (
+          <p className="flex items-center gap-1.5 text-green-500">
+            <CheckCircle className="w-4 h-4" />
+            Every block meets its directives.
+          </p>
+        ) : (
+          sectionsWithIssues.map((section) => (
+            <div key={section.sectionId} className="space-y-1">
+              <button
+                onClick={() => scrollToDocumentElement('section', section.sectionId)}
+                className="font-medium text-foreground hover:underline text-left"
+              >
+                {section.title || section.sectionType.replace(/_/g, ' ')}
+              </button>
+              {section.warnings.map((warning) => (
+                <IssueButton
+                  key={warning.message}
+                  issue={warning}
+                  severity="warning"
+                  onClick={() => scrollToDocumentElement('section', section.sectionId)}
+                />
+              ))}
+              {section.blocks
+                .filter((block) => block.errors.length > 0 || block.warnings.length > 0)
+                .map((block) => (
+                  <div key={block.blockId} className="pl-2 space-y-0.5">
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      <span className="capitalize">{block.blockType.replace(/_/g, ' ')}</span>
+                      <ValidationBadge errors={block.errors} warnings={block.warnings} />
+                    </div>
+                    {block.errors.map((issue, i) => (
+                      <IssueButton
+                        key={`error-${i}`}
+                        issue={issue}
+                        severity="error"
+                        onClick={() => scrollToDocumentElement('block', block.blockId)}
+                      />
+                    ))}
+                    {block.warnings.map((issue, i) => (
+                      <IssueButton
+                        key={`warning-${i}`}
+                        issue={issue}
+                        severity="warning"
+                        onClick={() => scrollToDocumentElement('block', block.blockId)}
+                      />
+                    ))}
+                  </div>
+                ))}
+            </div>
+          ))
+        )}
+      </div>
+
+      {report && (
+        <div className="px-3 py-2 border-t border-border text-xs text-muted-foreground">
+          {report.summary.errorCount} error{report.summary.errorCount !== 1 ? 's' : ''} ·{' '}
+          {report.summary.warningCount} warning{report.summary.warningCount !== 1 ? 's' : ''}
+        </div>
+      )}
+    </div>
+  );
+}
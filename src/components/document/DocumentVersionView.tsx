@@ -0,0 +1,39 @@
+import type { Section } from '../../types';
+import { BlockRenderer } from './BlockRenderer';
+
+interface DocumentVersionViewProps {
+  sections: Section[];
+}
+
+/**
+ * Read-only rendering of a section/block tree, for version snapshots and finalized documents
+ */
+export function DocumentVersionView({ sections }: DocumentVersionViewProps) {
+  if (sections.length === 0) {
+    return <p className="text-sm text-muted-foreground">This version has no sections.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {sections.map((section) => (
+        <div key={section.id} data-section-id={section.id} className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="px-4 py-3 border-b border-border">
+            <h2 className="text-lg font-semibold text-foreground">{section.title}</h2>
+            <span className="text-xs text-muted-foreground capitalize">{section.type.replace(/_/g, ' ')}</span>
+          </div>
+          <div className="p-4 space-y-3">
+            {section.blocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No blocks</p>
+            ) : (
+              section.blocks.map((block) => (
+                <div key={block.id} data-block-id={block.id} className="p-4 rounded-lg">
+                  <BlockRenderer block={block} isEditing={false} onStartEdit={() => {}} onEndEdit={() => {}} />
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Tag, Loader2, Eye, GitBranch, GitCompare, Upload, ChevronDown } from 'lucide-react';
+import type { Document, DocumentVersion, DocumentVersionSummary, VersionBump } from '../../types';
+import { useDocumentStore } from '../../store';
+import { cn } from '../../lib/utils';
+
+interface DocumentVersionsMenuProps {
+  document: Document;
+}
+
+const BUMPS: { value: VersionBump; label: string }[] = [
+  { value: 'patch', label: 'Patch' },
+  { value: 'minor', label: 'Minor' },
+  { value: 'major', label: 'Major' },
+];
+
+// Mirrors bumpVersion on the server, for previewing the next version
+function nextVersion(version: string, bump: VersionBump): string {
+  const match = version.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  const [major, minor, patch] = match
+    ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)]
+    : [1, 0, 0];
+
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+export function DocumentVersionsMenu({ document }: DocumentVersionsMenuProps) {
+  const { viewingVersion, compareRange, setViewingVersion, setCompareRange, setDocument, addToDocumentList } =
+    useDocumentStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [bump, setBump] = useState<VersionBump>('patch');
+  const [notes, setNotes] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // An unbranched document's first publish keeps its current version
+  const isInitial = versions.length === 0 && !document.metadata?.parentDocumentId;
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/versions`);
+      if (!response.ok) throw new Error('Failed to load versions');
+      setVersions(await response.json());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    if (isOpen) loadVersions();
+  }, [isOpen, loadVersions]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      window.document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => window.document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const reloadDocument = async (documentId: string) => {
+    const response = await fetch(`/api/documents/${documentId}`);
+    if (!response.ok) throw new Error('Failed to load document');
+    const fullDoc = await response.json();
+    setDocument(fullDoc);
+    return fullDoc as Document;
+  };
+
+  const handlePublish = async () => {
+    setBusyId('publish');
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bump, notes: notes.trim() || undefined, publishedBy: 'user' }),
+      });
+      if (!response.ok) throw new Error('Failed to publish version');
+
+      setNotes('');
+      await reloadDocument(document.id);
+      await loadVersions();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleView = async (summary: DocumentVersionSummary) => {
+    setBusyId(summary.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/versions/${summary.id}`);
+      if (!response.ok) throw new Error('Failed to load version');
+      setViewingVersion((await response.json()) as DocumentVersion);
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBranch = async (summary: DocumentVersionSummary) => {
+    setBusyId(summary.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/versions/${summary.id}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) throw new Error('Failed to branch version');
+
+      const { documentId } = await response.json();
+      const branched = await reloadDocument(documentId);
+      addToDocumentList({
+        id: branched.id,
+        fileName: branched.fileName,
+        version: branched.version,
+        status: branched.status,
+        createdAt: branched.createdAt,
+        updatedAt: branched.updatedAt,
+      });
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          'flex items-center gap-1 px-2 py-1.5 rounded text-sm text-muted-foreground hover:bg-accent hover:text-foreground',
+          (viewingVersion || compareRange) && 'text-primary'
+        )}
+        title="Versions"
+      >
+        <Tag className="w-4 h-4" />
+        Versions
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-popover border border-border rounded-lg shadow-lg z-50 text-sm">
+          {/* Publish */}
+          <div className="p-3 border-b border-border space-y-2">
+            <div className="font-medium text-foreground">Publish version</div>
+            {isInitial ? (
+              <p className="text-xs text-muted-foreground">The first publish is released as v{document.version}.</p>
+            ) : (
+              <div className="flex gap-1">
+                {BUMPS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setBump(option.value)}
+                    className={cn(
+                      'flex-1 px-2 py-1 rounded border text-xs',
+                      bump === option.value
+                        ? 'border-primary bg-primary/10 text-foreground'
+                        : 'border-border text-muted-foreground hover:border-primary/50'
+                    )}
+                  >
+                    {option.label}
+                    <div className="text-[10px] opacity-70">v{nextVersion(document.version, option.value)}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Release notes (optional)"
+              className="w-full px-2 py-1.5 bg-muted border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              onClick={handlePublish}
+              disabled={busyId !== null}
+              className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {busyId === 'publish' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+              Publish v{isInitial ? document.version : nextVersion(document.version, bump)}
+            </button>
+          </div>
+
+          {error && <p className="px-3 pt-2 text-xs text-red-400">{error}</p>}
+
+          {/* Version list */}
+          <div className="max-h-72 overflow-y-auto py-1">
+            {isLoading && versions.length === 0 ? (
+              <div className="flex items-center gap-2 px-3 py-2 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading versions...
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="px-3 py-2 text-muted-foreground">No published versions yet.</p>
+            ) : (
+              versions.map((version) => (
+                <div
+                  key={version.id}
+                  className={cn(
+                    'px-3 py-2 flex items-start gap-2 hover:bg-accent/50',
+                    viewingVersion?.id === version.id && 'bg-primary/10'
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">v{version.version}</span>
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                        {version.bump}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleDateString()} · {version.blockCount} blocks
+                    </div>
+                    {version.notes && <div className="text-xs text-muted-foreground truncate">{version.notes}</div>}
+                  </div>
+                  <button
+                    onClick={() => handleView(version)}
+                    disabled={busyId !== null}
+                    className="p-1 rounded hover:bg-accent disabled:opacity-50"
+                    title="View read-only"
+                  >
+                    {busyId === version.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <Eye className="w-4 h-4 text-muted-foreground" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setCompareRange({ from: version.id, to: 'current' });
+                      setIsOpen(false);
+                    }}
+                    className="p-1 rounded hover:bg-accent"
+                    title="Compare with current draft"
+                  >
+                    <GitCompare className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                  <button
+                    onClick={() => handleBranch(version)}
+                    disabled={busyId !== null}
+                    className="p-1 rounded hover:bg-accent disabled:opacity-50"
+                    title="Branch a new draft from this version"
+                  >
+                    <GitBranch className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
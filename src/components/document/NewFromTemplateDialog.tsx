@@ -0,0 +1,382 @@
+import { useState, useEffect } from 'react';
+import { LayoutTemplate, Loader2, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react';
+import type { Document, TemplateSummary, TemplatePreview } from '../../types';
+import { useDocumentStore } from '../../store';
+import { cn } from '../../lib/utils';
+
+interface NewFromTemplateDialogProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'template' | 'sections' | 'details';
+
+const STEPS: { value: WizardStep; label: string }[] = [
+  { value: 'template', label: 'Template' },
+  { value: 'sections', label: 'Sections' },
+  { value: 'details', label: 'Details' },
+];
+
+const formatType = (type: string) => type.replace(/_/g, ' ');
+
+export function NewFromTemplateDialog({ onClose }: NewFromTemplateDialogProps) {
+  const setDocument = useDocumentStore((state) => state.setDocument);
+  const addToDocumentList = useDocumentStore((state) => state.addToDocumentList);
+  const [step, setStep] = useState<WizardStep>('template');
+  const [templates, setTemplates] = useState<TemplateSummary[] | null>(null);
+  const [selected, setSelected] = useState<TemplateSummary | null>(null);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [documentName, setDocumentName] = useState('');
+  const [author, setAuthor] = useState('');
+  const [gameType, setGameType] = useState('');
+  const [targetMarkets, setTargetMarkets] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/documents/templates/list');
+        if (!response.ok) throw new Error('Failed to load templates');
+        setTemplates(await response.json());
+      } catch (err) {
+        setError((err as Error).message);
+        setTemplates([]);
+      }
+    };
+    loadTemplates();
+  }, []);
+
+  // Load the parsed section tree whenever a different template is picked
+  useEffect(() => {
+    if (!selected) return;
+
+    setPreview(null);
+    setExcluded(new Set());
+    setExpanded(new Set());
+
+    const loadPreview = async () => {
+      try {
+        const response = await fetch(`/api/documents/templates/${encodeURIComponent(selected.id)}`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to load template preview');
+        }
+        setPreview(await response.json());
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    loadPreview();
+  }, [selected]);
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  const includedSections = preview ? preview.sections.filter((s) => !excluded.has(s.id)) : [];
+  const includedBlockCount = includedSections.reduce((acc, s) => acc + s.blocks.length, 0);
+
+  const canContinue =
+    (step === 'template' && selected !== null) ||
+    (step === 'sections' && preview !== null && (includedSections.length > 0 || preview.sections.length === 0));
+
+  const handleCreate = async () => {
+    if (!selected || !documentName.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const markets = targetMarkets
+        .split(',')
+        .map((m) => m.trim())
+        .filter(Boolean);
+
+      const response = await fetch('/api/documents/from-template', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          templateId: selected.id,
+          documentName: documentName.trim(),
+          initialMetadata: {
+            ...(author.trim() && { author: author.trim() }),
+            ...(gameType.trim() && { gameType: gameType.trim() }),
+            ...(markets.length > 0 && { targetMarkets: markets }),
+          },
+          excludedSections: Array.from(excluded),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create document');
+      }
+
+      const { documentId } = await response.json();
+
+      // Fetch the full document with sections
+      const fullResponse = await fetch(`/api/documents/${documentId}`);
+      if (!fullResponse.ok) throw new Error('Failed to load document');
+
+      const fullDoc: Document = await fullResponse.json();
+      addToDocumentList({
+        id: fullDoc.id,
+        fileName: fullDoc.fileName,
+        version: fullDoc.version,
+        status: fullDoc.status,
+        createdAt: fullDoc.createdAt,
+        updatedAt: fullDoc.updatedAt,
+      });
+      setDocument(fullDoc);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const stepIndex = STEPS.findIndex((s) => s.value === step);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background border border-border rounded-lg w-full max-w-2xl shadow-xl flex flex-col max-h-[85vh] text-left">
+        {/* Header with step indicator */}
+        <div className="p-6 pb-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-primary" />
+            New from Template
+          </h2>
+          <div className="flex items-center gap-2 mt-3 text-xs">
+            {STEPS.map((s, index) => (
+              <div key={s.value} className="flex items-center gap-2">
+                {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+                <span
+                  className={cn(
+                    'px-2 py-0.5 rounded-full',
+                    index === stepIndex
+                      ? 'bg-primary/20 text-primary font-medium'
+                      : index < stepIndex
+                        ? 'text-foreground'
+                        : 'text-muted-foreground'
+                  )}
+                >
+                  {index + 1}. {s.label}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {/* Step 1: pick a template */}
+          {step === 'template' &&
+            (templates === null ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No templates available.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => setSelected(template)}
+                    disabled={Boolean(template.errors?.length)}
+                    className={cn(
+                      'w-full text-left p-3 rounded-lg border transition-colors disabled:opacity-50',
+                      selected?.id === template.id
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:bg-accent/50 disabled:hover:bg-transparent'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">{template.name}</span>
+                      {template.source === 'user' && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">Custom</span>
+                      )}
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {template.sectionCount} sections · {template.chunkCount} chunks
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{template.description}</p>
+                    {template.errors?.map((error, index) => (
+                      <p key={index} className="text-xs text-red-400 mt-1">
+                        Line {error.line}: {error.message}
+                      </p>
+                    ))}
+                  </button>
+                ))}
+              </div>
+            ))}
+
+          {/* Step 2: preview the section tree and opt out of sections */}
+          {step === 'sections' &&
+            (preview === null ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground mb-3">
+                  Uncheck sections to leave them out. {includedSections.length} of {preview.sections.length} sections,{' '}
+                  {includedBlockCount} blocks will be created.
+                </p>
+                {preview.sections.map((section) => {
+                  const isExpanded = expanded.has(section.id);
+                  return (
+                    <div key={section.id} className="rounded border border-border">
+                      <div className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                        <button
+                          onClick={() => setExpanded(toggle(expanded, section.id))}
+                          className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+                          title={isExpanded ? 'Hide blocks' : 'Show blocks'}
+                        >
+                          {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                        </button>
+                        <input
+                          type="checkbox"
+                          checked={!excluded.has(section.id)}
+                          onChange={() => setExcluded(toggle(excluded, section.id))}
+                          className="accent-primary"
+                        />
+                        <span
+                          className={cn('flex-1 truncate', excluded.has(section.id) ? 'text-muted-foreground line-through' : 'text-foreground')}
+                        >
+                          {section.title}
+                        </span>
+                        <span className="text-xs text-muted-foreground capitalize">{formatType(section.type)}</span>
+                        <span className="text-xs text-muted-foreground w-16 text-right">{section.blocks.length} blocks</span>
+                      </div>
+                      {isExpanded && (
+                        <ul className="border-t border-border px-9 py-1.5 space-y-0.5">
+                          {section.blocks.length === 0 ? (
+                            <li className="text-xs text-muted-foreground">No blocks</li>
+                          ) : (
+                            section.blocks.map((block) => (
+                              <li key={block.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                                <span className="w-5 text-right">{block.position + 1}.</span>
+                                <span className="capitalize">{formatType(block.type)}</span>
+                              </li>
+                            ))
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+                {preview.warnings.length > 0 && (
+                  <ul className="mt-3 space-y-0.5 text-xs text-yellow-500">
+                    {preview.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+
+          {/* Step 3: name and initial metadata */}
+          {step === 'details' && (
+            <div className="space-y-3 text-sm">
+              <label className="block">
+                <span className="text-xs text-muted-foreground">Document name</span>
+                <input
+                  type="text"
+                  value={documentName}
+                  onChange={(e) => setDocumentName(e.target.value)}
+                  placeholder="Document name..."
+                  className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  autoFocus
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-muted-foreground">Author</span>
+                <input
+                  type="text"
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-muted-foreground">Game type</span>
+                <input
+                  type="text"
+                  value={gameType}
+                  onChange={(e) => setGameType(e.target.value)}
+                  placeholder="e.g. Video slot"
+                  className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-muted-foreground">Target markets (comma-separated)</span>
+                <input
+                  type="text"
+                  value={targetMarkets}
+                  onChange={(e) => setTargetMarkets(e.target.value)}
+                  placeholder="e.g. UK, Ontario, New Jersey"
+                  className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </label>
+              {selected && (
+                <p className="text-xs text-muted-foreground">
+                  From <span className="text-foreground">{selected.name}</span> with {includedSections.length} sections and{' '}
+                  {includedBlockCount} blocks.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 p-4 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+          <div className="ml-auto flex gap-2">
+            {stepIndex > 0 && (
+              <button
+                onClick={() => setStep(STEPS[stepIndex - 1].value)}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg border border-border hover:bg-accent transition-colors"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Back
+              </button>
+            )}
+            {step === 'details' ? (
+              <button
+                onClick={handleCreate}
+                disabled={!documentName.trim() || isCreating}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {isCreating ? 'Creating...' : 'Create'}
+              </button>
+            ) : (
+              <button
+                onClick={() => setStep(STEPS[stepIndex + 1].value)}
+                disabled={!canContinue}
+                className="flex items-center gap-1 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                Next
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RefreshCw, ChevronDown, Loader2, Plus, Pencil, Minus } from 'lucide-react';
+import type {
+  Document,
+  TemplateDirectiveChange,
+  TemplateSyncChange,
+  TemplateSyncPlan,
+} from '../../types';
+import { useDocumentStore } from '../../store';
+import { cn } from '../../lib/utils';
+
+interface TemplateSyncMenuProps {
+  document: Document;
+  readOnly: boolean;
+}
+
+const DIRECTIVE_LABELS: Record<TemplateDirectiveChange['directive'], string> = {
+  pipeline: 'Pipeline',
+  entityTypes: 'Entity types',
+  relationships: 'Relationships',
+  constraints: 'Constraints',
+  entityRange: 'Entities',
+};
+
+const CHANGE_STYLES: Record<Exclude<TemplateSyncChange, 'unchanged'>, { icon: typeof Plus; className: string; label: string }> = {
+  added: { icon: Plus, className: 'text-green-500', label: 'Added as placeholder' },
+  changed: { icon: Pencil, className: 'text-yellow-500', label: 'Directives updated' },
+  not_in_template: { icon: Minus, className: 'text-muted-foreground', label: 'Not in template, kept' },
+};
+
+// Short display of a directive value, e.g. "Game, Feature" or "50–200 words"
+function formatDirective(directive: TemplateDirectiveChange['directive'], value: unknown): string {
+  if (value === undefined) return 'none';
+  const v = value as Record<string, unknown>;
+
+  switch (directive) {
+    case 'entityTypes':
+      return ((v.types as string[]) || []).join(', ');
+    case 'relationships':
+      return ((v.patterns as { type: string; targetType: string }[]) || [])
+        .map((p) => `${p.type} → ${p.targetType}`)
+        .join(', ');
+    case 'pipeline':
+      return [v.preferred, ...((v.fallback as string[]) || [])].join(' → ');
+    case 'entityRange':
+      return `${v.min}–${v.max}`;
+    case 'constraints':
+      return Object.entries(v)
+        .map(([key, n]) => (n === true ? key : `${key} ${n}`))
+        .join(', ');
+  }
+}
+
+function DirectiveChanges({ changes }: { changes: TemplateDirectiveChange[] }) {
+  return (
+    <>
+      {changes.map((change) => (
+        <div key={change.directive} className="text-[11px] text-muted-foreground pl-5">
+          {DIRECTIVE_LABELS[change.directive]}:{' '}
+          {change.kind !== 'added' && (
+            <span className={cn(change.kind === 'removed' && 'line-through')}>
+              {formatDirective(change.directive, change.before)}
+            </span>
+          )}
+          {change.kind === 'changed' && ' → '}
+          {change.kind !== 'removed' && (
+            <span className="text-foreground">{formatDirective(change.directive, change.after)}</span>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function ChangeRow({ change, label }: { change: TemplateSyncChange; label: string }) {
+  if (change === 'unchanged') {
+    return <div className="flex items-center gap-1.5 pl-5 text-muted-foreground">{label}</div>;
+  }
+  const style = CHANGE_STYLES[change];
+  return (
+    <div className="flex items-center gap-1.5" title={style.label}>
+      <style.icon className={cn('w-3.5 h-3.5 shrink-0', style.className)} />
+      <span className="truncate text-foreground">{label}</span>
+    </div>
+  );
+}
+
+export function TemplateSyncMenu({ document, readOnly }: TemplateSyncMenuProps) {
+  const setDocument = useDocumentStore((state) => state.setDocument);
+  const [isOpen, setIsOpen] = useState(false);
+  const [plan, setPlan] = useState<TemplateSyncPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadPreview = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/template-sync`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to compare with template');
+      }
+      setPlan(await response.json());
+    } catch (err) {
+      setPlan(null);
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    if (isOpen) loadPreview();
+  }, [isOpen, loadPreview]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      window.document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => window.document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${document.id}/template-sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actor: 'user' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to sync with template');
+      }
+
+      const fullResponse = await fetch(`/api/documents/${document.id}`);
+      if (!fullResponse.ok) throw new Error('Failed to reload document');
+      setDocument(await fullResponse.json());
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Only list sections that change or contain blocks that do
+  const changedSections = (plan?.sections || []).filter(
+    (section) => section.change !== 'unchanged' || section.blocks.some((block) => block.change !== 'unchanged')
+  );
+  const hasUpdates = plan !== null && plan.summary.added + plan.summary.changed > 0;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-1.5 rounded text-sm text-muted-foreground hover:bg-accent hover:text-foreground"
+        title={`Sync with template ${document.metadata.sourceTemplate}`}
+      >
+        <RefreshCw className="w-4 h-4" />
+        Template
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-96 bg-popover border border-border rounded-lg shadow-lg z-50 text-sm">
+          <div className="p-3 border-b border-border">
+            <div className="font-medium text-foreground">Sync with template</div>
+            <div className="text-xs text-muted-foreground">
+              {document.metadata.sourceTemplate}
+              {plan && (
+                <>
+                  {' · '}
+                  {plan.fromVersion !== null && plan.fromVersion !== plan.toVersion
+                    ? `v${plan.fromVersion} → v${plan.toVersion}`
+                    : `v${plan.toVersion}`}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto p-3 space-y-2 text-xs">
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : plan && changedSections.length === 0 ? (
+              <p className="text-muted-foreground">The document's directives match the template.</p>
+            ) : (
+              changedSections.map((section, index) => (
+                <div key={section.sectionId ?? `new-${index}`} className="space-y-0.5">
+                  <ChangeRow change={section.change} label={section.title || section.sectionType} />
+                  <DirectiveChanges changes={section.directives} />
+                  {section.blocks
+                    .filter((block) => block.change !== 'unchanged')
+                    .map((block, blockIndex) => (
+                      <div key={block.blockId ?? `new-${blockIndex}`} className="pl-4">
+                        <ChangeRow
+                          change={block.change}
+                          label={`${block.blockType.replace(/_/g, ' ')}${block.chunkId ? ` · ${block.chunkId}` : ''}`}
+                        />
+                        <DirectiveChanges changes={block.directives} />
+                      </div>
+                    ))}
+                </div>
+              ))
+            )}
+          </div>
+
+          {plan && (
+            <div className="p-3 border-t border-border space-y-2">
+              <div className="text-xs text-muted-foreground">
+                {plan.summary.added} to add · {plan.summary.changed} to update · {plan.summary.notInTemplate} not in
+                template. Content is not changed.
+              </div>
+              <button
+                onClick={handleApply}
+                disabled={!hasUpdates || readOnly || isApplying}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                title={readOnly ? 'Document is read-only in its current status' : undefined}
+              >
+                {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                Apply template updates
+              </button>
+            </div>
+          )}
+
+          {error && <p className="px-3 pb-3 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChevronDown, Loader2, Check, Clock, ArrowRight } from 'lucide-react';
+import type { Document, DocumentStatus, DocumentWorkflow } from '../../types';
+import { useDocumentStore } from '../../store';
+import { cn } from '../../lib/utils';
+
+interface DocumentStatusMenuProps {
+  document: Document;
+}
+
+const STATUS_STYLES: Record<DocumentStatus, string> = {
+  draft: 'bg-yellow-500/20 text-yellow-500',
+  review: 'bg-blue-500/20 text-blue-500',
+  finalized: 'bg-green-500/20 text-green-500',
+  archived: 'bg-gray-500/20 text-gray-500',
+};
+
+// Action label for each transition, keyed "from→to"
+const TRANSITION_LABELS: Record<string, string> = {
+  'draft→review': 'Submit for review',
+  'draft→archived': 'Archive',
+  'review→draft': 'Request changes',
+  'review→finalized': 'Finalize',
+  'finalized→archived': 'Archive',
+  'archived→draft': 'Restore to draft',
+};
+
+export function DocumentStatusMenu({ document }: DocumentStatusMenuProps) {
+  const setDocument = useDocumentStore((state) => state.setDocument);
+  const [isOpen, setIsOpen] = useState(false);
+  const [workflow, setWorkflow] = useState<DocumentWorkflow | null>(null);
+  const [approversInput, setApproversInput] = useState('');
+  const [approverName, setApproverName] = useState('');
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const status = document.status;
+
+  const loadWorkflow = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${document.id}/workflow`);
+      if (!response.ok) throw new Error('Failed to load workflow');
+      setWorkflow(await response.json());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [document.id]);
+
+  useEffect(() => {
+    if (isOpen) loadWorkflow();
+  }, [isOpen, loadWorkflow, status]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    if (isOpen) {
+      window.document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => window.document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const run = async (key: string, request: () => Promise<Response>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Request failed');
+      }
+
+      // Status lives on the document, so reload it for the editor and header
+      const fullResponse = await fetch(`/api/documents/${document.id}`);
+      if (fullResponse.ok) {
+        setDocument(await fullResponse.json());
+      }
+      setComment('');
+      await loadWorkflow();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTransition = (to: DocumentStatus) =>
+    run(to, () =>
+      fetch(`/api/documents/${document.id}/transitions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to,
+          actor: 'user',
+          comment: comment.trim() || undefined,
+          approvers: to === 'review' ? approversInput.split(',').map((a) => a.trim()).filter(Boolean) : undefined,
+        }),
+      })
+    );
+
+  const handleApprove = () =>
+    run('approve', () =>
+      fetch(`/api/documents/${document.id}/approvals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approver: approverName.trim(), comment: comment.trim() || undefined }),
+      })
+    );
+
+  const review = workflow?.review;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn('flex items-center gap-1 text-xs px-2 py-0.5 rounded-full', STATUS_STYLES[status])}
+        title="Status and workflow"
+      >
+        {status}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-popover border border-border rounded-lg shadow-lg z-50 text-sm">
+          {/* Open review */}
+          {review && (
+            <div className="p-3 border-b border-border space-y-2">
+              <div className="font-medium text-foreground">Review</div>
+              <ul className="space-y-1">
+                {review.approvers.map((approver) => {
+                  const approved = !review.pendingApprovers.includes(approver);
+                  return (
+                    <li key={approver} className="flex items-center gap-2 text-xs">
+                      {approved ? (
+                        <Check className="w-3 h-3 text-green-500" />
+                      ) : (
+                        <Clock className="w-3 h-3 text-muted-foreground" />
+                      )}
+                      <span className={approved ? 'text-foreground' : 'text-muted-foreground'}>{approver}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {review.pendingApprovers.length > 0 && (
+                <div className="flex gap-1">
+                  <select
+                    value={approverName}
+                    onChange={(e) => setApproverName(e.target.value)}
+                    className="flex-1 px-2 py-1 bg-muted border border-border rounded text-xs"
+                  >
+                    <option value="">Approve as...</option>
+                    {review.pendingApprovers.map((approver) => (
+                      <option key={approver} value={approver}>
+                        {approver}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleApprove}
+                    disabled={!approverName || busy !== null}
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-primary text-primary-foreground text-xs disabled:opacity-50"
+                  >
+                    {busy === 'approve' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                    Approve
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Transitions */}
+          {workflow && workflow.allowedTransitions.length > 0 && (
+            <div className="p-3 border-b border-border space-y-2">
+              {workflow.allowedTransitions.includes('review') && (
+                <input
+                  type="text"
+                  value={approversInput}
+                  onChange={(e) => setApproversInput(e.target.value)}
+                  placeholder="Approvers, comma separated"
+                  className="w-full px-2 py-1.5 bg-muted border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              )}
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (optional)"
+                className="w-full px-2 py-1.5 bg-muted border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <div className="flex flex-wrap gap-1">
+                {workflow.allowedTransitions.map((to) => {
+                  const blocked =
+                    (to === 'finalized' && (review?.pendingApprovers.length ?? 1) > 0) ||
+                    (to === 'review' && !approversInput.trim());
+                  return (
+                    <button
+                      key={to}
+                      onClick={() => handleTransition(to)}
+                      disabled={blocked || busy !== null}
+                      className="flex items-center gap-1 px-2 py-1 rounded border border-border text-xs hover:bg-accent disabled:opacity-50 disabled:hover:bg-transparent"
+                      title={to === 'finalized' && blocked ? 'Waiting for all approvers' : undefined}
+                    >
+                      {busy === to && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {TRANSITION_LABELS[`${status}→${to}`] || `Move to ${to}`}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="px-3 pt-2 text-xs text-red-400">{error}</p>}
+
+          {/* History */}
+          <div className="max-h-48 overflow-y-auto p-3 space-y-1.5">
+            <div className="text-xs font-medium text-muted-foreground">History</div>
+            {!workflow ? (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : workflow.history.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No status changes yet.</p>
+            ) : (
+              workflow.history.map((transition) => (
+                <div key={transition.id} className="text-xs">
+                  <div className="flex items-center gap-1 text-foreground">
+                    <span className="capitalize">{transition.fromStatus}</span>
+                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    <span className="capitalize">{transition.toStatus}</span>
+                    <span className="ml-auto text-muted-foreground">
+                      {transition.actor} · {new Date(transition.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {transition.comment && <div className="text-muted-foreground">{transition.comment}</div>}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { FileText, HelpCircle } from 'lucide-react';
 import { useDocumentStore, useAppStore } from '../../store';
 import { cn } from '../../lib/utils';
 import { SettingsDropdown } from './SettingsDropdown';
+import { DocumentStatusMenu } from './DocumentStatusMenu';
 
 export function Header() {
   const { activeDocument } = useDocumentStore();
@@ -28,21 +29,7 @@ export function Header() {
             <span className="text-sm text-muted-foreground">
               {activeDocument.document.fileName}
             </span>
-            <span
-              className={cn(
-                'text-xs px-2 py-0.5 rounded-full',
-                activeDocument.document.status === 'draft' &&
-                  'bg-yellow-500/20 text-yellow-500',
-                activeDocument.document.status === 'review' &&
-                  'bg-blue-500/20 text-blue-500',
-                activeDocument.document.status === 'finalized' &&
-                  'bg-green-500/20 text-green-500',
-                activeDocument.document.status === 'archived' &&
-                  'bg-gray-500/20 text-gray-500'
-              )}
-            >
-              {activeDocument.document.status}
-            </span>
+            <DocumentStatusMenu document={activeDocument.document} />
             {activeDocument.hasUnsavedChanges && (
               <span className="w-2 h-2 rounded-full bg-orange-500" title="Unsaved changes" />
             )}
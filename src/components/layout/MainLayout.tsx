@@ -7,14 +7,14 @@ import { DocumentEditor } from '../document/DocumentEditor';
 import { PipelineStatusBar } from '../pipeline/PipelineStatusBar';
 import { SessionSidebar } from '../sidebar/SessionSidebar';
 import { useAppStore } from '../../store';
-import { useWebSocket } from '../../hooks';
+import { useStreamingAnalysis } from '../../hooks';
 
 export function MainLayout() {
   const { ui, updateUI, toggleSidebar } = useAppStore();
   const [leftWidth, setLeftWidth] = useState(ui.chatPanelWidth);
 
-  // Initialize WebSocket connection for real-time updates
-  useWebSocket();
+  // Initialize WebSocket connection and pipeline event handlers
+  const { controlPipeline } = useStreamingAnalysis();
 
   const handleWidthChange = useCallback(
     (width: number) => {
@@ -57,7 +57,7 @@ export function MainLayout() {
           />
         </div>
       </div>
-      <PipelineStatusBar />
+      <PipelineStatusBar onControl={controlPipeline} />
     </div>
   );
 }
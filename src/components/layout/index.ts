@@ -3,3 +3,4 @@ export { Header } from './Header';
 export { SplitPanel } from './SplitPanel';
 export { SettingsDropdown } from './SettingsDropdown';
 export { LoadingOverlay } from './LoadingOverlay';
+export { DocumentStatusMenu } from './DocumentStatusMenu';
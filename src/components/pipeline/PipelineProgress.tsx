@@ -1,9 +1,19 @@
-import { Loader2, CheckCircle, XCircle, PauseCircle, Clock } from 'lucide-react';
-import type { PipelineState } from '../../types';
+import { useState } from 'react';
+import { Loader2, CheckCircle, XCircle, PauseCircle, Clock, Pause, Play, X, CornerDownRight } from 'lucide-react';
+import type { PipelineState, PipelineRoutingDecision } from '../../types';
 import { cn } from '../../lib/utils';
 
+export type PipelineControlHandler = (
+  pipelineName: string,
+  action: 'pause' | 'resume' | 'cancel' | 'redirect',
+  payload?: Record<string, unknown>
+) => void;
+
 interface PipelineProgressProps {
   pipeline: PipelineState;
+  routing?: PipelineRoutingDecision;
+  onControl?: PipelineControlHandler;
+  pausable?: boolean;
 }
 
 const pipelineLabels: Record<string, string> = {
@@ -16,11 +26,27 @@ const pipelineLabels: Record<string, string> = {
   consolidator: 'Consolidator',
 };
 
-export function PipelineProgress({ pipeline }: PipelineProgressProps) {
+export function PipelineProgress({ pipeline, routing, onControl, pausable = true }: PipelineProgressProps) {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [redirectQuery, setRedirectQuery] = useState('');
+
   const progress = pipeline.maxTurns > 0
     ? (pipeline.currentTurn / pipeline.maxTurns) * 100
     : 0;
 
+  const isControllable =
+    !!onControl &&
+    (pipeline.status === 'pending' || pipeline.status === 'running' || pipeline.status === 'paused');
+
+  const submitRedirect = () => {
+    const query = redirectQuery.trim();
+    if (query && onControl) {
+      onControl(pipeline.name, 'redirect', { query });
+    }
+    setIsRedirecting(false);
+    setRedirectQuery('');
+  };
+
   const getStatusIcon = () => {
     switch (pipeline.status) {
       case 'pending':
@@ -58,36 +84,104 @@ export function PipelineProgress({ pipeline }: PipelineProgressProps) {
   };
 
   return (
-    <div className="flex items-center gap-2 min-w-[140px]">
+    <div
+      className="flex items-center gap-2 min-w-[140px]"
+      title={routing ? `${Math.round(routing.confidence * 100)}% – ${routing.reason}` : undefined}
+    >
       {/* Status Icon */}
       {getStatusIcon()}
 
       {/* Pipeline Info */}
       <div className="flex-1">
-        <div className="flex items-center justify-between mb-1">
-          <span className="text-xs font-medium text-foreground">
-            {pipelineLabels[pipeline.name] || pipeline.name}
-          </span>
-          {pipeline.status === 'running' && (
-            <span className="text-xs text-muted-foreground">
-              {pipeline.currentTurn}/{pipeline.maxTurns}
-            </span>
-          )}
-        </div>
-
-        {/* Progress Bar */}
-        <div className="h-1 bg-background rounded-full overflow-hidden">
-          <div
-            className={cn(
-              'h-full transition-all duration-300 rounded-full',
-              getStatusColor()
-            )}
-            style={{
-              width: pipeline.status === 'complete' ? '100%' : `${progress}%`,
+        {isRedirecting ? (
+          <input
+            autoFocus
+            value={redirectQuery}
+            onChange={(e) => setRedirectQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitRedirect();
+              if (e.key === 'Escape') setIsRedirecting(false);
             }}
+            onBlur={() => setIsRedirecting(false)}
+            placeholder="Redirect with new query..."
+            className="w-full text-xs bg-background border border-border rounded px-1.5 py-0.5 text-foreground focus:outline-none"
           />
-        </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-foreground">
+                {pipelineLabels[pipeline.name] || pipeline.name}
+              </span>
+              {pipeline.status === 'running' ? (
+                <span className="text-xs text-muted-foreground">
+                  {pipeline.currentTurn}/{pipeline.maxTurns}
+                </span>
+              ) : routing && (
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(routing.confidence * 100)}%
+                </span>
+              )}
+            </div>
+
+            {/* Progress Bar */}
+            <div className="h-1 bg-background rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  'h-full transition-all duration-300 rounded-full',
+                  getStatusColor()
+                )}
+                style={{
+                  width: pipeline.status === 'complete' ? '100%' : `${progress}%`,
+                }}
+              />
+            </div>
+
+            {pipeline.controlError && (
+              <p className="mt-0.5 max-w-[180px] truncate text-[10px] text-red-400" title={pipeline.controlError}>
+                {pipeline.controlError}
+              </p>
+            )}
+          </>
+        )}
       </div>
+
+      {/* Controls */}
+      {isControllable && !isRedirecting && (
+        <div className="flex items-center">
+          {pipeline.status === 'paused' ? (
+            <button
+              className="p-0.5 rounded hover:bg-accent transition-colors"
+              title="Resume"
+              onClick={() => onControl!(pipeline.name, 'resume')}
+            >
+              <Play className="w-3 h-3 text-muted-foreground" />
+            </button>
+          ) : (
+            <button
+              className="p-0.5 rounded hover:bg-accent transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title={pausable ? 'Pause' : 'The MCP server cannot pause a running pipeline'}
+              disabled={!pausable}
+              onClick={() => onControl!(pipeline.name, 'pause')}
+            >
+              <Pause className="w-3 h-3 text-muted-foreground" />
+            </button>
+          )}
+          <button
+            className="p-0.5 rounded hover:bg-accent transition-colors"
+            title="Redirect"
+            onClick={() => setIsRedirecting(true)}
+          >
+            <CornerDownRight className="w-3 h-3 text-muted-foreground" />
+          </button>
+          <button
+            className="p-0.5 rounded hover:bg-accent transition-colors"
+            title="Cancel"
+            onClick={() => onControl!(pipeline.name, 'cancel')}
+          >
+            <X className="w-3 h-3 text-muted-foreground" />
+          </button>
+        </div>
+      )}
     </div>
   );
 }
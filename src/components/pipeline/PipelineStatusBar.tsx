@@ -1,15 +1,38 @@
 import { X, Pause, Play, RotateCcw } from 'lucide-react';
 import { usePipelineStore } from '../../store';
-import { PipelineProgress } from './PipelineProgress';
+import { PipelineProgress, PipelineControlHandler } from './PipelineProgress';
 import { cn } from '../../lib/utils';
 
-export function PipelineStatusBar() {
-  const { pipelines, isAnalyzing, currentQuery, clearPipelines } = usePipelineStore();
+interface PipelineStatusBarProps {
+  onControl?: PipelineControlHandler;
+}
+
+export function PipelineStatusBar({ onControl }: PipelineStatusBarProps) {
+  const { pipelines, routing, isAnalyzing, currentQuery, pausable, clearPipelines } = usePipelineStore();
 
   const pipelineArray = Array.from(pipelines.values());
   const activePipelines = pipelineArray.filter(
     (p) => p.status === 'running' || p.status === 'pending'
   );
+  const pausedPipelines = pipelineArray.filter((p) => p.status === 'paused');
+  const allPaused = activePipelines.length === 0 && pausedPipelines.length > 0;
+
+  const handlePauseAll = () => {
+    if (!onControl) return;
+    if (allPaused) {
+      pausedPipelines.forEach((p) => onControl(p.name, 'resume'));
+    } else {
+      activePipelines.forEach((p) => onControl(p.name, 'pause'));
+    }
+  };
+
+  const handleCancelAll = () => {
+    if (!onControl) {
+      clearPipelines();
+      return;
+    }
+    [...activePipelines, ...pausedPipelines].forEach((p) => onControl(p.name, 'cancel'));
+  };
   const completedPipelines = pipelineArray.filter((p) => p.status === 'complete');
   const errorPipelines = pipelineArray.filter((p) => p.status === 'error');
 
@@ -22,7 +45,13 @@ export function PipelineStatusBar() {
       {/* Left: Pipeline Progress */}
       <div className="flex items-center gap-4 overflow-x-auto">
         {pipelineArray.map((pipeline) => (
-          <PipelineProgress key={pipeline.name} pipeline={pipeline} />
+          <PipelineProgress
+            key={pipeline.name}
+            pipeline={pipeline}
+            routing={routing.get(pipeline.name)}
+            onControl={onControl}
+            pausable={pausable}
+          />
         ))}
       </div>
 
@@ -35,6 +64,11 @@ export function PipelineStatusBar() {
               {activePipelines.length} running
             </span>
           )}
+          {pausedPipelines.length > 0 && (
+            <span className="text-yellow-400">
+              {pausedPipelines.length} paused
+            </span>
+          )}
           {completedPipelines.length > 0 && (
             <span className="text-green-400">
               {completedPipelines.length} complete
@@ -52,15 +86,21 @@ export function PipelineStatusBar() {
           {isAnalyzing && (
             <>
               <button
-                className="p-1.5 rounded hover:bg-accent transition-colors"
-                title="Pause all"
+                className="p-1.5 rounded hover:bg-accent transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                title={allPaused ? 'Resume all' : pausable ? 'Pause all' : 'The MCP server cannot pause a running pipeline'}
+                disabled={!allPaused && !pausable}
+                onClick={handlePauseAll}
               >
-                <Pause className="w-4 h-4 text-muted-foreground" />
+                {allPaused ? (
+                  <Play className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <Pause className="w-4 h-4 text-muted-foreground" />
+                )}
               </button>
               <button
                 className="p-1.5 rounded hover:bg-accent transition-colors"
                 title="Cancel all"
-                onClick={clearPipelines}
+                onClick={handleCancelAll}
               >
                 <X className="w-4 h-4 text-muted-foreground" />
               </button>
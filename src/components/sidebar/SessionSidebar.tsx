@@ -1,7 +1,8 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useAppStore, SessionListItem } from '../../store/appStore';
 import { useDocumentStore } from '../../store/documentStore';
-import { FileText, ChevronDown, ChevronRight, Trash2, Plus } from 'lucide-react';
+import { FileText, ChevronDown, ChevronRight, Trash2, Plus, LayoutTemplate } from 'lucide-react';
+import { NewFromTemplateDialog } from '../document/NewFromTemplateDialog';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:8000';
 
@@ -38,6 +39,7 @@ export function SessionSidebar() {
   const [documentsExpanded, setDocumentsExpanded] = useState(true);
   const [chatsExpanded, setChatsExpanded] = useState(true);
   const [showNewDocDialog, setShowNewDocDialog] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
   const [newDocName, setNewDocName] = useState('');
   const [isCreatingDoc, setIsCreatingDoc] = useState(false);
 
@@ -279,13 +281,22 @@ export function SessionSidebar() {
               <FileText className="w-4 h-4" />
               <span>Documents</span>
             </button>
-            <button
-              onClick={() => setShowNewDocDialog(true)}
-              className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-primary"
-              title="New Document"
-            >
-              <Plus className="w-3.5 h-3.5" />
-            </button>
+            <div className="flex items-center">
+              <button
+                onClick={() => setShowTemplateDialog(true)}
+                className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-primary"
+                title="New from Template"
+              >
+                <LayoutTemplate className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => setShowNewDocDialog(true)}
+                className="p-1 rounded hover:bg-accent text-muted-foreground hover:text-primary"
+                title="New Document"
+              >
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
           </div>
 
           {documentsExpanded && (
@@ -468,6 +479,8 @@ export function SessionSidebar() {
           </div>
         </div>
       )}
+
+      {showTemplateDialog && <NewFromTemplateDialog onClose={() => setShowTemplateDialog(false)} />}
     </div>
   );
 }
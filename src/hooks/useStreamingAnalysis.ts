@@ -2,18 +2,32 @@ import { useCallback, useEffect } from 'react';
 import { useWebSocket } from './useWebSocket';
 import { usePipelineStore, useDocumentStore, useChatStore } from '../store';
 import { useEditIntentStore } from '../store/editIntentStore';
-import type { PipelineState } from '../types/pipeline';
-import type { PipelineName } from '../types/directive';
+import type { PipelineState, PipelineRoutingDecision } from '../types/pipeline';
+import type { DirectiveValidationError, PipelineName } from '../types/directive';
 
 interface UseStreamingAnalysisReturn {
   startAnalysis: (documentId: string, query: string) => void;
-  controlPipeline: (pipelineName: string, action: 'pause' | 'resume' | 'cancel' | 'redirect') => void;
+  controlPipeline: (
+    pipelineName: string,
+    action: 'pause' | 'resume' | 'cancel' | 'redirect',
+    payload?: Record<string, unknown>
+  ) => void;
   isConnected: boolean;
 }
 
 export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
   const { send, subscribe, isConnected } = useWebSocket();
-  const { setPipeline, updatePipelineProgress, completePipeline, setError, clearPipelines } = usePipelineStore();
+  const {
+    setPipeline,
+    setRouting,
+    updatePipelineProgress,
+    setPipelineStatus,
+    completePipeline,
+    setError,
+    setControlError,
+    setPausable,
+    clearPipelines,
+  } = usePipelineStore();
   const { updateBlock, setBlockLock, removeBlockLock } = useDocumentStore();
   const { addMessage, updateStreamingContent, setIsStreaming } = useChatStore();
   const {
@@ -27,13 +41,21 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
     cancelStreaming,
     setTimeoutWarning,
     clearTimeoutWarning,
+    setRejectedEdit,
   } = useEditIntentStore();
 
   // Handle analysis_started event
   useEffect(() => {
     return subscribe('analysis_started', (message) => {
-      const { pipelines, query } = message.payload as { pipelines: string[]; query: string };
+      const { pipelines, query, routing, pausable } = message.payload as {
+        pipelines: string[];
+        query: string;
+        routing?: PipelineRoutingDecision[];
+        pausable?: boolean;
+      };
       clearPipelines();
+      setRouting(routing || []);
+      setPausable(pausable ?? true);
 
       // Initialize pipeline states
       pipelines.forEach((pipelineName) => {
@@ -50,7 +72,7 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
 
       setIsStreaming(true);
     });
-  }, [subscribe, clearPipelines, setPipeline, setIsStreaming]);
+  }, [subscribe, clearPipelines, setRouting, setPausable, setPipeline, setIsStreaming]);
 
   // Handle pipeline started
   useEffect(() => {
@@ -76,7 +98,7 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
       if (pipelineName && payload) {
         const { turn, maxTurns } = payload as { turn: number; maxTurns: number };
         const progress = Math.round((turn / maxTurns) * 100);
-        updatePipelineProgress(pipelineName, progress, turn);
+        updatePipelineProgress(pipelineName, progress, turn, maxTurns);
       }
     });
   }, [subscribe, updatePipelineProgress]);
@@ -124,6 +146,30 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
     });
   }, [subscribe, updateBlock]);
 
+  // Handle validation of pipeline writes; rejected writes leave the block unchanged
+  useEffect(() => {
+    return subscribe('edit_validation_result', (message) => {
+      const { pipelineName, payload } = message;
+      if (payload) {
+        const { blockId, accepted, errors } = payload as {
+          blockId: string;
+          accepted: boolean;
+          errors: DirectiveValidationError[];
+        };
+        if (!accepted) {
+          cancelStreaming(blockId);
+          // Shown on the block until dismissed or the block is written again
+          setRejectedEdit({
+            blockId,
+            pipelineName: pipelineName as PipelineName | undefined,
+            errors,
+            rejectedAt: Date.now(),
+          });
+        }
+      }
+    });
+  }, [subscribe, cancelStreaming, setRejectedEdit]);
+
   // Handle pipeline completion
   useEffect(() => {
     return subscribe('complete', (message) => {
@@ -169,6 +215,35 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
     });
   }, [subscribe, setError]);
 
+  // Handle pipeline control acknowledgements
+  useEffect(() => {
+    return subscribe('pipeline_control_ack', (message) => {
+      const { payload } = message;
+      if (payload) {
+        const { pipelineName, action, success, state, error } = payload as {
+          pipelineName: string;
+          action: string;
+          success: boolean;
+          state?: { status: PipelineState['status']; currentTurn: number; maxTurns: number };
+          error?: string;
+        };
+
+        // Shown next to the pipeline's controls until a later control succeeds
+        if (!success || !state) {
+          setControlError(pipelineName, error || `Could not ${action} the pipeline`);
+          return;
+        }
+        setControlError(pipelineName, undefined);
+
+        if (action === 'redirect') {
+          // Pipeline restarts from scratch with the new query
+          updatePipelineProgress(pipelineName, 0, 0, 0);
+        }
+        setPipelineStatus(pipelineName, state.status);
+      }
+    });
+  }, [subscribe, updatePipelineProgress, setPipelineStatus, setControlError]);
+
   // Handle lock changes
   useEffect(() => {
     return subscribe('locks_changed', (message) => {
@@ -377,10 +452,14 @@ export function useStreamingAnalysis(): UseStreamingAnalysisReturn {
   );
 
   const controlPipeline = useCallback(
-    (pipelineName: string, action: 'pause' | 'resume' | 'cancel' | 'redirect') => {
+    (
+      pipelineName: string,
+      action: 'pause' | 'resume' | 'cancel' | 'redirect',
+      payload?: Record<string, unknown>
+    ) => {
       send({
         type: 'control_pipeline',
-        payload: { pipelineName, action },
+        payload: { ...payload, pipelineName, action },
       });
     },
     [send]
@@ -0,0 +1,85 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// Above this many LCS cells the diff degrades to remove-all/add-all
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff (whitespace is kept attached to the preceding token)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(before.match(/\S+\s*|\s+/g) || [], after.match(/\S+\s*|\s+/g) || []);
+}
+
+/**
+ * Line-level diff, for structured content rendered as JSON
+ */
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffTokens(before.split(/(?<=\n)/), after.split(/(?<=\n)/));
+}
+
+/**
+ * Diff two block contents: text blocks by word, structured blocks by JSON line
+ */
+export function diffBlockContent(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): DiffPart[] {
+  const isText = (c?: Record<string, unknown> | null) =>
+    !!c && typeof c.text === 'string' && Object.keys(c).every((k) => k === 'text' || k === 'type' || k === 'level');
+
+  if (isText(before) && isText(after)) {
+    return diffWords(before!.text as string, after!.text as string);
+  }
+  return diffLines(
+    before ? JSON.stringify(before, null, 2) : '',
+    after ? JSON.stringify(after, null, 2) : ''
+  );
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(a.length ? [{ type: 'removed' as const, value: a.join('') }] : []),
+      ...(b.length ? [{ type: 'added' as const, value: b.join('') }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], value: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
@@ -4,3 +4,16 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Scroll a document block (or section) into view and flash it
+ */
+export function scrollToDocumentElement(kind: 'block' | 'section', id: string) {
+  const element = document.querySelector<HTMLElement>(`[data-${kind}-id="${id}"]`);
+  if (!element) return false;
+
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element.classList.add('ring-2', 'ring-primary');
+  setTimeout(() => element.classList.remove('ring-2', 'ring-primary'), 1500);
+  return true;
+}
@@ -30,6 +30,8 @@ interface UIState {
   activeSidebarTab: 'chat' | 'history' | 'references';
   theme: 'dark' | 'light' | 'claude';
   sidebarOpen: boolean;
+  validationPanelOpen: boolean;
+  validationPanelDock: 'right' | 'bottom';
   isLoading: boolean;
   loadingMessage: string | null;
 }
@@ -82,6 +84,8 @@ const initialUI: UIState = {
   activeSidebarTab: 'chat',
   theme: 'dark',
   sidebarOpen: true,
+  validationPanelOpen: false,
+  validationPanelDock: 'right',
   isLoading: false,
   loadingMessage: null,
 };
@@ -251,7 +255,7 @@ export const useAppStore = create<AppState>()(
         }),
         merge: (persistedState: any, currentState: AppState) => ({
           ...currentState,
-          ui: persistedState?.ui ?? currentState.ui,
+          ui: { ...currentState.ui, ...persistedState?.ui }, // Defaults fill fields added since it was saved
           session: {
             ...currentState.session,
             sessionId: persistedState?.session?.sessionId ?? null,
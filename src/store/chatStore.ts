@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { ChatMessage, DocumentReference } from '../types';
+import type { BlockEditProposal, ChatMessage, DocumentReference, ToolCallRecord } from '../types';
 
 interface ChatState {
   messages: ChatMessage[];
@@ -14,6 +14,10 @@ interface ChatState {
   addMessage: (message: ChatMessage) => void;
   updateMessage: (messageId: string, updates: Partial<ChatMessage>) => void;
   appendToMessage: (messageId: string, content: string) => void;
+  addToolCall: (messageId: string, toolCall: ToolCallRecord) => void;
+  updateToolCall: (messageId: string, toolCallId: string, updates: Partial<ToolCallRecord>) => void;
+  addEditProposal: (messageId: string, proposal: BlockEditProposal) => void;
+  updateEditProposal: (messageId: string, proposalId: string, updates: Partial<BlockEditProposal>) => void;
   setMessages: (messages: ChatMessage[]) => void;
   clearMessages: () => void;
   setLoading: (isLoading: boolean) => void;
@@ -68,6 +72,68 @@ export const useChatStore = create<ChatState>()(
           'appendToMessage'
         ),
 
+      addToolCall: (messageId, toolCall) =>
+        set(
+          (state) => ({
+            messages: state.messages.map((msg) =>
+              msg.id === messageId
+                ? { ...msg, toolCalls: [...(msg.toolCalls || []), toolCall] }
+                : msg
+            ),
+          }),
+          false,
+          'addToolCall'
+        ),
+
+      updateToolCall: (messageId, toolCallId, updates) =>
+        set(
+          (state) => ({
+            messages: state.messages.map((msg) =>
+              msg.id === messageId
+                ? {
+                    ...msg,
+                    toolCalls: msg.toolCalls?.map((call) =>
+                      call.id === toolCallId ? { ...call, ...updates } : call
+                    ),
+                  }
+                : msg
+            ),
+          }),
+          false,
+          'updateToolCall'
+        ),
+
+      addEditProposal: (messageId, proposal) =>
+        set(
+          (state) => ({
+            messages: state.messages.map((msg) =>
+              msg.id === messageId
+                ? { ...msg, editProposals: [...(msg.editProposals || []), proposal] }
+                : msg
+            ),
+          }),
+          false,
+          'addEditProposal'
+        ),
+
+      updateEditProposal: (messageId, proposalId, updates) =>
+        set(
+          (state) => ({
+            messages: state.messages.map((msg) =>
+              msg.id === messageId
+                ? {
+                    ...msg,
+                    editProposals: msg.editProposals?.map((proposal) =>
+                      proposal.id === proposalId ? { ...proposal, ...updates } : proposal
+                    ),
+                  }
+                : msg
+            ),
+          }),
+          false,
+          'updateEditProposal'
+        ),
+
       setMessages: (messages) =>
         set({ messages }, false, 'setMessages'),
 
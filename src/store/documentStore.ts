@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { Document, Section, Block, BlockLock } from '../types';
+import type { Document, DocumentVersion, Section, Block, BlockLock } from '../types';
 
 interface ActiveDocument {
   document: Document | null;
@@ -28,6 +28,9 @@ interface DocumentState {
   activeDocument: ActiveDocument;
   documentList: DocumentList;
   blockLocks: BlockLock[];
+  focusedSectionId: string | null;
+  viewingVersion: DocumentVersion | null; // Past version shown read-only instead of the draft
+  compareRange: { from: string; to: string } | null; // Version IDs, or 'current' for the draft
   recentDocuments: { id: string; fileName: string; accessedAt: string }[];
 
   // Actions
@@ -47,6 +50,9 @@ interface DocumentState {
   removeBlockLock: (blockId: string) => void;
   addRecentDocument: (id: string, fileName: string) => void;
   markUnsavedChanges: (hasChanges: boolean) => void;
+  setFocusedSection: (sectionId: string | null) => void;
+  setViewingVersion: (version: DocumentVersion | null) => void;
+  setCompareRange: (range: { from: string; to: string } | null) => void;
 }
 
 export const useDocumentStore = create<DocumentState>()(
@@ -64,6 +70,9 @@ export const useDocumentStore = create<DocumentState>()(
         error: null,
       },
       blockLocks: [],
+      focusedSectionId: null,
+      viewingVersion: null,
+      compareRange: null,
       recentDocuments: [],
 
       setDocumentList: (documents) =>
@@ -127,6 +136,13 @@ export const useDocumentStore = create<DocumentState>()(
               error: null,
               hasUnsavedChanges: false,
             },
+            // Focus and the viewed version belong to the previous document when switching
+            focusedSectionId:
+              document?.id === state.activeDocument.document?.id ? state.focusedSectionId : null,
+            viewingVersion:
+              document?.id === state.activeDocument.document?.id ? state.viewingVersion : null,
+            compareRange:
+              document?.id === state.activeDocument.document?.id ? state.compareRange : null,
           }),
           false,
           'setDocument'
@@ -286,6 +302,24 @@ export const useDocumentStore = create<DocumentState>()(
           false,
           'markUnsavedChanges'
         ),
+
+      setFocusedSection: (sectionId) =>
+        set({ focusedSectionId: sectionId }, false, 'setFocusedSection'),
+
+      // Viewing a version and comparing versions replace each other
+      setViewingVersion: (version) =>
+        set(
+          (state) => ({ viewingVersion: version, compareRange: version ? null : state.compareRange }),
+          false,
+          'setViewingVersion'
+        ),
+
+      setCompareRange: (range) =>
+        set(
+          (state) => ({ compareRange: range, viewingVersion: range ? null : state.viewingVersion }),
+          false,
+          'setCompareRange'
+        ),
     }),
     { name: 'DocumentStore' }
   )
@@ -4,6 +4,7 @@ import type {
   PipelineName,
   EditIntent,
   QueuedEdit,
+  RejectedEdit,
   StreamingEdit,
 } from '../types/directive';
 
@@ -23,6 +24,9 @@ interface EditIntentState {
   // Lock timeout warnings (blockId -> seconds remaining)
   timeoutWarnings: Map<string, number>;
 
+  // Latest rejected pipeline write by block ID, until dismissed or the block is edited again
+  rejectedEdits: Map<string, RejectedEdit>;
+
   // Actions
   declareIntent: (intent: EditIntent) => void;
   removeIntent: (blockId: string) => void;
@@ -42,6 +46,9 @@ interface EditIntentState {
   setTimeoutWarning: (blockId: string, secondsRemaining: number) => void;
   clearTimeoutWarning: (blockId: string) => void;
 
+  setRejectedEdit: (rejection: RejectedEdit) => void;
+  clearRejectedEdit: (blockId: string) => void;
+
   // Computed helpers
   getBlockIntent: (blockId: string) => EditIntent | undefined;
   getBlockStreamingEdit: (blockId: string) => StreamingEdit | undefined;
@@ -58,6 +65,7 @@ export const useEditIntentStore = create<EditIntentState>()(
       queuedEdits: [],
       pendingValidation: new Set(),
       timeoutWarnings: new Map(),
+      rejectedEdits: new Map(),
 
       // Intent management
       declareIntent: (intent) =>
@@ -144,9 +152,14 @@ export const useEditIntentStore = create<EditIntentState>()(
               (e) => e.intent.blockId !== blockId
             );
 
+            // A new write supersedes the last rejected one
+            const newRejections = new Map(state.rejectedEdits);
+            newRejections.delete(blockId);
+
             return {
               activeEdits: newActiveEdits,
               queuedEdits: newQueuedEdits,
+              rejectedEdits: newRejections,
             };
           },
           false,
@@ -253,6 +266,29 @@ export const useEditIntentStore = create<EditIntentState>()(
           'clearTimeoutWarning'
         ),
 
+      // Rejected write management
+      setRejectedEdit: (rejection) =>
+        set(
+          (state) => {
+            const newRejections = new Map(state.rejectedEdits);
+            newRejections.set(rejection.blockId, rejection);
+            return { rejectedEdits: newRejections };
+          },
+          false,
+          'setRejectedEdit'
+        ),
+
+      clearRejectedEdit: (blockId) =>
+        set(
+          (state) => {
+            const newRejections = new Map(state.rejectedEdits);
+            newRejections.delete(blockId);
+            return { rejectedEdits: newRejections };
+          },
+          false,
+          'clearRejectedEdit'
+        ),
+
       // Computed helpers
       getBlockIntent: (blockId) => get().intents.get(blockId),
 
@@ -300,6 +336,9 @@ export const useBlockEditState = (blockId: string) => {
   const isPendingValidation = useEditIntentStore((state) =>
     state.pendingValidation.has(blockId)
   );
+  const rejectedEdit = useEditIntentStore((state) =>
+    state.rejectedEdits.get(blockId)
+  );
 
   return {
     intent,
@@ -307,6 +346,7 @@ export const useBlockEditState = (blockId: string) => {
     queuePosition,
     timeoutWarning,
     isPendingValidation,
+    rejectedEdit,
     isStreaming: streamingEdit ? !streamingEdit.isComplete : false,
     isQueued: queuePosition !== undefined,
   };
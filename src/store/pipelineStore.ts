@@ -1,20 +1,25 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { PipelineState, PipelineName, PipelineStatus } from '../types';
+import type { PipelineState, PipelineName, PipelineStatus, PipelineRoutingDecision } from '../types';
 
 interface PipelineStoreState {
   pipelines: Map<string, PipelineState>;
+  routing: Map<string, PipelineRoutingDecision>;
   isAnalyzing: boolean;
   currentQuery: string | null;
+  pausable: boolean; // False when the MCP server cannot suspend a running pipeline
 
   // Actions
   startAnalysis: (query: string) => void;
   endAnalysis: () => void;
   setPipeline: (name: string, state: PipelineState) => void;
-  updatePipelineProgress: (name: string, progress: number, currentTurn: number) => void;
+  setRouting: (decisions: PipelineRoutingDecision[]) => void;
+  updatePipelineProgress: (name: string, progress: number, currentTurn: number, maxTurns?: number) => void;
   setPipelineStatus: (name: string, status: PipelineStatus) => void;
   setPipelineContent: (name: string, content: string) => void;
   setPipelineError: (name: string, error: string) => void;
+  setControlError: (name: string, error: string | undefined) => void;
+  setPausable: (pausable: boolean) => void;
   completePipeline: (name: string, status: 'complete' | 'cancelled') => void;
   setError: (name: string, error: string) => void;
   clearPipelines: () => void;
@@ -25,8 +30,10 @@ export const usePipelineStore = create<PipelineStoreState>()(
   devtools(
     (set, get) => ({
       pipelines: new Map(),
+      routing: new Map(),
       isAnalyzing: false,
       currentQuery: null,
+      pausable: true,
 
       startAnalysis: (query) =>
         set(
@@ -34,6 +41,7 @@ export const usePipelineStore = create<PipelineStoreState>()(
             isAnalyzing: true,
             currentQuery: query,
             pipelines: new Map(),
+            routing: new Map(),
           },
           false,
           'startAnalysis'
@@ -59,7 +67,16 @@ export const usePipelineStore = create<PipelineStoreState>()(
           'setPipeline'
         ),
 
-      updatePipelineProgress: (name, progress, currentTurn) =>
+      setRouting: (decisions) =>
+        set(
+          {
+            routing: new Map(decisions.map((d) => [d.pipelineName, d])),
+          },
+          false,
+          'setRouting'
+        ),
+
+      updatePipelineProgress: (name, progress, currentTurn, maxTurns) =>
         set(
           (prev) => {
             const pipelines = new Map(prev.pipelines);
@@ -69,7 +86,9 @@ export const usePipelineStore = create<PipelineStoreState>()(
                 ...existing,
                 progress,
                 currentTurn,
-                status: 'running',
+                maxTurns: maxTurns ?? existing.maxTurns,
+                // Progress can still arrive after a pause takes effect
+                status: existing.status === 'paused' ? 'paused' : 'running',
               });
             }
             return { pipelines };
@@ -131,6 +150,25 @@ export const usePipelineStore = create<PipelineStoreState>()(
           'setPipelineError'
         ),
 
+      setControlError: (name, error) =>
+        set(
+          (prev) => {
+            const pipelines = new Map(prev.pipelines);
+            const existing = pipelines.get(name);
+            if (existing) {
+              pipelines.set(name, {
+                ...existing,
+                controlError: error,
+              });
+            }
+            return { pipelines };
+          },
+          false,
+          'setControlError'
+        ),
+
+      setPausable: (pausable) => set({ pausable }, false, 'setPausable'),
+
       completePipeline: (name, status) =>
         set(
           (prev) => {
@@ -172,6 +210,7 @@ export const usePipelineStore = create<PipelineStoreState>()(
         set(
           {
             pipelines: new Map(),
+            routing: new Map(),
             isAnalyzing: false,
             currentQuery: null,
           },
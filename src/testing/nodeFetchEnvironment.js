@@ -0,0 +1,14 @@
+/**
+ * Jest 27's node environment predates global fetch; server code under test
+ * uses it, so expose Node's own implementation.
+ */
+const NodeEnvironment = require('jest-environment-node');
+
+class NodeFetchEnvironment extends NodeEnvironment {
+  async setup() {
+    await super.setup();
+    Object.assign(this.global, { fetch, Response, Headers, Request, ReadableStream });
+  }
+}
+
+module.exports = NodeFetchEnvironment;
@@ -30,6 +30,32 @@ export interface PipelineResultSummary {
   summary?: string;
 }
 
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'running' | 'complete' | 'error';
+  result?: string;
+}
+
+export type EditProposalOperation = 'replace' | 'insert' | 'reorder';
+
+// Structured block edit proposed by the assistant, applied only when accepted
+export interface BlockEditProposal {
+  id: string;
+  operation: EditProposalOperation;
+  documentId: string;
+  sectionId: string;
+  blockId?: string;
+  blockType?: string;
+  content?: Record<string, unknown>;
+  previousContent?: Record<string, unknown>;
+  position?: number;
+  previousPosition?: number;
+  reason?: string;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
 export interface ChatMessage {
   id: string;
   sessionId: string;
@@ -40,7 +66,10 @@ export interface ChatMessage {
   documentContext?: DocumentContext;
   dataSources?: DataSourceStatus[];
   pipelineResults?: PipelineResultSummary[];
+  toolCalls?: ToolCallRecord[];
+  editProposals?: BlockEditProposal[];
   isStreaming?: boolean;
+  unsaved?: boolean; // Client-side ID until the server reports the stored message
 }
 
 export interface ChatSession {
@@ -43,6 +43,7 @@ export interface ConstraintsDirective {
   maxWords?: number;
   minEntities?: number;
   maxEntities?: number;
+  strict?: boolean; // Violations are errors rather than warnings
 }
 
 // Combined directives for a block
@@ -152,3 +153,11 @@ export interface StreamingEdit {
   startedAt: number;
   lastChunkAt: number;
 }
+
+// Pipeline write rejected because it would break the block's directives
+export interface RejectedEdit {
+  blockId: string;
+  pipelineName?: PipelineName;
+  errors: DirectiveValidationError[];
+  rejectedAt: number;
+}
@@ -56,6 +56,19 @@ export interface Block {
   updatedAt: string;
 }
 
+// A content state of a block, from its edit history
+export interface BlockRevision {
+  id: string;
+  operationType: 'create' | 'update';
+  authoredBy: string; // 'user', a pipeline name, or 'chat'
+  sessionId: string | null;
+  chatMessageId: string | null;
+  content: Record<string, unknown>;
+  previousContent: Record<string, unknown> | null;
+  undone: boolean;
+  createdAt: string;
+}
+
 export interface SectionValidation {
   suggestedBlockTypes: string[];
   warnings: string[];
@@ -99,6 +112,10 @@ export interface DocumentMetadata {
   targetMarkets?: string[];
   author?: string;
   generationMode?: 'one-shot' | 'editing' | 'collaborative';
+  parentDocumentId?: string; // Set on drafts branched from a published version
+  parentVersion?: string;
+  sourceTemplate?: string; // Template the document was created from
+  sourceTemplateVersion?: number;
 }
 
 export interface Document {
@@ -116,6 +133,205 @@ export interface Document {
   updatedAt: string;
 }
 
+// Status workflow (transitions are validated on the server)
+export interface DocumentTransition {
+  id: string;
+  documentId: string;
+  fromStatus: DocumentStatus;
+  toStatus: DocumentStatus;
+  actor: string;
+  comment: string | null;
+  approvers: string[];
+  createdAt: string;
+}
+
+export interface DocumentApproval {
+  id: string;
+  approver: string;
+  comment: string | null;
+  createdAt: string;
+}
+
+export interface DocumentWorkflow {
+  status: DocumentStatus;
+  allowedTransitions: DocumentStatus[];
+  readOnly: boolean;
+  review: {
+    transitionId: string;
+    submittedBy: string;
+    submittedAt: string;
+    approvers: string[];
+    approvals: DocumentApproval[];
+    pendingApprovers: string[];
+  } | null;
+  history: DocumentTransition[];
+}
+
+// Published, immutable document versions
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface DocumentVersionSummary {
+  id: string;
+  documentId: string;
+  version: string;
+  bump: VersionBump | 'initial';
+  notes: string | null;
+  sectionCount: number;
+  blockCount: number;
+  publishedBy: string;
+  createdAt: string;
+}
+
+export interface DocumentVersion extends DocumentVersionSummary {
+  snapshot: {
+    fileName: string;
+    status: DocumentStatus;
+    metadata: Record<string, unknown>;
+    sections: Section[];
+  };
+}
+
+// Structural diff between two versions ('current' is the live draft)
+export type DiffChange = 'added' | 'removed' | 'moved' | 'modified';
+
+export interface FieldChange {
+  path: string;
+  label?: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+  delta?: number;
+}
+
+export interface BlockDiff {
+  blockId: string;
+  blockType: string;
+  changes: DiffChange[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  fromSectionId?: string;
+  fromPosition?: number;
+  toPosition?: number;
+  fields: FieldChange[];
+}
+
+export interface SectionDiff {
+  sectionId: string;
+  sectionType: string;
+  title: string | null;
+  previousTitle?: string | null;
+  changes: DiffChange[];
+  blocks: BlockDiff[];
+}
+
+export interface DocumentDiff {
+  from: { id: string; version: string; label: string };
+  to: { id: string; version: string; label: string };
+  summary: Record<DiffChange, number>;
+  sections: SectionDiff[];
+}
+
+// Templates for new documents (GET /api/documents/templates/...)
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  source: 'seed' | 'user';
+  version: number;
+  sectionCount: number;
+  chunkCount: number;
+  updatedAt: string;
+  errors?: { line: number; directive: string; message: string }[]; // Unresolvable EXTENDS/INCLUDE
+}
+
+export interface TemplatePreviewBlock {
+  id: string;
+  type: string;
+  position: number;
+}
+
+export interface TemplatePreviewSection {
+  id: string;
+  type: string;
+  title: string;
+  position: number;
+  blocks: TemplatePreviewBlock[];
+}
+
+export interface TemplatePreview {
+  sections: TemplatePreviewSection[];
+  warnings: string[];
+}
+
+// Re-applying the source template's directives (GET/POST /api/documents/:id/template-sync)
+export type TemplateSyncChange = 'added' | 'changed' | 'unchanged' | 'not_in_template';
+
+export interface TemplateDirectiveChange {
+  directive: 'pipeline' | 'entityTypes' | 'relationships' | 'constraints' | 'entityRange';
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TemplateSyncBlock {
+  chunkId: string | null;
+  blockId: string | null;
+  blockType: string;
+  change: TemplateSyncChange;
+  directives: TemplateDirectiveChange[];
+}
+
+export interface TemplateSyncSection {
+  templateSectionId: string | null;
+  sectionId: string | null;
+  sectionType: string;
+  title: string | null;
+  change: TemplateSyncChange;
+  directives: TemplateDirectiveChange[];
+  blocks: TemplateSyncBlock[];
+}
+
+export interface TemplateSyncPlan {
+  templateId: string;
+  fromVersion: number | null;
+  toVersion: number;
+  summary: { added: number; changed: number; notInTemplate: number };
+  sections: TemplateSyncSection[];
+}
+
+// Document-wide validation (GET /api/documents/:id/validation)
+export interface ValidationIssue {
+  type: string;
+  message: string;
+  blockId?: string;
+  sectionId?: string;
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface BlockValidationReport {
+  blockId: string;
+  blockType: string;
+  position: number;
+  isValid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface SectionValidationReport {
+  sectionId: string;
+  sectionType: string;
+  title: string | null;
+  warnings: ValidationIssue[];
+  blocks: BlockValidationReport[];
+}
+
+export interface DocumentValidationReport {
+  documentId: string;
+  summary: { totalBlocks: number; validBlocks: number; errorCount: number; warningCount: number };
+  sections: SectionValidationReport[];
+}
+
 // Block Lock Types
 export interface BlockLock {
   id: string;
@@ -28,16 +28,24 @@ export interface PipelineState {
   allocatedBlocks?: string[];
   error?: string;
   lastContent?: string;
+  controlError?: string; // Why the last pause/resume/cancel/redirect was refused
 }
 
 export interface PipelineEvent {
-  type: 'started' | 'progress' | 'content' | 'block_update' | 'complete' | 'error';
+  type: 'started' | 'progress' | 'content' | 'block_update' | 'edit_validation_result' | 'complete' | 'error';
   sessionId: string;
   pipelineName: PipelineName | string;
   timestamp: number;
   payload: Record<string, unknown>;
 }
 
+export interface PipelineRoutingDecision {
+  pipelineName: PipelineName | string;
+  selected: boolean;
+  confidence: number;
+  reason: string;
+}
+
 export interface PipelineControlAction {
   action: 'pause' | 'resume' | 'cancel' | 'redirect';
   pipelineName: string;